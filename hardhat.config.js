@@ -0,0 +1,14 @@
+// Local chain the integration tests (npm run test:integration) deploy the DEX to.
+// Set BLOCKX_FORK_URL to fork BlockX instead of starting from an empty chain.
+module.exports = {
+  networks: {
+    hardhat: {
+      chainId: 31337, // The devnet in src/config/chains.ts
+      forking: process.env.BLOCKX_FORK_URL ? { url: process.env.BLOCKX_FORK_URL } : undefined,
+    },
+  },
+  paths: {
+    cache: 'node_modules/.cache/hardhat',
+    artifacts: 'node_modules/.cache/hardhat/artifacts',
+  },
+}
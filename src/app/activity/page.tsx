@@ -0,0 +1,246 @@
+'use client'
+
+import React, { useState, useEffect, useMemo } from 'react'
+import { useAccount, usePublicClient } from 'wagmi'
+import { formatUnits } from 'viem'
+import { ArrowLeftRight, Coins, ExternalLink, Flame, Loader2, Minus, Plus, RefreshCw } from 'lucide-react'
+import {
+  ActivityService,
+  ActivityItem,
+  ActivityType,
+  ACTIVITY_TYPE_LABELS,
+  findKnownToken,
+  loadPoolRegistry,
+  formatAddress,
+  formatBalance,
+  getExplorerUrl,
+} from '@/sdk'
+import { useTx } from '@/context/tx'
+
+const PAGE_SIZE = 20
+
+const TYPE_ICONS: Record<ActivityType, React.ComponentType<{ className?: string }>> = {
+  swap: ArrowLeftRight,
+  mint: Plus,
+  increase: Plus,
+  decrease: Minus,
+  collect: Coins,
+  burn: Flame,
+}
+
+export default function ActivityPage() {
+  const { address: userAddress, isConnected } = useAccount()
+  const publicClient = usePublicClient()
+
+  const { addError } = useTx()
+  const [items, setItems] = useState<ActivityItem[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [typeFilter, setTypeFilter] = useState<ActivityType | 'all'>('all')
+  const [tokenFilter, setTokenFilter] = useState('all')
+  const [page, setPage] = useState(0)
+
+  useEffect(() => {
+    if (!userAddress || !publicClient) return
+    const client = publicClient
+    const owner = userAddress
+    let cancelled = false
+
+    async function loadActivity() {
+      const activityService = new ActivityService(client)
+      // Show what's stored right away; the scan only adds blocks since the last visit
+      setItems(activityService.getCachedActivity(owner))
+      setIsLoading(true)
+      try {
+        const result = await activityService.getActivity(owner, progress => {
+          if (!cancelled) setItems(progress)
+        })
+        if (!cancelled) setItems(result)
+      } catch (err) {
+        if (!cancelled) {
+          addError({ title: 'Failed to Load Activity', message: err instanceof Error ? err.message : 'Failed to load activity' })
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadActivity()
+    return () => {
+      cancelled = true
+    }
+  }, [userAddress, publicClient, refreshKey, addError])
+
+  // Read on each render; the scan may have just added pools and their tokens
+  const registry = loadPoolRegistry()
+  const tokenInfo = (address: string) => findKnownToken(address, registry)
+
+  const tokenOptions = useMemo(
+    () => Array.from(new Set(items.flatMap(item => item.tokens ?? []).map(t => t.toLowerCase()))),
+    [items]
+  )
+
+  const filtered = items.filter(item =>
+    (typeFilter === 'all' || item.type === typeFilter) &&
+    (tokenFilter === 'all' || !!item.tokens?.some(t => t.toLowerCase() === tokenFilter))
+  )
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const pageItems = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  const formatAmount = (amount: string, token: string) => {
+    const info = tokenInfo(token)
+    return `${formatBalance(formatUnits(BigInt(amount), info?.decimals ?? 18))} ${info?.symbol ?? formatAddress(token)}`
+  }
+
+  const describe = (item: ActivityItem): string => {
+    if (!item.tokens) return item.tokenId ? `Position #${item.tokenId}` : 'Unknown tokens'
+    const [a, b] = item.tokens
+    if (item.type === 'swap') return `${formatAmount(item.amounts[0], a)} → ${formatAmount(item.amounts[1], b)}`
+    if (item.type === 'burn') return `${tokenInfo(a)?.symbol ?? formatAddress(a)}/${tokenInfo(b)?.symbol ?? formatAddress(b)}`
+    return `${formatAmount(item.amounts[0], a)} + ${formatAmount(item.amounts[1], b)}`
+  }
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="glass-card p-8 text-center">
+            <h1 className="text-2xl font-semibold text-white mb-4">Activity</h1>
+            <p className="text-white/70">Please connect your wallet to view your activity.</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="glass-card p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h1 className="text-2xl font-semibold text-white">Activity</h1>
+              <p className="text-sm text-white/70 mt-1">
+                Swaps and liquidity actions for your wallet, read from the chain
+              </p>
+            </div>
+            <button
+              onClick={() => setRefreshKey(key => key + 1)}
+              disabled={isLoading}
+              className="glass-button-primary flex items-center gap-2 px-4 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              {isLoading ? 'Scanning...' : 'Refresh'}
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="flex flex-wrap gap-3 mb-6">
+            <select
+              value={typeFilter}
+              onChange={(e) => {
+                setTypeFilter(e.target.value as ActivityType | 'all')
+                setPage(0)
+              }}
+              className="glass-input px-3 py-2 text-sm text-white bg-transparent"
+            >
+              <option value="all" className="bg-gray-900">All types</option>
+              {(Object.keys(ACTIVITY_TYPE_LABELS) as ActivityType[]).map(type => (
+                <option key={type} value={type} className="bg-gray-900">{ACTIVITY_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <select
+              value={tokenFilter}
+              onChange={(e) => {
+                setTokenFilter(e.target.value)
+                setPage(0)
+              }}
+              className="glass-input px-3 py-2 text-sm text-white bg-transparent"
+            >
+              <option value="all" className="bg-gray-900">All tokens</option>
+              {tokenOptions.map(token => (
+                <option key={token} value={token} className="bg-gray-900">
+                  {tokenInfo(token)?.symbol ?? formatAddress(token)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {isLoading && items.length === 0 ? (
+            <div className="text-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-white mx-auto mb-2" />
+              <p className="text-white/70">Scanning chain history...</p>
+            </div>
+          ) : filtered.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-white/70">No activity found.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {pageItems.map(item => {
+                const Icon = TYPE_ICONS[item.type]
+                return (
+                  <div
+                    key={item.id}
+                    className="flex items-center justify-between gap-4 p-4 rounded-xl border border-white/10 bg-white/5"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center shrink-0">
+                        <Icon className="w-4 h-4 text-white" />
+                      </div>
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-white">
+                          {ACTIVITY_TYPE_LABELS[item.type]}
+                          {item.tokenId && <span className="ml-2 text-xs text-white/50">#{item.tokenId}</span>}
+                        </div>
+                        <div className="text-sm text-white/70 truncate">{describe(item)}</div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className="text-xs text-white/50">
+                        {item.timestamp ? new Date(item.timestamp * 1000).toLocaleString() : `Block ${item.blockNumber}`}
+                      </span>
+                      <a
+                        href={`${getExplorerUrl()}/tx/${item.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-400 hover:text-blue-300 transition-colors"
+                        title="View on explorer"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {filtered.length > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-6 text-sm">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="glass-button px-3 py-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-white/70">
+                Page {currentPage + 1} of {pageCount}
+              </span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="glass-button px-3 py-1.5 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,163 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi'
+import { formatUnits, type Address } from 'viem'
+import { ExternalLink, Loader2, RefreshCw, ShieldOff } from 'lucide-react'
+import { getAllowances, revokeAllowance, type TokenAllowance, formatAddress, formatBalance, getExplorerUrl } from '@/sdk'
+import { useTx } from '@/context/tx'
+
+const allowanceKey = (item: TokenAllowance) => `${item.token.address.toLowerCase()}:${item.spender.address.toLowerCase()}`
+
+export default function ApprovalsPage() {
+  const { address: userAddress, isConnected } = useAccount()
+  const publicClient = usePublicClient()
+  const { data: walletClient } = useWalletClient()
+
+  const { addTx, addError } = useTx()
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [revoking, setRevoking] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!userAddress || !publicClient) return
+    const client = publicClient
+    const owner = userAddress
+    let cancelled = false
+
+    async function loadAllowances() {
+      setIsLoading(true)
+      try {
+        const result = await getAllowances(client, owner)
+        if (!cancelled) setAllowances(result)
+      } catch (err) {
+        if (!cancelled) {
+          addError({ title: 'Failed to Load Approvals', message: err instanceof Error ? err.message : 'Failed to load approvals' })
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadAllowances()
+    return () => {
+      cancelled = true
+    }
+  }, [userAddress, publicClient, refreshKey, addError])
+
+  const handleRevoke = async (item: TokenAllowance) => {
+    if (!walletClient || !publicClient) return
+    setRevoking(allowanceKey(item))
+    try {
+      const hash = await revokeAllowance(walletClient, publicClient, item.token.address as Address, item.spender.address)
+      addTx({ hash, title: `Revoke ${item.token.symbol} for ${item.spender.label}` })
+      await publicClient.waitForTransactionReceipt({ hash })
+      setRefreshKey(key => key + 1)
+    } catch (err) {
+      addError({ title: 'Revoke Failed', message: err instanceof Error ? err.message : 'Failed to revoke approval', cause: err })
+    } finally {
+      setRevoking(null)
+    }
+  }
+
+  const explorerUrl = getExplorerUrl()
+
+  if (!isConnected) {
+    return (
+      <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="glass-card p-8 text-center">
+            <h1 className="text-2xl font-semibold text-white mb-4">Approvals</h1>
+            <p className="text-white/70">Please connect your wallet to view your token approvals.</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="glass-card p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h1 className="text-2xl font-semibold text-white">Approvals</h1>
+              <p className="text-sm text-white/70 mt-1">
+                Allowances your wallet has granted to the DEX contracts
+              </p>
+            </div>
+            <button
+              onClick={() => setRefreshKey(key => key + 1)}
+              disabled={isLoading}
+              className="glass-button-primary flex items-center gap-2 px-4 py-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+              {isLoading ? 'Loading...' : 'Refresh'}
+            </button>
+          </div>
+
+          {isLoading && allowances.length === 0 ? (
+            <div className="text-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-white mx-auto mb-2" />
+              <p className="text-white/70">Reading allowances...</p>
+            </div>
+          ) : allowances.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-white/70">No active approvals.</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {allowances.map(item => {
+                const key = allowanceKey(item)
+                return (
+                  <div
+                    key={key}
+                    className="flex items-center justify-between gap-4 p-4 rounded-xl border border-white/10 bg-white/5"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center shrink-0 text-xs text-white">
+                        {item.token.symbol.slice(0, 3)}
+                      </div>
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-white">{item.token.symbol}</div>
+                        <div className="flex items-center gap-1 text-sm text-white/70 truncate">
+                          {item.spender.label}
+                          <a
+                            href={`${explorerUrl}/address/${item.spender.address}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:text-blue-300 transition-colors inline-flex items-center gap-1"
+                            title="View on explorer"
+                          >
+                            {formatAddress(item.spender.address)}
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4 shrink-0">
+                      <span className={`text-sm ${item.unlimited ? 'text-yellow-400' : 'text-white'}`}>
+                        {item.unlimited
+                          ? 'Unlimited'
+                          : `${formatBalance(formatUnits(item.allowance, item.token.decimals))} ${item.token.symbol}`}
+                      </span>
+                      <button
+                        onClick={() => handleRevoke(item)}
+                        disabled={revoking !== null || !walletClient}
+                        className="glass-button flex items-center gap-2 px-3 py-1.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {revoking === key ? <Loader2 className="w-4 h-4 animate-spin" /> : <ShieldOff className="w-4 h-4" />}
+                        Revoke
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { usePublicClient } from 'wagmi'
+import { RefreshCw } from 'lucide-react'
+import { getConfigReport, getRpcMetrics, type ConfigReport, type RpcEndpointMetrics } from '@/sdk'
+import { ConfigDiagnostics } from '@/components/ConfigDiagnostics'
+
+export default function DiagnosticsPage() {
+  const publicClient = usePublicClient()
+
+  const [report, setReport] = useState<ConfigReport | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [recheckKey, setRecheckKey] = useState(0)
+  const [metrics, setMetrics] = useState<RpcEndpointMetrics[]>([])
+
+  useEffect(() => {
+    if (!publicClient) return
+    const client = publicClient
+    let cancelled = false
+
+    async function checkConfig() {
+      setIsChecking(true)
+      try {
+        const result = await getConfigReport(client, recheckKey > 0)
+        if (!cancelled) setReport(result)
+      } catch (err) {
+        console.error('Failed to validate configuration:', err)
+      } finally {
+        if (!cancelled) {
+          setIsChecking(false)
+          setMetrics(getRpcMetrics())
+        }
+      }
+    }
+
+    checkConfig()
+    return () => {
+      cancelled = true
+    }
+  }, [publicClient, recheckKey])
+
+  return (
+    <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="glass-card p-6">
+          <h1 className="text-2xl font-semibold text-white mb-1">Diagnostics</h1>
+          <p className="text-sm text-white/70 mb-6">
+            Contract addresses and RPC endpoints for the selected network
+          </p>
+          <ConfigDiagnostics report={report} isChecking={isChecking} onRecheck={() => setRecheckKey(key => key + 1)} />
+        </div>
+
+        <div className="glass-card p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-white">RPC Endpoints</h2>
+            <button
+              onClick={() => setMetrics(getRpcMetrics())}
+              className="glass-button flex items-center gap-2 px-3 py-1.5 text-sm"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Refresh
+            </button>
+          </div>
+
+          {metrics.length === 0 ? (
+            <p className="text-white/70 text-sm">No requests sent yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/50">
+                    <th className="py-2 pr-4 font-medium">Endpoint</th>
+                    <th className="py-2 pr-4 font-medium text-right">Requests</th>
+                    <th className="py-2 pr-4 font-medium text-right">Failures</th>
+                    <th className="py-2 pr-4 font-medium text-right">Rate limited</th>
+                    <th className="py-2 font-medium text-right">Avg latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.map(endpoint => (
+                    <tr key={endpoint.url} className="border-t border-white/5 text-white align-top">
+                      <td className="py-2 pr-4">
+                        <div className="font-mono break-all">{endpoint.url}</div>
+                        {endpoint.lastError && (
+                          <div className="text-xs text-red-400 mt-1 break-all">
+                            {endpoint.lastError}
+                            {endpoint.lastFailureAt && ` (${new Date(endpoint.lastFailureAt).toLocaleTimeString()})`}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{endpoint.requests}</td>
+                      <td className="py-2 pr-4 text-right">{endpoint.failures}</td>
+                      <td className="py-2 pr-4 text-right">{endpoint.rateLimited}</td>
+                      <td className="py-2 text-right">{Math.round(endpoint.averageLatency)} ms</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,12 +4,21 @@ import React, { useState, useEffect } from 'react'
 import { useAccount, usePublicClient } from 'wagmi'
 import Link from 'next/link'
 import { use } from 'react'
-import { PoolService } from '@/services/poolService'
-import { PositionService } from '@/services/positionService'
-import { PoolDetails } from '@/types/pool'
-import { Position } from '@/types/position'
-import { formatBalance } from '@/lib/utils'
-import { formatPrice, isInRange, getPriceRangeDisplay } from '@/lib/positionAnalysis'
+import {
+  PoolService,
+  PositionService,
+  PoolDetails,
+  Position,
+  formatBalance,
+  formatUsd,
+  formatPrice,
+  isInRange,
+  getPriceRangeDisplay,
+  getLiquidityDepth,
+  type LiquidityDepth,
+} from '@/sdk'
+import { LiquidityDepthChart } from '@/components/LiquidityDepthChart'
+import { PriceChart } from '@/components/PriceChart'
 import { Loader2, ArrowLeft, Plus } from 'lucide-react'
 import { useTx } from '@/context/tx'
 
@@ -23,6 +32,7 @@ export default function PoolDetailPage({ params }: { params: Promise<{ poolId: s
   const { addError } = useTx()
   const [pool, setPool] = useState<PoolDetails | null>(null)
   const [userPositions, setUserPositions] = useState<Position[]>([])
+  const [liquidityDepth, setLiquidityDepth] = useState<LiquidityDepth | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
   useEffect(() => {
@@ -43,7 +53,14 @@ export default function PoolDetailPage({ params }: { params: Promise<{ poolId: s
         throw new Error('Pool not found')
       }
 
-      setPool(poolDetails)   
+      setPool(poolDetails)
+
+      // Stats need a day of Swap logs; fill them in once they arrive
+      poolService.withStats([poolDetails]).then(([withStats]) => setPool(withStats))
+
+      getLiquidityDepth(publicClient, poolDetails)
+        .then(setLiquidityDepth)
+        .catch(err => console.error('Error loading liquidity depth:', err))
       } catch (err) {
         console.error('Error fetching pool data:', err)
         addError({ title: 'Failed to Load Pool', message: err instanceof Error ? err.message : 'Failed to load pool details' })
@@ -162,6 +179,24 @@ export default function PoolDetailPage({ params }: { params: Promise<{ poolId: s
                     {formatBalance(pool.liquidity)}
                   </p>
                 </div>
+                <div className="glass-card rounded-lg p-4 border border-white/10">
+                  <p className="text-sm text-white/70 mb-1">TVL</p>
+                  <p className="text-2xl font-semibold text-white">{formatUsd(pool.tvl)}</p>
+                </div>
+                <div className="glass-card rounded-lg p-4 border border-white/10">
+                  <p className="text-sm text-white/70 mb-1">Volume 24h</p>
+                  <p className="text-2xl font-semibold text-white">{formatUsd(pool.volume24h)}</p>
+                </div>
+                <div className="glass-card rounded-lg p-4 border border-white/10">
+                  <p className="text-sm text-white/70 mb-1">Fees 24h</p>
+                  <p className="text-2xl font-semibold text-white">{formatUsd(pool.fees24h)}</p>
+                </div>
+                <div className="glass-card rounded-lg p-4 border border-white/10">
+                  <p className="text-sm text-white/70 mb-1">APR</p>
+                  <p className="text-2xl font-semibold text-white">
+                    {pool.apr !== undefined ? `${pool.apr.toFixed(2)}%` : '-'}
+                  </p>
+                </div>
                 <div className="glass-card rounded-lg p-4 border border-white/10">
                   <p className="text-sm text-white/70 mb-1">Current Tick</p>
                   <p className="text-xl font-mono text-white break-all">{pool.currentTick}</p>
@@ -174,6 +209,27 @@ export default function PoolDetailPage({ params }: { params: Promise<{ poolId: s
                 </div>
               </div>
 
+              {/* Price History */}
+              <div>
+                <h2 className="text-lg font-semibold text-white mb-3">Price</h2>
+                <div className="glass-card rounded-lg p-4 border border-white/10">
+                  <PriceChart pool={pool} />
+                </div>
+              </div>
+
+              {/* Liquidity Depth */}
+              {liquidityDepth && (
+                <div>
+                  <h2 className="text-lg font-semibold text-white mb-3">Liquidity Depth</h2>
+                  <div className="glass-card rounded-lg p-4 pb-8 border border-white/10">
+                    <LiquidityDepthChart depth={liquidityDepth} height={160} />
+                  </div>
+                  <p className="text-xs text-white/50 mt-2">
+                    Active liquidity by price ({pool.token1.symbol} per {pool.token0.symbol}). The orange line marks the current price.
+                  </p>
+                </div>
+              )}
+
               {/* User Positions in this Pool */}
               {isConnected && (
                 <div>
@@ -202,7 +258,9 @@ export default function PoolDetailPage({ params }: { params: Promise<{ poolId: s
                         )
                         const priceRange = getPriceRangeDisplay(
                           position.tickLower,
-                          position.tickUpper
+                          position.tickUpper,
+                          pool.token0.decimals,
+                          pool.token1.decimals
                         )
 
                         return (
@@ -3,10 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { useAccount, usePublicClient } from 'wagmi'
 import Link from 'next/link'
-import { PoolService } from '@/services/poolService'
-import { PoolDetails } from '@/types/pool'
-import { formatBalance } from '@/lib/utils'
-import { formatPrice } from '@/lib/positionAnalysis'
+import { PoolService, PoolDetails, formatBalance, formatUsd, formatPrice } from '@/sdk'
 import { Loader2, Plus, RefreshCw } from 'lucide-react'
 import { useTx } from '@/context/tx'
 
@@ -19,6 +16,7 @@ export default function PoolsPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [scanProgress, setScanProgress] = useState<number | null>(null) // % of blocks the pool discovery has scanned
 
   const fetchPools = async (isRefresh = false) => {
     if (!publicClient) return
@@ -31,15 +29,29 @@ export default function PoolsPage() {
 
     try {
       const poolService = new PoolService(publicClient)
-      const allPools = await poolService.getAllPools()
+
+      // Show the pools we already know about while the log scan catches up
+      setPools(await poolService.getKnownPools())
+      setIsLoading(false)
+
+      setScanProgress(0)
+      const allPools = await poolService.getAllPools(progress => {
+        const total = progress.latestBlock - progress.fromBlock + BigInt(1)
+        const scanned = progress.scannedBlock - progress.fromBlock + BigInt(1)
+        setScanProgress(Number((scanned * BigInt(100)) / total))
+      })
       setPools(allPools)
       setLastUpdated(new Date())
+
+      // Stats need a day of Swap logs; fill them in once they arrive
+      poolService.withStats(allPools, allPools).then(setPools)
     } catch (err) {
       console.error('Error fetching pools:', err)
       addError({ title: 'Failed to Load Pools', message: err instanceof Error ? err.message : 'Failed to load pools' })
     } finally {
       setIsLoading(false)
       setIsRefreshing(false)
+      setScanProgress(null)
     }
   }
 
@@ -81,6 +93,12 @@ export default function PoolsPage() {
                     Last updated: {lastUpdated.toLocaleTimeString()}
                   </span>
                 )}
+                {scanProgress !== null && (
+                  <span className="ml-2 inline-flex items-center gap-1 text-xs text-white/50">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    Discovering pools... {scanProgress}%
+                  </span>
+                )}
               </p>
             </div>
             <div className="flex gap-3">
@@ -215,6 +233,24 @@ export default function PoolsPage() {
                         {formatPrice(pool.currentPrice)}
                       </span>
                     </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-white/70">TVL:</span>
+                      <span className="font-medium text-white">{formatUsd(pool.tvl)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-white/70">Volume 24h:</span>
+                      <span className="font-medium text-white">{formatUsd(pool.volume24h)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-white/70">Fees 24h:</span>
+                      <span className="font-medium text-white">{formatUsd(pool.fees24h)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-white/70">APR:</span>
+                      <span className="font-medium text-white">
+                        {pool.apr !== undefined ? `${pool.apr.toFixed(2)}%` : '-'}
+                      </span>
+                    </div>
                     <div className="flex justify-between text-sm">
                       <span className="text-white/70">Liquidity:</span>
                       <span className="font-medium text-white break-words overflow-wrap-anywhere text-right">
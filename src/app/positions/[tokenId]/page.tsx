@@ -4,22 +4,26 @@ import React, { useState, useEffect, useMemo } from 'react'
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi'
 import Link from 'next/link'
 import { use } from 'react'
-import { PositionService } from '@/services/positionService'
-import { PoolService } from '@/services/poolService'
-import { PositionDetails } from '@/types/position'
-import { formatBalance } from '@/lib/utils'
-import { formatUnits } from 'viem'
-import { 
-  formatPrice, 
-  isInRange, 
-  getPriceRangeDisplay, 
-  getTokenAmounts, 
-  estimateAPR, 
+import {
+  PositionService,
+  PoolService,
+  PositionDetails,
+  formatBalance,
+  formatUsd,
+  formatPrice,
+  isInRange,
+  getPriceRangeDisplay,
+  getTokenAmounts,
+  calculatePositionAPR,
   calculateShareOfPool,
-  getPositionStatusBadge 
-} from '@/lib/positionAnalysis'
+  getPositionStatusBadge,
+  tokenList,
+  tokens,
+  type Token,
+  type SimulationOutcome,
+} from '@/sdk'
+import { formatUnits } from 'viem'
 import { Loader2, ArrowLeft, TrendingUp, RefreshCw } from 'lucide-react'
-import { tokenList, tokens, type Token } from '@/config/tokens'
 import { IncreaseLiquidityModal } from '@/components/IncreaseLiquidityModal'
 import { useTx } from '@/context/tx'
 
@@ -71,7 +75,12 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
 
       if (pool) {
         const inRange = isInRange(pool.currentTick, foundPosition.tickLower, foundPosition.tickUpper)
-        const priceRange = getPriceRangeDisplay(foundPosition.tickLower, foundPosition.tickUpper)
+        const priceRange = getPriceRangeDisplay(
+          foundPosition.tickLower,
+          foundPosition.tickUpper,
+          pool.token0.decimals,
+          pool.token1.decimals
+        )
         const amounts = getTokenAmounts(
           foundPosition.liquidity,
           pool.sqrtPriceX96,
@@ -91,7 +100,6 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
           ? formatBalance(formatUnits(amount1Wei, pool.token1.decimals), pool.token1.decimals)
           : '0'
         
-        const apr = estimateAPR(foundPosition, foundPosition.fee, '0')
         const shareOfPool = calculateShareOfPool(foundPosition.liquidity, pool.liquidity)
 
         setPosition({
@@ -99,13 +107,20 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
           inRange,
           amount0: formattedAmount0,
           amount1: formattedAmount1,
-          estimatedAPR: apr,
+          estimatedAPR: 0,
           shareOfPool,
           priceRangeLower: priceRange.min,
           priceRangeUpper: priceRange.max,
           currentPrice: pool.currentPrice,
           poolAddress: pool.address,
         })
+
+        // APR needs the pool's fee revenue and USD prices; fill it in once stats arrive
+        poolService.withStats([pool]).then(([poolWithStats]) => {
+          const aprBreakdown = calculatePositionAPR(foundPosition, poolWithStats, amounts)
+          if (!aprBreakdown) return
+          setPosition(prev => prev && { ...prev, estimatedAPR: aprBreakdown.apr, aprBreakdown })
+        })
       }
       
       setLastUpdated(new Date())
@@ -125,7 +140,7 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
   }, [tokenId, address])
 
   const handleCollectFees = async () => {
-    if (!walletClient || !address || !position) return
+    if (!walletClient || !publicClient || !address || !position) return
 
     setCollectFeesLoading(true)
 
@@ -137,7 +152,7 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
       await fetchPositionDetails()
     } catch (error) {
       console.error('Error collecting fees:', error)
-      addError({ title: 'Failed to Collect Fees', message: error instanceof Error ? error.message : 'Failed to collect fees' })
+      addError({ title: 'Failed to Collect Fees', cause: error })
     } finally {
       setCollectFeesLoading(false)
     }
@@ -153,7 +168,7 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
   }, [position])
 
   const handleRemoveLiquidity = async () => {
-    if (!walletClient || !address || !position) return
+    if (!walletClient || !publicClient || !address || !position) return
 
     setRemoveLiquidityLoading(true)
 
@@ -173,14 +188,14 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
       setUnwrapWBCX(false) // Reset checkbox
     } catch (error) {
       console.error('Error removing liquidity:', error)
-      addError({ title: 'Failed to Remove Liquidity', message: error instanceof Error ? error.message : 'Failed to remove liquidity' })
+      addError({ title: 'Failed to Remove Liquidity', cause: error })
     } finally {
       setRemoveLiquidityLoading(false)
     }
   }
 
   const handleBurnPosition = async () => {
-    if (!walletClient || !address || !position) return
+    if (!walletClient || !publicClient || !address || !position) return
 
     if (!confirm('Are you sure you want to burn this position? This will remove all liquidity and cannot be undone.')) {
       return
@@ -225,7 +240,7 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
       await fetchPositionDetails()
     } catch (error) {
       console.error('Error burning position:', error)
-      addError({ title: 'Failed to Burn Position', message: error instanceof Error ? error.message : 'Failed to burn position' })
+      addError({ title: 'Failed to Burn Position', cause: error })
     } finally {
       setBurnPositionLoading(false)
     }
@@ -242,6 +257,42 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
     return tokenList.find(t => t.address.toLowerCase() === position.token1.toLowerCase()) || null
   }, [position?.token1])
 
+  // Simulate collecting and removing everything, for exact amounts and to block calls that would revert
+  const [collectSimulation, setCollectSimulation] = useState<SimulationOutcome<[string, string]> | null>(null)
+  const [removeSimulation, setRemoveSimulation] = useState<SimulationOutcome<[string, string]> | null>(null)
+  const positionLiquidity = position?.liquidity
+
+  useEffect(() => {
+    if (positionLiquidity === undefined || !address || !publicClient) return
+    const client = publicClient
+    const owner = address
+    const liquidity = positionLiquidity
+    const decimals0 = token0?.decimals ?? 18
+    const decimals1 = token1?.decimals ?? 18
+    let cancelled = false
+
+    const format = (outcome: SimulationOutcome<readonly [bigint, bigint]>): SimulationOutcome<[string, string]> =>
+      outcome.status === 'success'
+        ? { status: 'success', result: [formatUnits(outcome.result[0], decimals0), formatUnits(outcome.result[1], decimals1)] }
+        : outcome
+
+    async function simulateActions() {
+      const positionService = new PositionService(client, walletClient)
+      const [collect, remove] = await Promise.all([
+        positionService.simulateCollect(tokenId, owner),
+        BigInt(liquidity) > BigInt(0) ? positionService.simulateDecreaseLiquidity(tokenId, liquidity, owner) : null,
+      ])
+      if (cancelled) return
+      setCollectSimulation(format(collect))
+      setRemoveSimulation(remove && format(remove))
+    }
+
+    simulateActions().catch(error => console.error('Error simulating position actions:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [positionLiquidity, address, publicClient, walletClient, tokenId, token0, token1])
+
   if (!isConnected) {
     return (
       <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8">
@@ -452,6 +503,34 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
                 </div>
               </div>
 
+              {/* APR Breakdown */}
+              {position.aprBreakdown && (
+                <div className="glass-card border border-white/10 rounded-lg p-4 space-y-2">
+                  <p className="text-sm font-medium text-white mb-1">How Est. APR is calculated</p>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-white/70">Pool fees (24h)</span>
+                    <span className="text-white">{formatUsd(position.aprBreakdown.poolFees24hUsd.toString())}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-white/70">Share of active liquidity</span>
+                    <span className="text-white">
+                      {position.aprBreakdown.inRange ? `${(position.aprBreakdown.liquidityShare * 100).toFixed(4)}%` : '0% (out of range)'}
+                    </span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-white/70">Your fees (24h)</span>
+                    <span className="text-white">{formatUsd(position.aprBreakdown.positionFees24hUsd.toString())}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-white/70">Position value</span>
+                    <span className="text-white">{formatUsd(position.aprBreakdown.positionValueUsd.toString())}</span>
+                  </div>
+                  <p className="text-xs text-white/50 pt-1">
+                    APR = your 24h fees × 365 ÷ position value. Assumes the last day&apos;s volume and your current share continue.
+                  </p>
+                </div>
+              )}
+
               {/* Token Amounts */}
               <div>
                 <h2 className="text-lg font-semibold text-white mb-3">Token Amounts</h2>
@@ -479,24 +558,42 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
                     <div>
                       <p className="text-sm text-green-300 mb-1">Token 0 Fees</p>
                       <p className="text-xl font-semibold text-green-300 break-words overflow-wrap-anywhere">
-                        {formatBalance(position.tokensOwed0)}
+                        {formatBalance(position.uncollectedFees0)}
                       </p>
                     </div>
                     <div>
                       <p className="text-sm text-green-300 mb-1">Token 1 Fees</p>
                       <p className="text-xl font-semibold text-green-300 break-words overflow-wrap-anywhere">
-                        {formatBalance(position.tokensOwed1)}
+                        {formatBalance(position.uncollectedFees1)}
                       </p>
                     </div>
                   </div>
+                  {collectSimulation?.status === 'success' && (
+                    <p className="text-xs text-green-300/80 mt-3">
+                      Collecting now returns {formatBalance(collectSimulation.result[0])} {token0?.symbol ?? 'Token 0'} + {formatBalance(collectSimulation.result[1])} {token1?.symbol ?? 'Token 1'} (simulated)
+                    </p>
+                  )}
                 </div>
               </div>
 
+              {/* Simulated Removal */}
+              {removeSimulation?.status === 'success' && (
+                <p className="text-sm text-white/70">
+                  Removing all liquidity returns {formatBalance(removeSimulation.result[0])} {token0?.symbol ?? 'Token 0'} + {formatBalance(removeSimulation.result[1])} {token1?.symbol ?? 'Token 1'} plus uncollected fees (simulated)
+                </p>
+              )}
+              {(collectSimulation?.status === 'reverted' || removeSimulation?.status === 'reverted') && (
+                <div className="glass-card border border-red-500/30 rounded-lg p-3 space-y-1 text-sm text-red-300">
+                  {collectSimulation?.status === 'reverted' && <p>Collect would fail: {collectSimulation.message}</p>}
+                  {removeSimulation?.status === 'reverted' && <p>Remove would fail: {removeSimulation.message}</p>}
+                </div>
+              )}
+
               {/* Actions */}
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 pt-4">
                 <button
                   onClick={handleCollectFees}
-                  disabled={collectFeesLoading || removeLiquidityLoading || burnPositionLoading || (parseFloat(position.tokensOwed0) === 0 && parseFloat(position.tokensOwed1) === 0)}
+                  disabled={collectFeesLoading || removeLiquidityLoading || burnPositionLoading || collectSimulation?.status === 'reverted' || (parseFloat(position.uncollectedFees0) === 0 && parseFloat(position.uncollectedFees1) === 0)}
                   className="glass-button-primary w-full px-4 py-3 font-medium rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {collectFeesLoading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : 'Collect Fees'}
@@ -525,7 +622,7 @@ export default function PositionDetailPage({ params }: { params: Promise<{ token
                 )}
                 <button
                   onClick={handleRemoveLiquidity}
-                  disabled={collectFeesLoading || removeLiquidityLoading || burnPositionLoading}
+                  disabled={collectFeesLoading || removeLiquidityLoading || burnPositionLoading || removeSimulation?.status === 'reverted'}
                   className="glass-button-primary w-full px-4 py-3 font-medium rounded-xl disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {removeLiquidityLoading ? <Loader2 className="w-5 h-5 animate-spin mx-auto" /> : 'Remove Liquidity'}
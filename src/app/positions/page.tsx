@@ -3,17 +3,26 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi'
 import Link from 'next/link'
-import { PositionService } from '@/services/positionService'
-import { PoolService } from '@/services/poolService'
-import { Position, PositionDetails } from '@/types/position'
-import { PoolDetails } from '@/types/pool'
+import {
+  PositionService,
+  PoolService,
+  Position,
+  PositionDetails,
+  PoolDetails,
+  isInRange,
+  getPriceRangeDisplay,
+  getTokenAmounts,
+  calculatePositionAPR,
+  calculateShareOfPool,
+  formatPrice,
+  formatBalance,
+  tokenList,
+  calculateLiquidityAmounts,
+} from '@/sdk'
 import { PositionInfoCard } from '@/components/PositionInfoCard'
 import { IncreaseLiquidityModal } from '@/components/IncreaseLiquidityModal'
-import { isInRange, getPriceRangeDisplay, getTokenAmounts, estimateAPR, calculateShareOfPool, formatPrice } from '@/lib/positionAnalysis'
-import { formatBalance } from '@/lib/utils'
 import { formatUnits } from 'viem'
 import { Loader2, Plus } from 'lucide-react'
-import { tokenList } from '@/config/tokens'
 import { useTx } from '@/context/tx'
 
 export default function PositionsPage() {
@@ -42,10 +51,13 @@ export default function PositionsPage() {
   } | null>(null)
   const [activeTab, setActiveTab] = useState<'active' | 'closed'>('active')
 
-  const positionService = new PositionService(publicClient, walletClient)
+  const positionService = useMemo(
+    () => (publicClient ? new PositionService(publicClient, walletClient) : null),
+    [publicClient, walletClient]
+  )
 
   const fetchPositions = useCallback(async () => {
-    if (!userAddress || !publicClient) return
+    if (!userAddress || !publicClient || !positionService) return
 
     setIsLoading(true)
     
@@ -89,7 +101,12 @@ export default function PositionsPage() {
           const pool = poolResult.value
           try {
             const inRange = isInRange(pool.currentTick, position.tickLower, position.tickUpper)
-            const priceRange = getPriceRangeDisplay(position.tickLower, position.tickUpper)
+            const priceRange = getPriceRangeDisplay(
+              position.tickLower,
+              position.tickUpper,
+              pool.token0.decimals,
+              pool.token1.decimals
+            )
             const amounts = getTokenAmounts(
               position.liquidity,
               pool.sqrtPriceX96,
@@ -109,7 +126,6 @@ export default function PositionsPage() {
               ? formatBalance(formatUnits(amount1Wei, pool.token1.decimals), pool.token1.decimals)
               : '0'
             
-            const apr = estimateAPR(position, position.fee, '0') // No volume data available
             const shareOfPool = calculateShareOfPool(position.liquidity, pool.liquidity)
 
             return {
@@ -117,7 +133,7 @@ export default function PositionsPage() {
               inRange,
               amount0: formattedAmount0,
               amount1: formattedAmount1,
-              estimatedAPR: apr,
+              estimatedAPR: 0,
               shareOfPool,
               priceRangeLower: priceRange.min,
               priceRangeUpper: priceRange.max,
@@ -144,13 +160,29 @@ export default function PositionsPage() {
       })
 
       setEnhancedPositions(enhanced)
+
+      // APR needs each pool's fee revenue and USD prices; fill it in once stats arrive
+      const uniquePools = Array.from(new Map(
+        pools.flatMap(result => result.status === 'fulfilled' && result.value ? [[result.value.address, result.value] as const] : [])
+      ).values())
+      poolService.withStats(uniquePools).then(poolsWithStats => {
+        setEnhancedPositions(enhanced.map((details, index) => {
+          const poolResult = pools[index]
+          if (poolResult.status !== 'fulfilled' || !poolResult.value) return details
+          const pool = poolsWithStats.find(p => p.address === poolResult.value?.address)
+          if (!pool) return details
+          const amounts = getTokenAmounts(details.liquidity, pool.sqrtPriceX96, details.tickLower, details.tickUpper)
+          const aprBreakdown = calculatePositionAPR(details, pool, amounts)
+          return aprBreakdown ? { ...details, estimatedAPR: aprBreakdown.apr, aprBreakdown } : details
+        }))
+      })
     } catch (error) {
       console.error('Error fetching positions:', error)
       addError({ title: 'Failed to Fetch Positions', message: error instanceof Error ? error.message : 'Failed to fetch positions' })
     } finally {
       setIsLoading(false)
     }
-  }, [userAddress, publicClient])
+  }, [userAddress, publicClient, positionService, addError])
 
   useEffect(() => {
     fetchPositions()
@@ -176,7 +208,7 @@ export default function PositionsPage() {
 
   // Calculate adjusted amounts when user changes input
   const calculateAdjustedAmounts = useCallback(async () => {
-    if (!selectedPosition || !increaseAmount0 || !increaseAmount1 || !publicClient) {
+    if (!selectedPosition || !increaseAmount0 || !increaseAmount1 || !positionService) {
       setAdjustedAmount0('0')
       setAdjustedAmount1('0')
       setAmountAdjustment(null)
@@ -209,9 +241,6 @@ export default function PositionsPage() {
         return
       }
 
-      // Import the position analysis functions
-      const { calculateLiquidityAmounts } = await import('@/lib/positionAnalysis')
-      
       // Calculate optimal amounts based on the position's tick range
       const { amount0, amount1 } = calculateLiquidityAmounts(
         increaseAmount0,
@@ -256,7 +285,7 @@ export default function PositionsPage() {
       setAdjustedAmount1(increaseAmount1)
       setAmountAdjustment(null)
     }
-  }, [selectedPosition, increaseAmount0, increaseAmount1, publicClient, positionService])
+  }, [selectedPosition, increaseAmount0, increaseAmount1, positionService])
 
   // Calculate adjusted amounts when inputs change
   useEffect(() => {
@@ -268,7 +297,7 @@ export default function PositionsPage() {
   }, [calculateAdjustedAmounts])
 
   const handleIncreaseLiquidity = async () => {
-    if (!walletClient || !userAddress || !selectedPosition || !increaseAmount0 || !increaseAmount1) return
+    if (!walletClient || !positionService || !userAddress || !selectedPosition || !increaseAmount0 || !increaseAmount1) return
 
     // Basic validation - let users enter any amounts they want
     const amount0 = parseFloat(increaseAmount0)
@@ -340,28 +369,14 @@ export default function PositionsPage() {
     } catch (error) {
       console.error('Error increasing liquidity:', error)
       
-      // Provide more specific error messages
-      let errorMessage = 'Failed to increase liquidity'
-      if (error instanceof Error) {
-        if (error.message.includes('insufficient')) {
-          errorMessage = 'Insufficient token balance. Please check your token amounts.'
-        } else if (error.message.includes('slippage')) {
-          errorMessage = 'Slippage tolerance exceeded. Try increasing the amounts or check if the position is still in range.'
-        } else if (error.message.includes('tick')) {
-          errorMessage = 'Position is out of range. The current price is outside your position\'s tick range.'
-        } else {
-          errorMessage = error.message
-        }
-      }
-      
-      addError({ title: 'Failed to Increase Liquidity', message: errorMessage })
+      addError({ title: 'Failed to Increase Liquidity', cause: error })
     } finally {
       setIsLoading(false)
     }
   }
 
   const handleRemoveLiquidity = async (tokenId: string, liquidity: string) => {
-    if (!walletClient || !userAddress) return
+    if (!walletClient || !positionService || !userAddress) return
 
     setLoadingPositions(prev => ({ ...prev, [tokenId]: { type: 'remove' } }))
 
@@ -379,7 +394,7 @@ export default function PositionsPage() {
       fetchPositions()
     } catch (error) {
       console.error('Error removing liquidity:', error)
-      addError({ title: 'Failed to Remove Liquidity', message: error instanceof Error ? error.message : 'Failed to remove liquidity' })
+      addError({ title: 'Failed to Remove Liquidity', cause: error })
     } finally {
       setLoadingPositions(prev => {
         const next = { ...prev }
@@ -390,7 +405,7 @@ export default function PositionsPage() {
   }
 
   const handleBurnPosition = async (tokenId: string, liquidity: string) => {
-    if (!walletClient || !userAddress) return
+    if (!walletClient || !positionService || !userAddress) return
 
     if (!confirm('Are you sure you want to burn this position? This will remove all liquidity and cannot be undone.')) {
       return
@@ -407,7 +422,7 @@ export default function PositionsPage() {
       fetchPositions()
     } catch (error) {
       console.error('Error burning position:', error)
-      addError({ title: 'Failed to Burn Position', message: error instanceof Error ? error.message : 'Failed to burn position' })
+      addError({ title: 'Failed to Burn Position', cause: error })
     } finally {
       setLoadingPositions(prev => {
         const next = { ...prev }
@@ -418,7 +433,7 @@ export default function PositionsPage() {
   }
 
   const handleCollectFees = async (tokenId: string) => {
-    if (!walletClient || !userAddress) return
+    if (!walletClient || !positionService || !userAddress) return
 
     setLoadingPositions(prev => ({ ...prev, [tokenId]: { type: 'collect' } }))
 
@@ -429,7 +444,7 @@ export default function PositionsPage() {
       await fetchPositions()
     } catch (error) {
       console.error('Error collecting fees:', error)
-      addError({ title: 'Failed to Collect Fees', message: error instanceof Error ? error.message : 'Failed to collect fees' })
+      addError({ title: 'Failed to Collect Fees', cause: error })
     } finally {
       setLoadingPositions(prev => {
         const next = { ...prev }
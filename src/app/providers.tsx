@@ -1,35 +1,55 @@
 'use client'
 
 import '@rainbow-me/rainbowkit/styles.css'
+import { Fragment } from 'react'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
-import { WagmiProvider } from 'wagmi'
+import { WagmiProvider, useChainId } from 'wagmi'
+import { getChainId, watchChainId } from 'wagmi/actions'
 import { RainbowKitProvider, getDefaultConfig, darkTheme } from '@rainbow-me/rainbowkit'
-import { blockx } from '../config/chains'
+import { createRpcTransport, setActiveNetwork, supportedChains } from '@/sdk'
 import { TxProvider } from "../context/tx";
 import TxToast from "../components/TxToast";
+import { ConfigGate } from '@/components/ConfigGate'
 
 const config = getDefaultConfig({
   appName: 'BlockX DEX',
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || 'demo-project-id',
-  chains: [blockx],
+  chains: supportedChains,
+  transports: Object.fromEntries(
+    supportedChains.map(chain => [chain.id, createRpcTransport(chain.rpcUrls.default.http)])
+  ),
   ssr: false,
 })
 
+// Services read the active network's addresses and tokens, so switch them before React re-renders
+setActiveNetwork(getChainId(config))
+watchChainId(config, { onChange: chainId => setActiveNetwork(chainId) })
+
 const queryClient = new QueryClient()
 
+/**
+ * Remount everything below on a network switch, so selected tokens and
+ * loaded data start over on the new chain
+ */
+function NetworkScope({ children }: { children: React.ReactNode }) {
+  const chainId = useChainId()
+  return <Fragment key={chainId}>{children}</Fragment>
+}
+
 export function Providers({ children }: { children: React.ReactNode }) {
   return (
-    <TxProvider>
-
-
-      <WagmiProvider config={config}>
-        <QueryClientProvider client={queryClient}>
+    <WagmiProvider config={config}>
+      <QueryClientProvider client={queryClient}>
+        {/* Inside wagmi so the tx context can watch receipts */}
+        <TxProvider>
           <RainbowKitProvider theme={darkTheme()}>
-            {children}
+            <NetworkScope>
+              <ConfigGate>{children}</ConfigGate>
+            </NetworkScope>
           </RainbowKitProvider>
-        </QueryClientProvider>
-      </WagmiProvider>
-      <TxToast />
-  </TxProvider>
+          <TxToast />
+        </TxProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
   )
 }
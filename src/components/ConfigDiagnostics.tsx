@@ -0,0 +1,90 @@
+'use client'
+
+import React from 'react'
+import { AlertTriangle, CheckCircle2, Loader2, RefreshCw, XCircle } from 'lucide-react'
+import { CONTRACT_LABELS, type ConfigReport, type ContractAddresses } from '@/sdk'
+
+interface ConfigDiagnosticsProps {
+  report: ConfigReport | null
+  isChecking: boolean
+  onRecheck: () => void
+}
+
+/**
+ * Outcome of the configuration checks for one network, with the addresses that were checked
+ */
+export function ConfigDiagnostics({ report, isChecking, onRecheck }: ConfigDiagnosticsProps) {
+  if (!report) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="w-8 h-8 animate-spin text-white mx-auto mb-2" />
+        <p className="text-white/70">Checking configuration...</p>
+      </div>
+    )
+  }
+
+  const keys = Object.keys(report.contracts) as (keyof ContractAddresses)[]
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          {report.ok ? (
+            <CheckCircle2 className="w-5 h-5 text-green-400" />
+          ) : (
+            <XCircle className="w-5 h-5 text-red-400" />
+          )}
+          <span className="text-white font-medium">
+            {report.ok ? `${report.networkName} is configured correctly` : `${report.networkName} is misconfigured`}
+          </span>
+        </div>
+        <button
+          onClick={onRecheck}
+          disabled={isChecking}
+          className="glass-button flex items-center gap-2 px-3 py-1.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
+          Check again
+        </button>
+      </div>
+
+      {report.issues.length > 0 && (
+        <ul className="space-y-2">
+          {report.issues.map((issue, i) => (
+            <li
+              key={i}
+              className={`flex items-start gap-2 p-3 rounded-xl border text-sm ${
+                issue.severity === 'error'
+                  ? 'border-red-500/30 bg-red-500/10 text-red-300'
+                  : 'border-yellow-500/30 bg-yellow-500/10 text-yellow-300'
+              }`}
+            >
+              {issue.severity === 'error' ? (
+                <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              )}
+              <span className="break-all">{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-1">
+        {keys.map(key => {
+          const failed = report.issues.some(issue => issue.key === key && issue.severity === 'error')
+          return (
+            <div key={key} className="flex items-center justify-between gap-4 py-1.5 text-sm border-b border-white/5">
+              <span className="text-white/70">{CONTRACT_LABELS[key]}</span>
+              <span className={`font-mono break-all text-right ${failed ? 'text-red-400' : 'text-white'}`}>
+                {report.contracts[key] || 'Not configured'}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+
+      <p className="text-xs text-white/50">Checked {new Date(report.checkedAt).toLocaleTimeString()}</p>
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { usePublicClient } from 'wagmi'
+import { getConfigReport, type ConfigReport } from '@/sdk'
+import { ConfigDiagnostics } from './ConfigDiagnostics'
+import { NetworkSelector } from './NetworkSelector'
+
+/**
+ * Check the active network's configuration once and replace the app with
+ * the diagnostics when it is broken. The app renders while the check runs.
+ */
+export function ConfigGate({ children }: { children: React.ReactNode }) {
+  const publicClient = usePublicClient()
+  const [report, setReport] = useState<ConfigReport | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  const [recheckKey, setRecheckKey] = useState(0)
+
+  useEffect(() => {
+    if (!publicClient) return
+    const client = publicClient
+    let cancelled = false
+
+    async function checkConfig() {
+      setIsChecking(true)
+      try {
+        const result = await getConfigReport(client, recheckKey > 0)
+        if (!cancelled) setReport(result)
+      } catch (err) {
+        console.error('Failed to validate configuration:', err)
+      } finally {
+        if (!cancelled) setIsChecking(false)
+      }
+    }
+
+    checkConfig()
+    return () => {
+      cancelled = true
+    }
+  }, [publicClient, recheckKey])
+
+  if (!report || report.ok) return <>{children}</>
+
+  return (
+    <div className="min-h-screen py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl mx-auto glass-card p-6">
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-semibold text-white">Configuration Problem</h1>
+            <p className="text-sm text-white/70 mt-1">
+              The app is disabled because the contracts configured for this network don&apos;t match the
+              chain. Fix the addresses in the environment and redeploy, or switch to another network.
+            </p>
+          </div>
+          <NetworkSelector />
+        </div>
+        <ConfigDiagnostics report={report} isChecking={isChecking} onRecheck={() => setRecheckKey(key => key + 1)} />
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import React from 'react'
-import { FEE_TIERS } from '@/types/pool'
+import { FEE_TIER_OPTIONS } from '@/sdk'
 
 interface FeeTierSelectorProps {
   selectedFee: number
@@ -16,7 +16,7 @@ export function FeeTierSelector({ selectedFee, onFeeSelect, disabled }: FeeTierS
         Fee Tier
       </label>
       <div className="grid grid-cols-2 gap-3">
-        {FEE_TIERS.map((tier) => {
+        {FEE_TIER_OPTIONS.map((tier) => {
           const isSelected = selectedFee === tier.fee
           return (
             <button
@@ -32,6 +32,7 @@ export default function Footer() {
             <div className="text-slate-100 font-semibold text-sm mb-2">Resources</div>
             <nav className="flex flex-col text-slate-300 text-sm space-y-1">
               <a className="hover:text-white transition-colors" href="/positions">Positions</a>
+              <Link className="hover:text-white transition-colors" href="/diagnostics">Diagnostics</Link>
               <a className="hover:text-white transition-colors" href="/">Settings</a>
               <a className="hover:text-white transition-colors" href="/" target="_blank" rel="noopener noreferrer">Docs</a>
             </nav>
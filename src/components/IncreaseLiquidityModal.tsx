@@ -1,11 +1,8 @@
 'use client'
 
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi'
-import { PositionDetails } from '@/types/position'
-import { PositionService } from '@/services/positionService'
-import { formatBalance } from '@/lib/utils'
-import { formatPrice } from '@/lib/positionAnalysis'
+import { PositionDetails, PositionService, calculateLiquidityAmounts, formatBalance, formatPrice } from '@/sdk'
 import { X } from 'lucide-react'
 import { useTx } from '@/context/tx'
 
@@ -41,10 +38,13 @@ export function IncreaseLiquidityModal({
   const [isLoading, setIsLoading] = useState(false)
   const { addError, addTx } = useTx()
 
-  const positionService = new PositionService(publicClient, walletClient)
+  const positionService = useMemo(
+    () => (publicClient ? new PositionService(publicClient, walletClient) : null),
+    [publicClient, walletClient]
+  )
 
   const calculateAdjustedAmounts = useCallback(async () => {
-    if (!position || !increaseAmount0 || !increaseAmount1 || !publicClient) {
+    if (!position || !increaseAmount0 || !increaseAmount1 || !positionService) {
       setAdjustedAmount0('0')
       setAdjustedAmount1('0')
       setAmountAdjustment(null)
@@ -76,8 +76,6 @@ export function IncreaseLiquidityModal({
         return
       }
 
-      const { calculateLiquidityAmounts } = await import('@/lib/positionAnalysis')
-      
       const { amount0, amount1 } = calculateLiquidityAmounts(
         increaseAmount0,
         increaseAmount1,
@@ -120,7 +118,7 @@ export function IncreaseLiquidityModal({
       setAdjustedAmount1(increaseAmount1)
       setAmountAdjustment(null)
     }
-  }, [position, increaseAmount0, increaseAmount1, publicClient, positionService])
+  }, [position, increaseAmount0, increaseAmount1, positionService])
 
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -131,7 +129,7 @@ export function IncreaseLiquidityModal({
   }, [calculateAdjustedAmounts])
 
   const handleIncreaseLiquidity = async () => {
-    if (!walletClient || !address || !increaseAmount0 || !increaseAmount1) return
+    if (!walletClient || !positionService || !address || !increaseAmount0 || !increaseAmount1) return
 
     const amount0 = parseFloat(increaseAmount0)
     const amount1 = parseFloat(increaseAmount1)
@@ -188,20 +186,7 @@ export function IncreaseLiquidityModal({
     } catch (error) {
       console.error('Error increasing liquidity:', error)
       
-      let errorMessage = 'Failed to increase liquidity'
-      if (error instanceof Error) {
-        if (error.message.includes('insufficient')) {
-          errorMessage = 'Insufficient token balance. Please check your token amounts.'
-        } else if (error.message.includes('slippage')) {
-          errorMessage = 'Slippage tolerance exceeded. Try increasing the amounts or check if the position is still in range.'
-        } else if (error.message.includes('tick')) {
-          errorMessage = 'Position is out of range. The current price is outside your position\'s tick range.'
-        } else {
-          errorMessage = error.message
-        }
-      }
-      
-      addError({ title: 'Failed to Increase Liquidity', message: errorMessage })
+      addError({ title: 'Failed to Increase Liquidity', cause: error })
     } finally {
       setIsLoading(false)
     }
@@ -7,26 +7,55 @@ import { TokenSelector } from './TokenSelector'
 import { SettingsModal } from './SettingsModal'
 import { FeeTierSelector } from './FeeTierSelector'
 import { PriceRangeSelector } from './PriceRangeSelector'
-import { LiquidityPreview } from './LiquidityPreview'
-import { tokens, type Token } from '@/config/tokens'
-import { getTokenBalance } from '@/lib/liquidity'
-import { formatBalance } from '@/lib/utils'
+import { LiquidityPreview, type SimulatedDeposit } from './LiquidityPreview'
+import {
+  tokens,
+  type Token,
+  buildMintCall,
+  decodeMintResult,
+  getTokenBalance,
+  simulateMint,
+  supportsPermit,
+  permitOrApprove,
+  withSelfPermits,
+  type SelfPermit,
+  simulateAndWrite,
+  simulateWrite,
+  type SimulationOutcome,
+  SimulationError,
+  formatBalance,
+  CONTRACT_ADDRESSES,
+  ERC20_ABI,
+  WETH_ABI,
+  FALLBACK_GAS,
+  estimateWriteGas,
+  gasStep,
+  priceGasSteps,
+  type GasBreakdown,
+  type GasStep,
+  FEE_TIERS,
+  PoolService,
+  priceToTick,
+  tickToPrice,
+  calculateOptimalAmount,
+  formatPrice,
+  getLiquidityDepth,
+  type LiquidityDepth,
+} from '@/sdk'
 import { parseUnits, formatUnits, type Address } from 'viem'
-import { CONTRACT_ADDRESSES, NONFUNGIBLE_POSITION_MANAGER_ABI, ERC20_ABI } from '@/lib/contracts'
-import { PoolService } from '@/services/poolService'
-import { priceToTick, tickToPrice } from '@/lib/tickMath'
-import { calculateOptimalAmount, formatPrice } from '@/lib/positionAnalysis'
 import { useTx } from '../context/tx'
+import { useNetworkGuard } from '@/hooks/useNetworkGuard'
 
 export function LiquidityCard() {
   const { address, isConnected } = useAccount()
   const publicClient = usePublicClient()
   const { data: walletClient } = useWalletClient()
   const { addTx, addError } = useTx()
+  const { isWrongNetwork, networkName, isSwitching, switchNetwork } = useNetworkGuard()
 
   // State
   const [tokenA, setTokenA] = useState<Token | null>(tokens.WBCX)
-  const [tokenB, setTokenB] = useState<Token | null>(tokens.FRESH)
+  const [tokenB, setTokenB] = useState<Token | null>(tokens.FRESH ?? null)
   const [amountA, setAmountA] = useState('')
   const [amountB, setAmountB] = useState('')
   const [feeTier, setFeeTier] = useState(500) // Default 0.05%
@@ -49,6 +78,19 @@ export function LiquidityCard() {
   const [loadingPoolInfo, setLoadingPoolInfo] = useState(false)
   const [poolDataLoaded, setPoolDataLoaded] = useState(false) // FIX: Track if pool data is loaded
   const [initialPriceInput, setInitialPriceInput] = useState('1')
+  const [liquidityDepth, setLiquidityDepth] = useState<LiquidityDepth | null>(null)
+  const [mintSimulation, setMintSimulation] = useState<SimulationOutcome<SimulatedDeposit> | null>(null)
+  const [depositGas, setDepositGas] = useState<GasBreakdown | null>(null) // Wraps, pool creation, approvals and the mint
+
+  // Prices and ticks follow the pool's order: token1 per token0 in human units, BCX pooled as WBCX
+  const selectedPoolTokenA = tokenA?.symbol === 'BCX' ? tokens.WBCX : tokenA
+  const selectedPoolTokenB = tokenB?.symbol === 'BCX' ? tokens.WBCX : tokenB
+  const tokenAIsToken0 = !selectedPoolTokenA || !selectedPoolTokenB
+    || selectedPoolTokenA.address.toLowerCase() < selectedPoolTokenB.address.toLowerCase()
+  const decimals0 = (tokenAIsToken0 ? selectedPoolTokenA : selectedPoolTokenB)?.decimals ?? 18
+  const decimals1 = (tokenAIsToken0 ? selectedPoolTokenB : selectedPoolTokenA)?.decimals ?? 18
+  // The initial price is entered as tokenA in tokenB
+  const initialPoolPrice = useCallback((priceAB: number) => tokenAIsToken0 ? priceAB : 1 / priceAB, [tokenAIsToken0])
 
   // URL parameters for pre-selecting tokens
   const [urlParams, setUrlParams] = useState<{
@@ -132,28 +174,33 @@ export function LiquidityCard() {
       if (pool) {
         setPoolExists(true)
         setCurrentPrice(pool.currentPrice)
+        // Depth chart is decoration; don't hold up the form for it
+        getLiquidityDepth(publicClient, pool)
+          .then(setLiquidityDepth)
+          .catch(() => setLiquidityDepth(null))
       } else {
         setPoolExists(false)
-        setCurrentPrice(parseFloat(initialPriceInput) || 1) // Default from input for new pools
+        setCurrentPrice(initialPoolPrice(parseFloat(initialPriceInput) || 1)) // Default from input for new pools
+        setLiquidityDepth(null)
       }
       setPoolDataLoaded(true) // FIX: Mark as loaded
     } catch (error) {
       console.error('Error fetching pool info:', error)
       setPoolExists(false)
-      setCurrentPrice(parseFloat(initialPriceInput) || 1)
+      setCurrentPrice(initialPoolPrice(parseFloat(initialPriceInput) || 1))
       setPoolDataLoaded(true) // FIX: Mark as loaded even on error
     } finally {
       setLoadingPoolInfo(false)
     }
-  }, [tokenA, tokenB, feeTier, publicClient, initialPriceInput])
+  }, [tokenA, tokenB, feeTier, publicClient, initialPriceInput, initialPoolPrice])
 
   // When creating a new pool, reflect manual initial price in the range selector preview
   useEffect(() => {
     if (!poolExists) {
       const v = parseFloat(initialPriceInput)
-      if (!isNaN(v) && v > 0) setCurrentPrice(v)
+      if (!isNaN(v) && v > 0) setCurrentPrice(initialPoolPrice(v))
     }
-  }, [initialPriceInput, poolExists])
+  }, [initialPriceInput, poolExists, initialPoolPrice])
 
   // Fetch balances and pool info when tokens change
   useEffect(() => {
@@ -173,7 +220,7 @@ export function LiquidityCard() {
     }
 
     try {
-      const currentTick = priceToTick(currentPrice)
+      const currentTick = priceToTick(currentPrice, decimals0, decimals1)
       
       // Calculate sqrt prices for logging
       const sqrtPriceCurrent = Math.sqrt(Math.pow(1.0001, currentTick))
@@ -190,8 +237,8 @@ export function LiquidityCard() {
       console.log('📊 Amount calculation breakdown:', {
         input: { amount0: `${amountA} ${tokenA?.symbol}`, currentPrice },
         priceRange: {
-          minPrice: tickToPrice(minTick),
-          maxPrice: tickToPrice(maxTick),
+          minPrice: tickToPrice(minTick, decimals0, decimals1),
+          maxPrice: tickToPrice(maxTick, decimals0, decimals1),
           currentPrice,
           minTick,
           maxTick,
@@ -218,7 +265,141 @@ export function LiquidityCard() {
     } catch (error) {
       console.error('Error calculating amount B:', error)
     }
-  }, [amountA, currentPrice, minTick, maxTick, tokenA?.symbol, tokenB?.symbol])
+  }, [amountA, currentPrice, minTick, maxTick, tokenA?.symbol, tokenB?.symbol, decimals0, decimals1])
+
+  // Simulate the mint with the current inputs so the preview shows what the pool will take,
+  // and estimate the gas of every transaction handleAddLiquidity will send
+  useEffect(() => {
+    if (!address || !publicClient || !tokenA || !tokenB) return
+    const client = publicClient
+    const owner = address
+    const selectedA = tokenA
+    const selectedB = tokenB
+    let cancelled = false
+
+    async function previewDeposit() {
+      const amountAWei = parseFloat(amountA) > 0 ? parseUnits(amountA, selectedA.decimals) : BigInt(0)
+      const amountBWei = parseFloat(amountB) > 0 ? parseUnits(amountB, selectedB.decimals) : BigInt(0)
+      if (minTick >= maxTick || (amountAWei === BigInt(0) && amountBWei === BigInt(0))) {
+        setMintSimulation(null)
+        setDepositGas(null)
+        return
+      }
+
+      // The deposit wraps BCX first and then approves WBCX like any other token.
+      // The simulation instead sends BCX as value for the position manager to wrap.
+      // Tokens with permit are approved by a selfPermit call inside the mint.
+      const wrapSteps: GasStep[] = []
+      const approveSteps: GasStep[] = []
+      let value = BigInt(0)
+      let permitGas = BigInt(0)
+      let unapproved: string | null = null
+      for (const [token, amount] of [[selectedA, amountAWei], [selectedB, amountBWei]] as const) {
+        if (amount === BigInt(0)) continue
+        const poolToken = token.symbol === 'BCX' ? tokens.WBCX : token
+        if (token.symbol === 'BCX') {
+          value += amount
+          const wrapGas = await estimateWriteGas(client, owner, {
+            address: tokens.WBCX.address as Address,
+            abi: WETH_ABI,
+            functionName: 'deposit',
+            value: amount,
+          })
+          wrapSteps.push(gasStep('Wrap BCX', wrapGas, FALLBACK_GAS.wrap))
+        }
+        const allowance = await client.readContract({
+          address: poolToken.address as Address,
+          abi: ERC20_ABI,
+          functionName: 'allowance',
+          args: [owner, CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address],
+        })
+        if (allowance < amount && await supportsPermit(client, poolToken.address as Address)) {
+          permitGas += FALLBACK_GAS.selfPermit
+          if (token.symbol !== 'BCX') unapproved = unapproved ?? token.symbol
+        } else if (allowance < amount) {
+          const approveGas = await estimateWriteGas(client, owner, {
+            address: poolToken.address as Address,
+            abi: ERC20_ABI,
+            functionName: 'approve',
+            args: [CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address, amount],
+          })
+          approveSteps.push(gasStep(`Approve ${poolToken.symbol}`, approveGas, FALLBACK_GAS.approve))
+          if (token.symbol !== 'BCX') unapproved = unapproved ?? token.symbol
+        }
+      }
+
+      // A new pool is created in the same flow, so there's nothing to simulate against yet
+      const poolSteps: GasStep[] = poolExists ? [] : [
+        gasStep('Create pool', null, FALLBACK_GAS.createPool),
+        gasStep('Initialize pool', null, FALLBACK_GAS.initializePool),
+      ]
+
+      const poolTokenA = selectedA.symbol === 'BCX' ? tokens.WBCX : selectedA
+      const poolTokenB = selectedB.symbol === 'BCX' ? tokens.WBCX : selectedB
+      const aIsToken0 = poolTokenA.address.toLowerCase() < poolTokenB.address.toLowerCase()
+      const mintCall = buildMintCall({
+        token0: (aIsToken0 ? poolTokenA.address : poolTokenB.address) as Address,
+        token1: (aIsToken0 ? poolTokenB.address : poolTokenA.address) as Address,
+        fee: feeTier,
+        tickLower: minTick,
+        tickUpper: maxTick,
+        amount0Desired: aIsToken0 ? amountAWei : amountBWei,
+        amount1Desired: aIsToken0 ? amountBWei : amountAWei,
+        recipient: owner,
+        deadline: BigInt(Math.floor(Date.now() / 1000) + deadline * 60),
+      }, value)
+
+      let simulation: SimulationOutcome<SimulatedDeposit> | null = null
+      let mintGas: bigint | null = null
+      if (poolExists && unapproved) {
+        simulation = { status: 'unavailable', message: `The deposit is simulated once ${unapproved} is approved` }
+      } else if (poolExists) {
+        const outcome = await simulateMint(client, owner, mintCall)
+        if (outcome.status !== 'success') {
+          simulation = outcome
+        } else {
+          const { liquidity, amount0, amount1 } = outcome.result
+          simulation = {
+            status: 'success',
+            result: {
+              liquidity: liquidity.toString(),
+              amount0: formatUnits(aIsToken0 ? amount0 : amount1, selectedA.decimals),
+              amount1: formatUnits(aIsToken0 ? amount1 : amount0, selectedB.decimals),
+            },
+          }
+          mintGas = await estimateWriteGas(client, owner, mintCall)
+        }
+      }
+
+      const gas = await priceGasSteps(client, [
+        ...wrapSteps,
+        ...poolSteps,
+        ...approveSteps,
+        gasStep(
+          permitGas > BigInt(0) ? 'Add liquidity with permit' : 'Add liquidity',
+          mintGas,
+          FALLBACK_GAS.mint + permitGas
+        ),
+      ], FEE_TIERS)
+      if (cancelled) return
+      setMintSimulation(simulation)
+      setDepositGas(gas)
+    }
+
+    const timeoutId = setTimeout(() => {
+      previewDeposit().catch(error => {
+        console.error('Error simulating deposit:', error)
+        if (!cancelled) {
+          setMintSimulation(null)
+          setDepositGas(null)
+        }
+      })
+    }, 500)
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [address, publicClient, tokenA, tokenB, amountA, amountB, minTick, maxTick, feeTier, deadline, poolExists])
 
   // FIX: Auto-calculate amount A when amount B changes
   const handleAmountBChange = (value: string) => {
@@ -229,7 +410,7 @@ export function LiquidityCard() {
     }
 
     try {
-      const currentTick = priceToTick(currentPrice)
+      const currentTick = priceToTick(currentPrice, decimals0, decimals1)
       const optimalAmountA = calculateOptimalAmount(value, false, currentTick, minTick, maxTick)
       setAmountA(parseFloat(optimalAmountA).toFixed(6))
     } catch (error) {
@@ -257,7 +438,7 @@ export function LiquidityCard() {
     
     // Recalculate amount B when range changes
     if (amountA && parseFloat(amountA) > 0 && currentPrice !== null) {
-      const currentTick = priceToTick(currentPrice)
+      const currentTick = priceToTick(currentPrice, decimals0, decimals1)
       const optimalAmountB = calculateOptimalAmount(amountA, true, currentTick, newMinTick, newMaxTick)
       setAmountB(parseFloat(optimalAmountB).toFixed(6))
     }
@@ -311,7 +492,7 @@ export function LiquidityCard() {
 
       // Wrap BCX to WBCX if needed (automatic wrapping like Uniswap)
       if (tokenA?.symbol === 'BCX' && amountANum > 0) {
-        const wrapHash = await walletClient.writeContract({
+        const wrapHash = await simulateAndWrite(publicClient, walletClient, {
           address: tokens.WBCX.address as Address,
           abi: [
             {
@@ -330,7 +511,7 @@ export function LiquidityCard() {
       }
       
       if (tokenB?.symbol === 'BCX' && amountBNum > 0) {
-        const wrapHash = await walletClient.writeContract({
+        const wrapHash = await simulateAndWrite(publicClient, walletClient, {
           address: tokens.WBCX.address as Address,
           abi: [
             {
@@ -351,81 +532,42 @@ export function LiquidityCard() {
       // Check if pool exists, create if needed (use WBCX addresses)
       if (!poolExists) {
         const poolService = new PoolService(publicClient, walletClient)
-        // Compute initial price for pool initialization (token1/token0) adjusted for decimals
+        // Initial price for pool initialization, token1 per token0 in human units
         const token0 = poolTokenA.address.toLowerCase() < poolTokenB.address.toLowerCase() ? poolTokenA : poolTokenB
         const token1 = token0.address === poolTokenA.address ? poolTokenB : poolTokenA
         const inputPriceAB = parseFloat(initialPriceInput) || 1 // price of tokenA in tokenB
         const price01 = token0.address === poolTokenA.address ? inputPriceAB : (inputPriceAB > 0 ? 1 / inputPriceAB : 1)
-        const normalizedPrice = price01 * Math.pow(10, (token1.decimals - token0.decimals))
 
         await poolService.createPoolIfNeeded(
-          poolTokenA.address,
-          poolTokenB.address,
+          token0.address,
+          token1.address,
           feeTier,
-          normalizedPrice
+          price01,
+          token0.decimals,
+          token1.decimals
         )
       }
 
       // Approve tokens (use WBCX addresses for BCX)
-      // Note: For BCX, we wrap it to WBCX first, then approve WBCX (not native BCX)
-      const tokenAContract = { address: poolTokenA.address as Address, abi: ERC20_ABI }
-      const tokenBContract = { address: poolTokenB.address as Address, abi: ERC20_ABI }
-      
-      // Only approve if amount > 0
-      if (amountANum > 0) {
-        const allowanceA = await publicClient.readContract({
-          ...tokenAContract,
-          functionName: 'allowance',
-          args: [address, CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER],
-        })
-        
-        console.log(`Token A (${tokenA.symbol}) approval check:`, {
-          allowance: allowanceA.toString(),
-          required: amountADesiredWei.toString(),
-          needsApproval: allowanceA < amountADesiredWei,
-          amountFormatted: formatUnits(amountADesiredWei, tokenA.decimals),
-        })
-        
-        if (allowanceA < amountADesiredWei) {
-          console.log(`Approving ${tokenA.symbol}...`)
-          const approveHashA = await walletClient.writeContract({
-            ...tokenAContract,
-            functionName: 'approve',
-            args: [CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER, amountADesiredWei],
-          })
-          if (approveHashA) addTx({ hash: approveHashA, title: `Approve ${tokenA.symbol}`})
-          await publicClient.waitForTransactionReceipt({ hash: approveHashA })
-          console.log(`✓ ${tokenA.symbol} approved`)
-        }
-      }
-      
-      // Only approve if amount > 0
-      if (amountBNum > 0) {
-        const allowanceB = await publicClient.readContract({
-          ...tokenBContract,
-          functionName: 'allowance',
-          args: [address, CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER],
-        })
-        
-        console.log(`Token B (${tokenB.symbol}) approval check:`, {
-          allowance: allowanceB.toString(),
-          required: amountBDesiredWei.toString(),
-          needsApproval: allowanceB < amountBDesiredWei,
-          amountFormatted: formatUnits(amountBDesiredWei, tokenB.decimals),
-        })
-        
-        if (allowanceB < amountBDesiredWei) {
-          console.log(`Approving ${tokenB.symbol}...`)
-          const approveHashB = await walletClient.writeContract({
-            ...tokenBContract,
-            functionName: 'approve',
-            args: [CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER, amountBDesiredWei],
-          })
-          if (approveHashB) addTx({ hash: approveHashB, title: `Approve ${tokenB.symbol}` })
-
-          await publicClient.waitForTransactionReceipt({ hash: approveHashB })
-          console.log(`✓ ${tokenB.symbol} approved`)
-        }
+      // Note: For BCX, we wrap it to WBCX first, then approve WBCX (not native BCX).
+      // Tokens with permit are signed for and approved inside the mint transaction.
+      const positionManager = CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address
+      const permits: (SelfPermit | null)[] = []
+      for (const [token, poolToken, amountWei] of [
+        [tokenA, poolTokenA, amountADesiredWei],
+        [tokenB, poolTokenB, amountBDesiredWei],
+      ] as const) {
+        // Only approve if amount > 0
+        if (amountWei === BigInt(0)) continue
+        permits.push(await permitOrApprove(
+          walletClient,
+          publicClient,
+          poolToken.address as Address,
+          positionManager,
+          amountWei,
+          BigInt(deadlineTimestamp),
+          hash => addTx({ hash, title: `Approve ${token.symbol}` })
+        ))
       }
 
       // IMPORTANT: Uniswap V3 requires token0 < token1 (address comparison)
@@ -455,7 +597,7 @@ export function LiquidityCard() {
       const token1Info = poolTokenA.address.toLowerCase() < poolTokenB.address.toLowerCase() ? poolTokenB : poolTokenA
       
       // Check if price range includes current price
-      const currentTick = currentPrice ? priceToTick(currentPrice) : null
+      const currentTick = currentPrice ? priceToTick(currentPrice, decimals0, decimals1) : null
       const isInRange = currentTick !== null && currentTick >= minTick && currentTick <= maxTick
       
       if (!isInRange && currentTick !== null) {
@@ -464,8 +606,8 @@ export function LiquidityCard() {
           currentPrice,
           minTick,
           maxTick,
-          minPrice: tickToPrice(minTick),
-          maxPrice: tickToPrice(maxTick),
+          minPrice: tickToPrice(minTick, decimals0, decimals1),
+          maxPrice: tickToPrice(maxTick, decimals0, decimals1),
           warning: 'Only one token will be deposited if price is out of range'
         })
       }
@@ -482,34 +624,27 @@ export function LiquidityCard() {
         amount1DesiredFormatted: formatUnits(amount1Desired, token1Info.decimals),
         currentPrice,
         currentTick,
-        minPrice: tickToPrice(minTick),
-        maxPrice: tickToPrice(maxTick),
+        minPrice: tickToPrice(minTick, decimals0, decimals1),
+        maxPrice: tickToPrice(maxTick, decimals0, decimals1),
         isInRange,
       })
 
+      const mintCall = withSelfPermits(buildMintCall({
+        token0: token0Address,
+        token1: token1Address,
+        fee: feeTier,
+        tickLower: minTick,
+        tickUpper: maxTick,
+        amount0Desired: amount0Desired,
+        amount1Desired: amount1Desired,
+        recipient: address,
+        deadline: BigInt(deadlineTimestamp),
+      }), permits)
+
       // Simulate mint first to see actual amounts that will be deposited
       try {
-        const simulateResult = await publicClient.simulateContract({
-          address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
-          abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
-          functionName: 'mint',
-          args: [{
-            token0: token0Address,
-            token1: token1Address,
-            fee: feeTier,
-            tickLower: minTick,
-            tickUpper: maxTick,
-            amount0Desired: amount0Desired,
-            amount1Desired: amount1Desired,
-            amount0Min: BigInt(0),
-            amount1Min: BigInt(0),
-            recipient: address,
-            deadline: BigInt(deadlineTimestamp),
-          }],
-          account: address,
-        })
-
-        const [tokenId, liquidity, actualAmount0, actualAmount1] = simulateResult.result as [bigint, bigint, bigint, bigint]
+        const { tokenId, liquidity, amount0: actualAmount0, amount1: actualAmount1 } =
+          decodeMintResult(mintCall, await simulateWrite(publicClient, address, mintCall))
         
         console.log('⚠️ Simulated mint result (actual amounts that will be deposited):', {
           tokenId: tokenId.toString(),
@@ -545,8 +680,8 @@ export function LiquidityCard() {
         
         if (actualAmount1 === BigInt(0) && amount1Desired > BigInt(0)) {
           // Calculate actual price range bounds
-          const minPrice = tickToPrice(minTick)
-          const maxPrice = tickToPrice(maxTick)
+          const minPrice = tickToPrice(minTick, decimals0, decimals1)
+          const maxPrice = tickToPrice(maxTick, decimals0, decimals1)
           const rangeWidth = currentPrice && currentPrice > 0 
             ? ((maxPrice - minPrice) / currentPrice) * 100 
             : 0
@@ -596,7 +731,9 @@ export function LiquidityCard() {
           })
         }
       } catch (simulateError) {
-        // If simulation fails, don't block - might be a simulation issue
+        // A predicted revert blocks the mint
+        if (simulateError instanceof SimulationError) throw simulateError
+        // If the node can't simulate, don't block - might be a simulation issue
         console.error('Error simulating mint (continuing anyway):', simulateError)
         if (simulateError instanceof Error && simulateError.message.includes('rounded to 0')) {
           throw simulateError // Re-throw our validation errors
@@ -605,25 +742,7 @@ export function LiquidityCard() {
 
       // Mint position with custom tick range
       console.log('Submitting mint transaction...')
-      const hash = await walletClient.writeContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
-        abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
-        functionName: 'mint',
-        args: [{
-          token0: token0Address,
-          token1: token1Address,
-          fee: feeTier,
-          tickLower: minTick,
-          tickUpper: maxTick,
-          amount0Desired: amount0Desired,
-          amount1Desired: amount1Desired,
-          amount0Min: BigInt(0),
-          amount1Min: BigInt(0),
-        recipient: address,
-          deadline: BigInt(deadlineTimestamp),
-        }],
-        value: BigInt(0),
-      })
+      const hash = await simulateAndWrite(publicClient, walletClient, mintCall)
       if (hash) addTx({ hash: hash as string, title: poolExists ? 'Added Liquidity' : 'Create Pool & Add Liquidity'})
 
       console.log('Transaction hash:', hash)
@@ -661,21 +780,7 @@ export function LiquidityCard() {
     } catch (err: any) {
       console.error('Add liquidity error:', err)
       
-      // Provide more detailed error messages
-      let errorMessage = 'Add liquidity failed'
-      if (err?.message) {
-        errorMessage = err.message
-        // Check for common errors
-        if (err.message.includes('execution reverted')) {
-          errorMessage = 'Transaction failed. This could be due to:\n- Insufficient token balance\n- Invalid tick range\n- Pool not initialized\n- Token approval issues'
-        } else if (err.message.includes('user rejected')) {
-          errorMessage = 'Transaction was rejected'
-        } else if (err.message.includes('token0') || err.message.includes('token1')) {
-          errorMessage = `Token ordering error: ${err.message}`
-        }
-      }
-      
-      addError({ title: 'Failed to Add Liquidity', message: errorMessage })
+      addError({ title: 'Failed to Add Liquidity', cause: err })
     } finally {
       setIsLoading(false)
     }
@@ -687,6 +792,7 @@ export function LiquidityCard() {
   const hasValidAmounts = amountANum > 0 || amountBNum > 0
   // Don't block on errors - allow users to retry
   const canAddLiquidity = isConnected && hasValidAmounts && !isLoading && minTick < maxTick
+    && mintSimulation?.status !== 'reverted'
 
   return (
     <div className="w-full max-w-4xl mx-auto glass-card">
@@ -820,9 +926,12 @@ export function LiquidityCard() {
             {poolDataLoaded && currentPrice !== null ? (
               <PriceRangeSelector
                 currentPrice={currentPrice}
+                decimals0={decimals0}
+                decimals1={decimals1}
                 feeTier={feeTier}
                 onRangeChange={handleRangeChange}
                 disabled={isLoading}
+                depth={liquidityDepth}
               />
             ) : (
               <div className="text-center py-8 glass-card rounded-lg">
@@ -889,8 +998,8 @@ export function LiquidityCard() {
 
         {/* Add Liquidity Button */}
         <button
-          onClick={handleAddLiquidity}
-          disabled={!canAddLiquidity}
+          onClick={isWrongNetwork ? switchNetwork : handleAddLiquidity}
+          disabled={isWrongNetwork ? isSwitching : !canAddLiquidity}
           className="glass-button-primary w-full py-3 px-4 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isLoading ? (
@@ -900,8 +1009,12 @@ export function LiquidityCard() {
             </div>
           ) : !isConnected ? (
             'Connect Wallet'
+          ) : isWrongNetwork ? (
+            `Switch to ${networkName}`
               ) : !hasValidAmounts ? (
             'Enter Amounts'
+          ) : mintSimulation?.status === 'reverted' ? (
+            'Deposit Would Fail'
           ) : (
                 poolExists ? 'Add Liquidity' : 'Create Pool & Add Liquidity'
           )}
@@ -913,14 +1026,18 @@ export function LiquidityCard() {
             {poolDataLoaded && currentPrice !== null && minTick < maxTick ? (
               <LiquidityPreview
                 currentPrice={currentPrice}
-                minPrice={tickToPrice(minTick)}
-                maxPrice={tickToPrice(maxTick)}
+                decimals0={decimals0}
+                decimals1={decimals1}
+                minPrice={tickToPrice(minTick, decimals0, decimals1)}
+                maxPrice={tickToPrice(maxTick, decimals0, decimals1)}
                 minTick={minTick}
                 maxTick={maxTick}
                 amount0={amountA}
                 amount1={amountB}
                 token0Symbol={tokenA?.symbol || 'Token0'}
                 token1Symbol={tokenB?.symbol || 'Token1'}
+                simulation={mintSimulation}
+                networkFee={depositGas}
               />
             ) : (
               <div className="text-center py-12">
@@ -0,0 +1,92 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { LiquidityDepth, formatPrice } from '@/sdk'
+
+interface LiquidityDepthChartProps {
+  depth: LiquidityDepth
+  selectedRange?: { minTick: number; maxTick: number }
+  height?: number
+  className?: string
+}
+
+export function LiquidityDepthChart({
+  depth,
+  selectedRange,
+  height = 96,
+  className = '',
+}: LiquidityDepthChartProps) {
+  const { buckets, currentTick } = depth
+
+  const maxLiquidity = useMemo(
+    () => buckets.reduce((max, b) => (b.liquidity > max ? b.liquidity : max), BigInt(0)),
+    [buckets]
+  )
+
+  if (buckets.length === 0) return null
+
+  const spanLower = buckets[0].tickLower
+  const spanUpper = buckets[buckets.length - 1].tickUpper
+  const toPercent = (tick: number) =>
+    Math.max(0, Math.min(100, ((tick - spanLower) / (spanUpper - spanLower)) * 100))
+
+  const isSelected = (tickLower: number, tickUpper: number) =>
+    !!selectedRange && tickUpper > selectedRange.minTick && tickLower < selectedRange.maxTick
+
+  return (
+    <div className={`relative w-full ${className}`} style={{ height }}>
+      {/* Histogram */}
+      <div className="absolute inset-0 flex items-end gap-px">
+        {buckets.map((bucket) => {
+          const heightPercent = maxLiquidity > BigInt(0)
+            ? Number((bucket.liquidity * BigInt(1000)) / maxLiquidity) / 10
+            : 0
+          return (
+            <div
+              key={bucket.tickLower}
+              className={`flex-1 rounded-t-sm ${
+                isSelected(bucket.tickLower, bucket.tickUpper) ? 'bg-blue-400/70' : 'bg-white/20'
+              }`}
+              style={{ height: `${heightPercent}%` }}
+              title={`${formatPrice(bucket.priceLower)} – ${formatPrice(bucket.priceUpper)}`}
+            />
+          )
+        })}
+      </div>
+
+      {/* Current price */}
+      {currentTick >= spanLower && currentTick < spanUpper && (
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-orange-400"
+          style={{ left: `${toPercent(currentTick)}%` }}
+        />
+      )}
+
+      {/* Selected range bounds */}
+      {selectedRange && (
+        <>
+          {selectedRange.minTick > spanLower && selectedRange.minTick < spanUpper && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-blue-300"
+              style={{ left: `${toPercent(selectedRange.minTick)}%` }}
+            />
+          )}
+          {selectedRange.maxTick > spanLower && selectedRange.maxTick < spanUpper && (
+            <div
+              className="absolute top-0 bottom-0 w-px bg-purple-300"
+              style={{ left: `${toPercent(selectedRange.maxTick)}%` }}
+            />
+          )}
+        </>
+      )}
+
+      {/* Axis labels */}
+      <div className="absolute -bottom-5 left-0 text-[10px] text-white/50">
+        {formatPrice(buckets[0].priceLower)}
+      </div>
+      <div className="absolute -bottom-5 right-0 text-[10px] text-white/50">
+        {formatPrice(buckets[buckets.length - 1].priceUpper)}
+      </div>
+    </div>
+  )
+}
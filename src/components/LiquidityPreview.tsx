@@ -1,13 +1,30 @@
 'use client'
 
 import React from 'react'
-import { getTokenDistribution, calculateLiquidityMultiplier } from '@/lib/positionAnalysis'
-import { priceToTick } from '@/lib/tickMath'
-import { formatPrice } from '@/lib/positionAnalysis'
-import { formatBalance } from '@/lib/utils'
+import {
+  getTokenDistribution,
+  calculateLiquidityMultiplier,
+  priceToTick,
+  formatPrice,
+  formatBalance,
+  type SimulationOutcome,
+  formatGasCost,
+  type GasBreakdown,
+} from '@/sdk'
+
+/**
+ * What a simulated mint deposits, with amounts in the order of amount0/amount1
+ */
+export interface SimulatedDeposit {
+  liquidity: string
+  amount0: string
+  amount1: string
+}
 
 interface LiquidityPreviewProps {
-  currentPrice: number
+  currentPrice: number // token1 per token0, in human units
+  decimals0: number
+  decimals1: number
   minPrice: number
   maxPrice: number
   minTick: number
@@ -16,10 +33,14 @@ interface LiquidityPreviewProps {
   amount1: string
   token0Symbol: string
   token1Symbol: string
+  simulation?: SimulationOutcome<SimulatedDeposit> | null
+  networkFee?: GasBreakdown | null // Every transaction the deposit sends
 }
 
 export function LiquidityPreview({
   currentPrice,
+  decimals0,
+  decimals1,
   minPrice,
   maxPrice,
   minTick,
@@ -28,8 +49,10 @@ export function LiquidityPreview({
   amount1,
   token0Symbol,
   token1Symbol,
+  simulation,
+  networkFee,
 }: LiquidityPreviewProps) {
-  const currentTick = currentPrice > 0 ? priceToTick(currentPrice) : 0
+  const currentTick = currentPrice > 0 ? priceToTick(currentPrice, decimals0, decimals1) : 0
   const distribution = getTokenDistribution(currentTick, minTick, maxTick)
   const multiplier = calculateLiquidityMultiplier(minTick, maxTick)
   
@@ -138,6 +161,59 @@ export function LiquidityPreview({
           </div>
         )}
 
+        {/* Simulated Mint */}
+        {simulation?.status === 'success' && (
+          <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-xs font-medium text-green-800 mb-2">Simulated deposit (what the pool will take):</p>
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">{token0Symbol}:</span>
+                <span className="font-medium text-gray-900">{formatBalance(simulation.result.amount0, 6)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">{token1Symbol}:</span>
+                <span className="font-medium text-gray-900">{formatBalance(simulation.result.amount1, 6)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Liquidity minted:</span>
+                <span className="font-medium text-gray-900">{simulation.result.liquidity}</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {simulation?.status === 'reverted' && (
+          <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-xs text-red-800">
+              <strong>Simulation failed:</strong> {simulation.message}
+            </p>
+          </div>
+        )}
+
+        {simulation?.status === 'unavailable' && (
+          <p className="mt-2 text-xs text-gray-500">{simulation.message}</p>
+        )}
+
+        {/* Network Fee */}
+        {hasAmounts && networkFee && (
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600">Network fee:</span>
+              <span className="font-medium text-gray-900">≈ {formatGasCost(networkFee.total)}</span>
+            </div>
+            {networkFee.steps.length > 1 && (
+              <div className="mt-1 space-y-0.5">
+                {networkFee.steps.map((step, i) => (
+                  <div key={i} className="flex justify-between text-xs text-gray-500 pl-3">
+                    <span>{step.label}{!step.estimated && ' (typical)'}</span>
+                    <span>{formatGasCost(step)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Warning if out of range */}
         {!(currentTick >= minTick && currentTick <= maxTick) && (
           <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
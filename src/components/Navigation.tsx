@@ -3,16 +3,22 @@
 import React from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
+import { AlertTriangle } from 'lucide-react'
 import { WalletButton } from './WalletButton'
+import { NetworkSelector } from './NetworkSelector'
+import { useNetworkGuard } from '@/hooks/useNetworkGuard'
 
 export function Navigation() {
   const pathname = usePathname()
+  const { isWrongNetwork, networkName, isSwitching, switchNetwork } = useNetworkGuard()
 
   const navItems = [
     { href: '/swap', label: 'Swap' },
     { href: '/liquidity', label: 'Add Liquidity' },
     { href: '/pools', label: 'Pools' },
     { href: '/positions', label: 'My Positions' },
+    { href: '/activity', label: 'Activity' },
+    { href: '/approvals', label: 'Approvals' },
   ]
 
   return (
@@ -43,12 +49,28 @@ export function Navigation() {
             ))}
           </nav>
 
-          {/* Wallet Button */}
-          <div className="flex items-center">
+          {/* Network and Wallet */}
+          <div className="flex items-center gap-3">
+            <NetworkSelector />
             <WalletButton />
           </div>
         </div>
 
+        {/* Wrong Network Warning */}
+        {isWrongNetwork && (
+          <div className="flex items-center justify-center gap-3 py-2 text-sm text-yellow-400 border-t border-white/10">
+            <AlertTriangle className="w-4 h-4" />
+            <span>Your wallet is on a different network. Transactions are disabled until you switch.</span>
+            <button
+              onClick={switchNetwork}
+              disabled={isSwitching}
+              className="underline hover:text-yellow-300 disabled:opacity-50"
+            >
+              {isSwitching ? 'Switching...' : `Switch to ${networkName}`}
+            </button>
+          </div>
+        )}
+
         {/* Mobile Navigation */}
         <div className="md:hidden border-t border-white/10">
           <div className="flex justify-around py-2">
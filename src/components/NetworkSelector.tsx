@@ -0,0 +1,53 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useChainId, useSwitchChain } from 'wagmi'
+import { Check, ChevronDown } from 'lucide-react'
+import { getNetwork, networks } from '@/sdk'
+
+export function NetworkSelector() {
+  const chainId = useChainId()
+  const { switchChain, isPending } = useSwitchChain()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const current = getNetwork(chainId)
+  const canSwitch = networks.length > 1
+
+  // Also works without a wallet: wagmi then only changes the chain the app reads from
+  const handleSelect = (id: number) => {
+    setIsOpen(false)
+    if (id !== chainId) switchChain({ chainId: id })
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={!canSwitch || isPending}
+        className="flex items-center gap-2 py-1.5 px-3 text-sm font-medium text-white rounded-lg border border-white/20 bg-white/5 hover:bg-white/10 transition-all disabled:cursor-default disabled:hover:bg-white/5"
+      >
+        <span className={`w-2 h-2 rounded-full ${current?.chain.testnet ? 'bg-yellow-400' : 'bg-green-400'}`} />
+        {current?.chain.name ?? 'Unknown network'}
+        {canSwitch && <ChevronDown className="w-4 h-4 text-white/70" />}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-48 z-50 glass-card p-1">
+            {networks.map(network => (
+              <button
+                key={network.chain.id}
+                onClick={() => handleSelect(network.chain.id)}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm text-white rounded-lg hover:bg-white/10 transition-colors"
+              >
+                {network.chain.name}
+                {network.chain.id === chainId && <Check className="w-4 h-4 text-green-400" />}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
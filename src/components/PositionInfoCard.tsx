@@ -2,10 +2,7 @@
 
 import React, { useMemo } from 'react'
 import Link from 'next/link'
-import { PositionDetails } from '@/types/position'
-import { formatBalance } from '@/lib/utils'
-import { formatPrice, getPositionStatusBadge } from '@/lib/positionAnalysis'
-import { tokenList, type Token } from '@/config/tokens'
+import { PositionDetails, formatBalance, formatPrice, getPositionStatusBadge, tokenList, type Token } from '@/sdk'
 
 interface PositionInfoCardProps {
   position: PositionDetails
@@ -27,7 +24,7 @@ export function PositionInfoCard({
   showActions = true,
 }: PositionInfoCardProps) {
   const statusBadge = getPositionStatusBadge(position.inRange)
-  const hasFees = parseFloat(position.tokensOwed0) > 0 || parseFloat(position.tokensOwed1) > 0
+  const hasFees = parseFloat(position.uncollectedFees0) > 0 || parseFloat(position.uncollectedFees1) > 0
 
   // Get token info from addresses
   const token0 = useMemo(() => {
@@ -174,13 +171,13 @@ export function PositionInfoCard({
           <div className="flex justify-between text-xs">
             <span className="text-green-300/80">Token 0:</span>
             <span className="text-green-300 font-medium">
-              {formatBalance(position.tokensOwed0)}
+              {formatBalance(position.uncollectedFees0)}
             </span>
           </div>
           <div className="flex justify-between text-xs">
             <span className="text-green-300/80">Token 1:</span>
             <span className="text-green-300 font-medium">
-              {formatBalance(position.tokensOwed1)}
+              {formatBalance(position.uncollectedFees1)}
             </span>
           </div>
         </div>
@@ -0,0 +1,152 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { usePublicClient } from 'wagmi'
+import { Loader2 } from 'lucide-react'
+import { PriceHistoryService, type PriceSource, Pool, Candle, CandleInterval, formatPrice } from '@/sdk'
+
+interface PriceChartProps {
+  pool: Pool
+  height?: number
+}
+
+const INTERVALS: CandleInterval[] = ['5m', '1h', '1d']
+
+const CHART_WIDTH = 600
+
+export function PriceChart({ pool, height = 220 }: PriceChartProps) {
+  const publicClient = usePublicClient()
+  const [interval, setCandleInterval] = useState<CandleInterval>('1h')
+  const [source, setSource] = useState<PriceSource>('swaps')
+  const [candles, setCandles] = useState<Candle[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!publicClient) return
+    const client = publicClient
+    let cancelled = false
+
+    async function loadCandles() {
+      setIsLoading(true)
+      setError(null)
+      try {
+        const result = await new PriceHistoryService(client).getCandles(pool, interval, source)
+        if (!cancelled) setCandles(result)
+      } catch (err) {
+        if (!cancelled) {
+          setCandles([])
+          setError(err instanceof Error ? err.message : 'Failed to load price history')
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    loadCandles()
+    return () => {
+      cancelled = true
+    }
+  }, [pool, interval, source, publicClient])
+
+  const high = candles.length > 0 ? Math.max(...candles.map(c => c.high)) : 0
+  const low = candles.length > 0 ? Math.min(...candles.map(c => c.low)) : 0
+  const priceSpan = high - low || high || 1
+  const toY = (price: number) => height - ((price - low) / priceSpan) * (height - 8) - 4
+  const slot = candles.length > 0 ? CHART_WIDTH / candles.length : CHART_WIDTH
+  const bodyWidth = Math.max(1, slot * 0.6)
+
+  const last = candles[candles.length - 1]
+  const first = candles[0]
+  const change = first && last && first.open > 0 ? ((last.close - first.open) / first.open) * 100 : 0
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div>
+          {last && (
+            <>
+              <span className="text-xl font-semibold text-white">{formatPrice(last.close)}</span>
+              <span className={`ml-2 text-sm ${change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+              </span>
+            </>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {INTERVALS.map(value => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setCandleInterval(value)}
+              className={`px-2 py-1 text-xs rounded-lg border transition-colors ${
+                interval === value ? 'border-white/40 text-white bg-white/10' : 'border-white/10 text-white/60 hover:text-white'
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => setSource(source === 'swaps' ? 'twap' : 'swaps')}
+            className="px-2 py-1 text-xs rounded-lg border border-white/10 text-white/60 hover:text-white transition-colors"
+            title="Switch between swap prices and the pool's TWAP oracle"
+          >
+            {source === 'swaps' ? 'Swaps' : 'TWAP'}
+          </button>
+        </div>
+      </div>
+
+      <div className="relative" style={{ height }}>
+        {isLoading && candles.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-white/70" />
+          </div>
+        )}
+        {!isLoading && error && candles.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-white/50 text-center px-4">
+            {error}
+          </div>
+        )}
+        {!isLoading && !error && candles.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-white/50">
+            No swaps in this period
+          </div>
+        )}
+        {candles.length > 0 && (
+          <svg viewBox={`0 0 ${CHART_WIDTH} ${height}`} preserveAspectRatio="none" className="w-full h-full">
+            {candles.map((candle, i) => {
+              const x = i * slot + slot / 2
+              const rising = candle.close >= candle.open
+              const color = rising ? '#4ade80' : '#f87171'
+              const bodyTop = toY(Math.max(candle.open, candle.close))
+              const bodyBottom = toY(Math.min(candle.open, candle.close))
+              return (
+                <g key={candle.time}>
+                  <line x1={x} x2={x} y1={toY(candle.high)} y2={toY(candle.low)} stroke={color} strokeWidth={1} />
+                  <rect
+                    x={x - bodyWidth / 2}
+                    y={bodyTop}
+                    width={bodyWidth}
+                    height={Math.max(1, bodyBottom - bodyTop)}
+                    fill={color}
+                  />
+                </g>
+              )
+            })}
+          </svg>
+        )}
+      </div>
+
+      {candles.length > 0 && (
+        <div className="flex justify-between text-xs text-white/50">
+          <span>{new Date(candles[0].time * 1000).toLocaleString()}</span>
+          <span>
+            {pool.token1.symbol} per {pool.token0.symbol}
+          </span>
+          <span>{new Date(candles[candles.length - 1].time * 1000).toLocaleString()}</span>
+        </div>
+      )}
+    </div>
+  )
+}
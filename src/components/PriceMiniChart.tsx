@@ -0,0 +1,96 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { usePublicClient } from 'wagmi'
+import {
+  PoolService,
+  PriceHistoryService,
+  FEE_TIER_OPTIONS,
+  Candle,
+  PoolDetails,
+  tokens,
+  type Token,
+  formatPrice,
+} from '@/sdk'
+
+interface PriceMiniChartProps {
+  tokenIn: Token
+  tokenOut: Token
+}
+
+const WIDTH = 200
+const HEIGHT = 40
+
+/**
+ * 24h price sparkline for the deepest direct pool between two tokens,
+ * shown as tokenOut per tokenIn
+ */
+export function PriceMiniChart({ tokenIn, tokenOut }: PriceMiniChartProps) {
+  const publicClient = usePublicClient()
+  const [candles, setCandles] = useState<Candle[]>([])
+  const [invert, setInvert] = useState(false)
+
+  useEffect(() => {
+    if (!publicClient) return
+    const client = publicClient
+    let cancelled = false
+
+    async function load() {
+      setCandles([])
+      const addressIn = tokenIn.symbol === 'BCX' ? tokens.WBCX.address : tokenIn.address
+      const addressOut = tokenOut.symbol === 'BCX' ? tokens.WBCX.address : tokenOut.address
+      if (addressIn.toLowerCase() === addressOut.toLowerCase()) return
+
+      const poolService = new PoolService(client)
+      const pools = (await Promise.all(
+        FEE_TIER_OPTIONS.map(({ fee }) => poolService.getPoolDetails(addressIn, addressOut, fee))
+      )).filter((p): p is PoolDetails => !!p && BigInt(p.liquidity) > BigInt(0))
+      if (pools.length === 0) return
+
+      const deepest = pools.reduce((a, b) => (BigInt(b.liquidity) > BigInt(a.liquidity) ? b : a))
+      const result = await new PriceHistoryService(client).getCandles(deepest, '5m')
+      if (cancelled) return
+      // Pool prices are token1 per token0; flip when tokenIn is token1
+      setInvert(deepest.token0.address.toLowerCase() !== addressIn.toLowerCase())
+      setCandles(result)
+    }
+
+    load().catch(err => console.error('Error loading price chart:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [tokenIn.address, tokenIn.symbol, tokenOut.address, tokenOut.symbol, publicClient])
+
+  if (candles.length < 2) return null
+
+  const closes = candles.map(c => (invert ? 1 / c.close : c.close))
+  const high = Math.max(...closes)
+  const low = Math.min(...closes)
+  const span = high - low || high || 1
+  const path = closes
+    .map((price, i) => {
+      const x = (i / (closes.length - 1)) * WIDTH
+      const y = HEIGHT - ((price - low) / span) * (HEIGHT - 4) - 2
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+
+  const change = ((closes[closes.length - 1] - closes[0]) / closes[0]) * 100
+  const rising = change >= 0
+
+  return (
+    <div className="flex items-center justify-between gap-3 glass-card p-3 rounded-xl border border-white/10">
+      <div className="text-xs">
+        <div className="text-white/70">
+          1 {tokenIn.symbol} = {formatPrice(closes[closes.length - 1])} {tokenOut.symbol}
+        </div>
+        <div className={rising ? 'text-green-400' : 'text-red-400'}>
+          {rising ? '+' : ''}{change.toFixed(2)}% (24h)
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-32 h-10">
+        <path d={path} fill="none" stroke={rising ? '#4ade80' : '#f87171'} strokeWidth={1.5} />
+      </svg>
+    </div>
+  )
+}
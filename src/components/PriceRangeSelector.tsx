@@ -8,14 +8,20 @@ import {
   getTickSpacing,
   getPriceRangeFromPercentage,
   getFullRangeTicks,
-} from '@/lib/tickMath'
-import { calculateLiquidityMultiplier, formatPrice } from '@/lib/positionAnalysis'
+  calculateLiquidityMultiplier,
+  formatPrice,
+  LiquidityDepth,
+} from '@/sdk'
+import { LiquidityDepthChart } from './LiquidityDepthChart'
 
 interface PriceRangeSelectorProps {
-  currentPrice: number | null
+  currentPrice: number | null // token1 per token0, in human units
+  decimals0: number
+  decimals1: number
   feeTier: number
   onRangeChange: (minTick: number, maxTick: number) => void
   disabled?: boolean
+  depth?: LiquidityDepth | null
 }
 
 const PRESET_RANGES = [
@@ -28,9 +34,12 @@ const PRESET_RANGES = [
 
 export function PriceRangeSelector({
   currentPrice,
+  decimals0,
+  decimals1,
   feeTier,
   onRangeChange,
   disabled,
+  depth,
 }: PriceRangeSelectorProps) {
   const tickSpacing = getTickSpacing(feeTier)
   
@@ -46,8 +55,8 @@ export function PriceRangeSelector({
     if (currentPrice === null) return
     
     const { minTick: fullMinTick, maxTick: fullMaxTick } = getFullRangeTicks(tickSpacing)
-    const minPriceValue = tickToPrice(fullMinTick)
-    const maxPriceValue = tickToPrice(fullMaxTick)
+    const minPriceValue = tickToPrice(fullMinTick, decimals0, decimals1)
+    const maxPriceValue = tickToPrice(fullMaxTick, decimals0, decimals1)
     
     setMinTick(fullMinTick)
     setMaxTick(fullMaxTick)
@@ -58,7 +67,7 @@ export function PriceRangeSelector({
     setMinSlider(0)
     setMaxSlider(100)
     onRangeChange(fullMinTick, fullMaxTick)
-  }, [tickSpacing, currentPrice])
+  }, [tickSpacing, currentPrice, decimals0, decimals1])
 
   const handlePresetClick = (percentage: number | null) => {
     if (currentPrice === null) return
@@ -66,8 +75,8 @@ export function PriceRangeSelector({
     if (percentage === null) {
       // Full range
       const { minTick: fullMinTick, maxTick: fullMaxTick } = getFullRangeTicks(tickSpacing)
-      const minPriceValue = tickToPrice(fullMinTick)
-      const maxPriceValue = tickToPrice(fullMaxTick)
+      const minPriceValue = tickToPrice(fullMinTick, decimals0, decimals1)
+      const maxPriceValue = tickToPrice(fullMaxTick, decimals0, decimals1)
       
       setMinTick(fullMinTick)
       setMaxTick(fullMaxTick)
@@ -81,7 +90,7 @@ export function PriceRangeSelector({
     } else {
       // Percentage range
       const { minTick: newMinTick, maxTick: newMaxTick, minPrice: newMinPrice, maxPrice: newMaxPrice } =
-        getPriceRangeFromPercentage(currentPrice, percentage, tickSpacing)
+        getPriceRangeFromPercentage(currentPrice, percentage, tickSpacing, decimals0, decimals1)
       
       setMinTick(newMinTick)
       setMaxTick(newMaxTick)
@@ -89,7 +98,7 @@ export function PriceRangeSelector({
       setMaxPrice(formatPrice(newMaxPrice))
       
       // Update sliders to match
-      const currentTick = priceToTick(currentPrice)
+      const currentTick = priceToTick(currentPrice, decimals0, decimals1)
       const tickRange = newMaxTick - newMinTick
       setMinSlider(40)
       setMaxSlider(60)
@@ -102,7 +111,7 @@ export function PriceRangeSelector({
     setMinPrice(value)
     const priceNum = parseFloat(value)
     if (!isNaN(priceNum) && priceNum > 0) {
-      const rawTick = priceToTick(priceNum)
+      const rawTick = priceToTick(priceNum, decimals0, decimals1)
       const validTick = getNearestValidTick(rawTick, tickSpacing)
       setMinTick(validTick)
       onRangeChange(validTick, maxTick)
@@ -113,7 +122,7 @@ export function PriceRangeSelector({
     setMaxPrice(value)
     const priceNum = parseFloat(value)
     if (!isNaN(priceNum) && priceNum > 0) {
-      const rawTick = priceToTick(priceNum)
+      const rawTick = priceToTick(priceNum, decimals0, decimals1)
       const validTick = getNearestValidTick(rawTick, tickSpacing)
       setMaxTick(validTick)
       onRangeChange(minTick, validTick)
@@ -133,9 +142,9 @@ export function PriceRangeSelector({
     const minPriceLog = Math.log(currentPrice / 3) + (value / sliderRange) * priceRangeLog
     const newMinPrice = Math.exp(minPriceLog)
     
-    const rawTick = priceToTick(newMinPrice)
+    const rawTick = priceToTick(newMinPrice, decimals0, decimals1)
     const validTick = getNearestValidTick(rawTick, tickSpacing)
-    const actualPrice = tickToPrice(validTick)
+    const actualPrice = tickToPrice(validTick, decimals0, decimals1)
     
     setMinTick(validTick)
     setMinPrice(formatPrice(actualPrice))
@@ -154,9 +163,9 @@ export function PriceRangeSelector({
     const maxPriceLog = Math.log(currentPrice / 3) + (value / sliderRange) * priceRangeLog
     const newMaxPrice = Math.exp(maxPriceLog)
     
-    const rawTick = priceToTick(newMaxPrice)
+    const rawTick = priceToTick(newMaxPrice, decimals0, decimals1)
     const validTick = getNearestValidTick(rawTick, tickSpacing)
-    const actualPrice = tickToPrice(validTick)
+    const actualPrice = tickToPrice(validTick, decimals0, decimals1)
     
     setMaxTick(validTick)
     setMaxPrice(formatPrice(actualPrice))
@@ -176,7 +185,7 @@ export function PriceRangeSelector({
     : 1
 
   // Calculate if current price is in range
-  const currentTick = currentPrice && currentPrice > 0 ? priceToTick(currentPrice) : 0
+  const currentTick = currentPrice && currentPrice > 0 ? priceToTick(currentPrice, decimals0, decimals1) : 0
   const isInRange = currentPrice ? (currentTick >= minTick && currentTick <= maxTick) : false
 
   // Calculate percentage from current price
@@ -259,10 +268,20 @@ export function PriceRangeSelector({
       </div>
 
       {/* Visual Range Indicator */}
-      <div className="relative h-24 bg-linear-to-r from-blue-100 via-green-100 to-blue-100 rounded-lg p-4">
+      <div className={`relative h-24 rounded-lg p-4 ${depth ? 'glass-card mb-6' : 'bg-linear-to-r from-blue-100 via-green-100 to-blue-100'}`}>
         <div className="relative h-full">
-          {/* Current Price Indicator */}
-          {currentPrice > 0 && isValidRange && (
+          {/* Liquidity depth behind the selected range */}
+          {depth && (
+            <LiquidityDepthChart
+              depth={depth}
+              selectedRange={isValidRange ? { minTick, maxTick } : undefined}
+              height={64}
+              className="absolute inset-0"
+            />
+          )}
+
+          {/* Current Price Indicator (the depth chart draws its own) */}
+          {!depth && currentPrice > 0 && isValidRange && (
             <div
               className="absolute top-0 bottom-0 w-0.5 bg-orange-500"
               style={{
@@ -278,12 +297,16 @@ export function PriceRangeSelector({
           )}
 
           {/* Range Labels */}
-          <div className="absolute bottom-0 left-0 text-xs font-medium text-blue-700">
-            Min
-          </div>
-          <div className="absolute bottom-0 right-0 text-xs font-medium text-blue-700">
-            Max
-          </div>
+          {!depth && (
+            <>
+              <div className="absolute bottom-0 left-0 text-xs font-medium text-blue-700">
+                Min
+              </div>
+              <div className="absolute bottom-0 right-0 text-xs font-medium text-blue-700">
+                Max
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -1,7 +1,15 @@
 'use client'
 
 import React, { useState } from 'react'
+import Link from 'next/link'
 import { X, Settings } from 'lucide-react'
+import { loadApprovalPolicy, saveApprovalPolicy, type ApprovalMode, type ApprovalPolicy } from '@/sdk'
+
+const APPROVAL_MODES: { mode: ApprovalMode; label: string }[] = [
+  { mode: 'exact', label: 'Exact' },
+  { mode: 'unlimited', label: 'Unlimited' },
+  { mode: 'custom', label: 'Custom' },
+]
 
 interface SettingsModalProps {
   isOpen: boolean
@@ -21,6 +29,7 @@ export function SettingsModal({
   onDeadlineChange,
 }: SettingsModalProps) {
   const [customSlippage, setCustomSlippage] = useState(slippage.toString())
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(loadApprovalPolicy)
 
   const handleSlippageChange = (value: number) => {
     onSlippageChange(value)
@@ -35,6 +44,12 @@ export function SettingsModal({
     }
   }
 
+  // The policy is shared by every card, so it's stored rather than passed in
+  const handleApprovalPolicyChange = (policy: ApprovalPolicy) => {
+    setApprovalPolicy(policy)
+    saveApprovalPolicy(policy)
+  }
+
   if (!isOpen) return null
 
   return (
@@ -122,6 +137,52 @@ export function SettingsModal({
               Your transaction will revert if it is pending for more than this long.
             </p>
           </div>
+
+          {/* Token Approvals */}
+          <div>
+            <label className="block text-sm font-medium text-white/80 mb-2">
+              Token Approvals
+            </label>
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {APPROVAL_MODES.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => handleApprovalPolicyChange({ ...approvalPolicy, mode })}
+                  className={`px-3 py-2 text-sm rounded-xl border transition-colors ${
+                    approvalPolicy.mode === mode
+                      ? 'glass-button-primary border-white/30 text-black'
+                      : 'glass-button border-white/15 text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {approvalPolicy.mode === 'custom' && (
+              <input
+                type="number"
+                value={approvalPolicy.customAmount}
+                onChange={(e) => handleApprovalPolicyChange({ ...approvalPolicy, customAmount: e.target.value })}
+                placeholder="Amount per token"
+                className="glass-input w-full px-3 py-2 text-white mb-1"
+                min="0"
+              />
+            )}
+            <p className="text-xs text-white/50 mt-1">
+              {approvalPolicy.mode === 'exact' && 'Approve only the amount each transaction needs.'}
+              {approvalPolicy.mode === 'unlimited' && 'Approve once per token; later transactions skip the approval.'}
+              {approvalPolicy.mode === 'custom' && 'Approve this amount, or more when a transaction needs it.'}
+              {' '}
+              <Link href="/approvals" onClick={onClose} className="text-blue-400 hover:text-blue-300">
+                Manage approvals
+              </Link>
+            </p>
+            {approvalPolicy.mode === 'unlimited' && (
+              <p className="text-sm text-yellow-400 mt-1">
+                Unlimited approvals let the contract spend your whole balance of the token.
+              </p>
+            )}
+          </div>
         </div>
 
         <div className="p-4 border-t border-white/10">
@@ -2,23 +2,66 @@
 
 import React, { useState, useEffect, useCallback } from 'react'
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi'
+import { parseUnits, type Address } from 'viem'
 import { ArrowUpDown, Settings, Loader2, CheckCircle, AlertTriangle, XCircle, Plus, Droplets, Info } from 'lucide-react'
 import { TokenSelector } from './TokenSelector'
 import { SettingsModal } from './SettingsModal'
 import { SwapDetailsModal } from './SwapDetailsModal'
-import { tokens, type Token } from '@/config/tokens'
-import { getQuote, getTokenBalance, executeSwap, approveToken, getTokenAllowance, wrapBCX, unwrapWBCX, isWrapUnwrapOperation, checkPoolExists, checkPoolLiquidity, FEE_TIERS } from '@/lib/swap'
-import { formatBalance, formatPriceImpact, getPriceImpactColor } from '@/lib/utils'
+import { PriceMiniChart } from './PriceMiniChart'
+import {
+  tokens,
+  type Token,
+  getQuote,
+  getExactOutputQuote,
+  type SwapQuote,
+  type ExactOutputQuote,
+  type SwapParams,
+  type ExactOutputSwapParams,
+  type SwapSplitLeg,
+  getTokenBalance,
+  executeSwap,
+  executeExactOutputSwap,
+  approveToken,
+  getSwapApprovalSpender,
+  wrapBCX,
+  unwrapWBCX,
+  isWrapUnwrapOperation,
+  checkPoolExists,
+  checkPoolLiquidity,
+  simulateSwap,
+  simulateExactOutputSwap,
+  estimateSwapGas,
+  estimateExactOutputSwapGas,
+  estimateWrapGas,
+  FEE_TIERS,
+  type SimulationOutcome,
+  formatGasCost,
+  priceGasSteps,
+  type GasBreakdown,
+  getRouteSymbols,
+  type SwapRoute,
+  formatBalance,
+  formatPriceImpact,
+  getPriceImpactColor,
+} from '@/sdk'
 import { useTx } from "../context/tx"
+import { useNetworkGuard } from '@/hooks/useNetworkGuard'
 
 const DEFAULT_SLIPPAGE = 0.5
 const DEFAULT_DEADLINE = 20
 
+// The quote on screen with the parameters it was simulated for; the swap sends exactly these
+type PreviewedSwap = { key: string } & (
+  | { exactField: 'input'; params: SwapParams & { decimalsIn: number; decimalsOut: number }; quote: SwapQuote }
+  | { exactField: 'output'; params: ExactOutputSwapParams; quote: ExactOutputQuote }
+)
+
 export function SwapCard() {
   const { address, isConnected } = useAccount()
   const publicClient = usePublicClient()
   const { data: walletClient } = useWalletClient()
   const { addTx, addError } = useTx()
+  const { isWrongNetwork, networkName, isSwitching, switchNetwork } = useNetworkGuard()
 
   // State
   const [tokenIn, setTokenIn] = useState<Token | null>(tokens.BCX)
@@ -26,10 +69,18 @@ export function SwapCard() {
   const [amountIn, setAmountIn] = useState('')
   const [amountOut, setAmountOut] = useState('')
   const [priceImpact, setPriceImpact] = useState(0)
+  const [poolPriceChange, setPoolPriceChange] = useState<number | undefined>(undefined)
   const [minimumReceived, setMinimumReceived] = useState('')
+  const [maximumSold, setMaximumSold] = useState('')
+  // Which amount the user typed; the other side is quoted
+  const [exactField, setExactField] = useState<'input' | 'output'>('input')
   const [exchangeRate, setExchangeRate] = useState('')
   const [fee, setFee] = useState('0.05%')
-  const [selectedFeeTier, setSelectedFeeTier] = useState<number | null>(null)
+  const [route, setRoute] = useState<SwapRoute | null>(null)
+  const [split, setSplit] = useState<SwapSplitLeg[] | null>(null)
+  const [simulation, setSimulation] = useState<SimulationOutcome<string> | null>(null) // Pre-flight of the quoted swap
+  const [networkFee, setNetworkFee] = useState<GasBreakdown | null>(null) // Gas of every transaction the swap sends
+  const [previewedSwap, setPreviewedSwap] = useState<PreviewedSwap | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [isQuoteLoading, setIsQuoteLoading] = useState(false)
   const [showSettings, setShowSettings] = useState(false)
@@ -73,7 +124,7 @@ export function SwapCard() {
     } catch (error) {
       console.error('Error fetching balances:', error)
     }
-  }, [address, publicClient, tokenIn?.address, tokenIn?.symbol, tokenOut?.address, tokenOut?.symbol])
+  }, [address, publicClient, tokenIn?.address, tokenIn?.symbol, tokenIn?.decimals, tokenOut?.address, tokenOut?.symbol, tokenOut?.decimals])
 
   // Check pool status - check all fee tiers
   const checkPoolStatus = useCallback(async () => {
@@ -138,12 +189,22 @@ export function SwapCard() {
     }
   }, [tokenIn, tokenOut, publicClient])
 
+  // The amount the user typed drives the quote; the other side is derived
+  const typedAmount = exactField === 'input' ? amountIn : amountOut
+  // Identifies the inputs a quote was taken for, so a stale preview is never sent
+  const quoteKey = [exactField, typedAmount, tokenIn?.address, tokenOut?.address, slippage, deadline, address].join(':')
+  const preview = previewedSwap?.key === quoteKey ? previewedSwap : null
+
   // Get quote when amount changes
   useEffect(() => {
     const getQuoteData = async () => {
-      if (!amountIn || !tokenIn || !tokenOut || !publicClient) {
-        setAmountOut('')
+      if (!typedAmount || !tokenIn || !tokenOut || !publicClient) {
+        if (exactField === 'input') setAmountOut('')
+        else setAmountIn('')
         setPriceImpact(0)
+        setSimulation(null)
+        setNetworkFee(null)
+        setPreviewedSwap(null)
         return
       }
 
@@ -152,11 +213,21 @@ export function SwapCard() {
       
       if (wrapUnwrapType === 'wrap' || wrapUnwrapType === 'unwrap') {
         // For wrap/unwrap, output amount equals input amount (1:1)
-        setAmountOut(amountIn)
+        if (exactField === 'input') setAmountOut(typedAmount)
+        else setAmountIn(typedAmount)
         setPriceImpact(0)
-        setMinimumReceived(amountIn)
+        setPoolPriceChange(undefined)
+        setMinimumReceived(typedAmount)
+        setMaximumSold(typedAmount)
         setExchangeRate('1.00')
         setFee('0%')
+        setRoute(null)
+        setSplit(null)
+        setSimulation(null)
+        setPreviewedSwap(null)
+        setNetworkFee(address
+          ? await priceGasSteps(publicClient, estimateWrapGas(publicClient, address, wrapUnwrapType, typedAmount), FEE_TIERS)
+          : null)
         return
       }
 
@@ -166,31 +237,107 @@ export function SwapCard() {
         // Convert BCX to WBCX for quote (pools use WBCX, not BCX)
         const tokenInForQuote = tokenIn.symbol === 'BCX' ? 'BCX' : tokenIn.address
         const tokenOutForQuote = tokenOut.symbol === 'BCX' ? 'BCX' : tokenOut.address
+
+        if (exactField === 'output') {
+          const quote = await getExactOutputQuote(
+            publicClient,
+            tokenInForQuote,
+            tokenOutForQuote,
+            typedAmount,
+            slippage
+          )
+
+          setAmountIn(quote.amountIn)
+          setPriceImpact(quote.priceImpact)
+          setPoolPriceChange(quote.poolPriceChange)
+          setMinimumReceived(typedAmount)
+          setMaximumSold(quote.maximumSold)
+          setRoute(quote.route ?? null)
+          setSplit(null)
+
+          const rate = parseFloat(typedAmount) / parseFloat(quote.amountIn)
+          setExchangeRate(rate.toFixed(6))
+
+          const routeFees = quote.route?.fees ?? [quote.fee]
+          setFee(routeFees.map(f => `${(f / 10000).toFixed(2)}%`).join(' + '))
+
+          const exactOutputParams = address && {
+            tokenIn: tokenIn.address,
+            tokenOut: tokenOut.address,
+            amountOut: typedAmount,
+            slippage,
+            deadline,
+            recipient: address,
+            decimalsIn: tokenIn.decimals,
+            decimalsOut: tokenOut.decimals,
+          }
+          setPreviewedSwap(exactOutputParams ? { key: quoteKey, exactField: 'output', params: exactOutputParams, quote } : null)
+          setSimulation(exactOutputParams
+            ? await simulateExactOutputSwap(publicClient, exactOutputParams, quote).catch(() => null)
+            : null)
+          setNetworkFee(exactOutputParams
+            ? await priceGasSteps(publicClient, estimateExactOutputSwapGas(publicClient, exactOutputParams, quote), FEE_TIERS)
+            : null)
+          return
+        }
         
         const quote = await getQuote(
           publicClient,
           tokenInForQuote,
           tokenOutForQuote,
-          amountIn
+          typedAmount,
+          slippage
         )
         
         setAmountOut(quote.amountOut)
         setPriceImpact(quote.priceImpact)
+        setPoolPriceChange(quote.poolPriceChange)
         setMinimumReceived(quote.minimumReceived)
-        setSelectedFeeTier(quote.fee)
+        setMaximumSold('')
+        setRoute(quote.route ?? null)
+        setSplit(quote.split ?? null)
         
         // Calculate exchange rate
-        const rate = parseFloat(quote.amountOut) / parseFloat(amountIn)
+        const rate = parseFloat(quote.amountOut) / parseFloat(typedAmount)
         setExchangeRate(rate.toFixed(6))
         
-        // Display fee tier from quote
-        setFee(`${(quote.fee / 10000).toFixed(2)}%`)
+        // Display fee tier from quote (one tier per hop for multi-hop routes, per leg for splits)
+        const formatRouteFees = (fees: number[]) => fees.map(f => `${(f / 10000).toFixed(2)}%`).join(' + ')
+        setFee(quote.split
+          ? quote.split.map(leg => formatRouteFees(leg.route.fees)).join(' / ')
+          : formatRouteFees(quote.route?.fees ?? [quote.fee]))
+
+        // Run the exact router call the swap will send, once the quote is on screen
+        const swapParams = address && {
+          tokenIn: tokenIn.address,
+          tokenOut: tokenOut.address,
+          amountIn: typedAmount,
+          slippage,
+          deadline,
+          recipient: address,
+          decimalsIn: tokenIn.decimals,
+          decimalsOut: tokenOut.decimals,
+        }
+        setPreviewedSwap(swapParams ? { key: quoteKey, exactField: 'input', params: swapParams, quote } : null)
+        setSimulation(swapParams
+          ? await simulateSwap(publicClient, swapParams, quote).catch(() => null)
+          : null)
+        setNetworkFee(swapParams
+          ? await priceGasSteps(publicClient, estimateSwapGas(publicClient, swapParams, quote), FEE_TIERS)
+          : null)
       } catch (err) {
         addError({ title: 'Failed to Get Quote', message: 'Failed to get swap quote. Please try again.' })
-        setAmountOut('')
+        if (exactField === 'input') setAmountOut('')
+        else setAmountIn('')
         setPriceImpact(0)
+        setPoolPriceChange(undefined)
         setMinimumReceived('')
         setExchangeRate('')
+        setRoute(null)
+        setSplit(null)
+        setSimulation(null)
+        setNetworkFee(null)
+        setPreviewedSwap(null)
       } finally {
         setIsQuoteLoading(false)
       }
@@ -198,7 +345,7 @@ export function SwapCard() {
 
     const timeoutId = setTimeout(getQuoteData, 500)
     return () => clearTimeout(timeoutId)
-  }, [amountIn, tokenIn, tokenOut, publicClient])
+  }, [quoteKey, typedAmount, exactField, slippage, deadline, tokenIn, tokenOut, publicClient, address, addError])
 
   // Fetch balances when tokens change
   useEffect(() => {
@@ -210,15 +357,32 @@ export function SwapCard() {
     checkPoolStatus()
   }, [checkPoolStatus])
 
+  const handleAmountInChange = (value: string) => {
+    setExactField('input')
+    setAmountIn(value)
+  }
+
+  const handleAmountOutChange = (value: string) => {
+    setExactField('output')
+    setAmountOut(value)
+  }
+
   const handleSwapTokens = () => {
     setTokenIn(tokenOut)
     setTokenOut(tokenIn)
-    setAmountIn(amountOut)
-    setAmountOut('')
+    if (exactField === 'input') {
+      setExactField('output')
+      setAmountOut(amountIn)
+      setAmountIn('')
+    } else {
+      setExactField('input')
+      setAmountIn(amountOut)
+      setAmountOut('')
+    }
   }
 
   const handleMaxClick = () => {
-    setAmountIn(tokenInBalance)
+    handleAmountInChange(tokenInBalance)
   }
 
   const handlePercentageClick = (percentage: number) => {
@@ -226,7 +390,7 @@ export function SwapCard() {
     if (isNaN(balance) || balance <= 0) return
     
     const amount = (balance * percentage / 100).toString()
-    setAmountIn(amount)
+    handleAmountInChange(amount)
   }
 
   const handleSwap = async () => {
@@ -235,7 +399,9 @@ export function SwapCard() {
       return
     }
 
-    if (!amountIn || parseFloat(amountIn) <= 0) {
+    const isExactOutput = exactField === 'output'
+
+    if (!amountIn || parseFloat(amountIn) <= 0 || (isExactOutput && (!amountOut || parseFloat(amountOut) <= 0))) {
       addError({ title: 'Invalid Amount', message: 'Please enter a valid amount' })
       return
     }
@@ -248,7 +414,7 @@ export function SwapCard() {
       
       if (wrapUnwrapType === 'wrap') {
         // Wrap BCX to WBCX
-        const wrapHash = await wrapBCX(walletClient, amountIn)
+        const wrapHash = await wrapBCX(walletClient, publicClient, amountIn)
         if (wrapHash) {
           addTx({ hash: wrapHash, title: 'BCX Wrapped' })
         }
@@ -263,7 +429,7 @@ export function SwapCard() {
       
       if (wrapUnwrapType === 'unwrap') {
         // Unwrap WBCX to BCX
-        const unwrapHash = await unwrapWBCX(walletClient, amountIn)
+        const unwrapHash = await unwrapWBCX(walletClient, publicClient, amountIn)
          if (unwrapHash) {
           addTx({ hash: unwrapHash, title: 'BCX Unwrapped' })
         }
@@ -276,15 +442,28 @@ export function SwapCard() {
         return
       }
 
-      // Regular swap operation
+      // Regular swap operation, only for the quote on screen
+      if (!preview) {
+        addError({ title: 'Quote Changed', message: 'The quote is being updated. Please review it and try again.' })
+        return
+      }
+
       // Check if token approval is needed
       if (tokenIn.address !== '0x0000000000000000000000000000000000000000') {
-        const allowance = await getTokenAllowance(publicClient, tokenIn.address, address, tokenIn.decimals)
-        const amountInWei = parseFloat(amountIn)
-        
-        if (parseFloat(allowance) < amountInWei) {
+        // Exact-output swaps may spend up to the slippage-adjusted maximum
+        const amountToApprove = preview.exactField === 'output' ? preview.quote.maximumSold : preview.params.amountIn
+
+        // Tokens with permit are approved by a signature bundled into the swap; with Permit2,
+        // only Permit2 itself is approved and the swap carries a signature
+        const spender = await getSwapApprovalSpender(
+          publicClient,
+          tokenIn.address as Address,
+          address,
+          parseUnits(amountToApprove, tokenIn.decimals)
+        )
+        if (spender) {
           // Approve token
-          const approveHash = await approveToken(walletClient, tokenIn.address, amountIn, tokenIn.decimals)
+          const approveHash = await approveToken(walletClient, publicClient, tokenIn.address, amountToApprove, tokenIn.decimals, spender)
           if (approveHash) {
             addTx({ hash: approveHash, title: `Approved ${tokenIn.symbol}` })
           }
@@ -292,18 +471,10 @@ export function SwapCard() {
         }
       }
 
-      // Execute swap
-      const swapHash = await executeSwap(walletClient, publicClient, {
-        tokenIn: tokenIn.address,
-        tokenOut: tokenOut.address,
-        amountIn,
-        slippage,
-        deadline,
-        recipient: address,
-        decimalsIn: tokenIn.decimals,
-        decimalsOut: tokenOut.decimals,
-        fee: selectedFeeTier || undefined, // Use the fee tier from the quote
-      })
+      // Execute exactly the quote and parameters that were previewed
+      const swapHash = preview.exactField === 'output'
+        ? await executeExactOutputSwap(walletClient, publicClient, preview.params, preview.quote)
+        : await executeSwap(walletClient, publicClient, preview.params, preview.quote)
       
       if (swapHash) {
         addTx({ hash: swapHash, title: `Swapped ${tokenIn.symbol} → ${tokenOut.symbol}` })
@@ -318,14 +489,17 @@ export function SwapCard() {
       fetchBalances()
       
     } catch (err: any) {
-      addError({ title: 'Swap Failed', message: err.message || 'Operation failed' })
+      addError({ title: 'Swap Failed', cause: err })
     } finally {
       setIsLoading(false)
     }
   }
 
   const wrapUnwrapType = isWrapUnwrapOperation(tokenIn, tokenOut)
+  // A multi-hop route means the pair is swappable even without a direct pool
+  const isRouted = !!route && route.fees.length > 1
   const canSwap = isConnected && amountIn && amountOut && !isLoading && !isQuoteLoading
+    && (!!wrapUnwrapType || !!preview) && simulation?.status !== 'reverted'
 
   return (
     <div className="w-full max-w-lg mx-auto glass-card">
@@ -352,14 +526,21 @@ export function SwapCard() {
           <div className="flex items-start gap-3">
             {/* Large Input Field */}
             <div className="flex-1 min-w-0">
+              {isQuoteLoading && exactField === 'output' ? (
+                <div className="flex items-center gap-2 mb-1">
+                  <Loader2 className="w-4 h-4 animate-spin text-white/50" />
+                  <span className="text-2xl font-medium text-white/50">Calculating...</span>
+                </div>
+              ) : (
               <input
                 type="number"
                 value={amountIn}
-                onChange={(e) => setAmountIn(e.target.value)}
+                onChange={(e) => handleAmountInChange(e.target.value)}
                 placeholder="0.0"
                 className="w-full text-2xl font-medium bg-transparent border-none outline-none text-white placeholder:text-white/40 mb-1"
                 disabled={isLoading}
               />
+              )}
               <div className="flex items-center gap-2">
                 <span className="text-sm text-white/50">$0</span>
                 {/* Compact Percentage Buttons */}
@@ -430,15 +611,20 @@ export function SwapCard() {
           <div className="flex items-start gap-3">
             {/* Large Input Field */}
             <div className="flex-1 min-w-0">
-              {isQuoteLoading ? (
+              {isQuoteLoading && exactField === 'input' ? (
                 <div className="flex items-center gap-2 mb-1">
                   <Loader2 className="w-4 h-4 animate-spin text-white/50" />
                   <span className="text-2xl font-medium text-white/50">Calculating...</span>
                 </div>
               ) : (
-                <div className="text-2xl font-medium text-white mb-1">
-                  {amountOut ? formatBalance(amountOut) : '0.0'}
-                </div>
+                <input
+                  type="number"
+                  value={amountOut}
+                  onChange={(e) => handleAmountOutChange(e.target.value)}
+                  placeholder="0.0"
+                  className="w-full text-2xl font-medium bg-transparent border-none outline-none text-white placeholder:text-white/40 mb-1"
+                  disabled={isLoading}
+                />
               )}
               <div>
                 <span className="text-sm text-white/50">$0</span>
@@ -458,6 +644,11 @@ export function SwapCard() {
           </div>
         </div>
 
+        {/* Price History */}
+        {tokenIn && tokenOut && !wrapUnwrapType && (
+          <PriceMiniChart tokenIn={tokenIn} tokenOut={tokenOut} />
+        )}
+
         {/* Pool Status Indicator */}
         {poolStatus && (
           <div className="text-sm">
@@ -478,7 +669,17 @@ export function SwapCard() {
               </div>
             )}
             
-            {poolStatus === 'no-liquidity' && (
+            {isRouted && poolStatus !== 'checking' && poolStatus !== 'exists' && (
+              <div className="flex items-center gap-2 text-green-400 bg-green-500/10 p-3 rounded-xl border border-green-500/20 glass-card">
+                <CheckCircle className="w-5 h-5 text-green-400" />
+                <div className="flex-1">
+                  <div className="font-medium text-white">Routed through {getRouteSymbols(route).slice(1, -1).join(' → ')}</div>
+                  <div className="text-xs text-green-400 mt-1">No direct pool, swapping via {route.fees.length} hops</div>
+                </div>
+              </div>
+            )}
+
+            {poolStatus === 'no-liquidity' && !isRouted && (
               <div className="flex items-center gap-2 text-orange-400 bg-orange-500/10 p-3 rounded-xl border border-orange-500/20 glass-card">
                 <AlertTriangle className="w-5 h-5 text-orange-400" />
                 <div className="flex-1">
@@ -490,7 +691,7 @@ export function SwapCard() {
               </div>
             )}
             
-            {poolStatus === 'not-exists' && (
+            {poolStatus === 'not-exists' && !isRouted && (
               <div className="flex items-center gap-2 text-red-400 bg-red-500/10 p-3 rounded-xl border border-red-500/20 glass-card">
                 <XCircle className="w-5 h-5 text-red-400" />
                 <div className="flex-1">
@@ -518,10 +719,42 @@ export function SwapCard() {
             </button>
           )}
 
+          {/* Simulated Outcome */}
+          {simulation && !wrapUnwrapType && amountIn && amountOut && tokenIn && tokenOut && (
+            simulation.status === 'success' ? (
+              <div className="flex items-center gap-2 text-xs text-green-400 px-1">
+                <CheckCircle className="w-4 h-4" />
+                <span>
+                  Simulated: {exactField === 'output'
+                    ? `you pay ${formatBalance(simulation.result)} ${tokenIn.symbol}`
+                    : `you receive ${formatBalance(simulation.result)} ${tokenOut.symbol}`}
+                </span>
+              </div>
+            ) : simulation.status === 'reverted' ? (
+              <div className="flex items-start gap-2 text-red-400 bg-red-500/10 p-3 rounded-xl border border-red-500/20 glass-card">
+                <XCircle className="w-5 h-5 text-red-400 shrink-0" />
+                <div className="flex-1">
+                  <div className="font-medium text-white text-sm">This swap would fail</div>
+                  <div className="text-xs text-red-400 mt-1">{simulation.message}</div>
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs text-white/50 px-1">{simulation.message}</div>
+            )
+          )}
+
+          {/* Network Fee */}
+          {networkFee && amountIn && amountOut && (
+            <div className="flex justify-between items-center text-xs text-white/60 px-1">
+              <span>Network fee{networkFee.steps.length > 1 ? ` (${networkFee.steps.length} transactions)` : ''}</span>
+              <span>≈ {formatGasCost(networkFee.total)}</span>
+            </div>
+          )}
+
           {/* Swap Button */}
           <button
-            onClick={handleSwap}
-            disabled={!canSwap}
+            onClick={isWrongNetwork ? switchNetwork : handleSwap}
+            disabled={isWrongNetwork ? isSwitching : !canSwap}
             className="w-full py-3 px-4 glass-button-primary disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {isLoading ? (
@@ -532,12 +765,16 @@ export function SwapCard() {
               </div>
             ) : !isConnected ? (
               'Connect Wallet'
+            ) : isWrongNetwork ? (
+              `Switch to ${networkName}`
             ) : !amountIn ? (
               'Enter Amount'
             ) : wrapUnwrapType === 'wrap' ? (
               'Wrap BCX'
             ) : wrapUnwrapType === 'unwrap' ? (
               'Unwrap WBCX'
+            ) : simulation?.status === 'reverted' ? (
+              'Swap Would Fail'
             ) : (
               'Swap'
             )}
@@ -545,7 +782,7 @@ export function SwapCard() {
         </div>
 
         {/* Create Pool Button - Show when no pool exists */}
-        {poolStatus === 'not-exists' && isConnected && (
+        {poolStatus === 'not-exists' && !isRouted && isConnected && (
           <button
             onClick={() => {
               const params = new URLSearchParams({
@@ -565,7 +802,7 @@ export function SwapCard() {
         )}
 
         {/* Add Liquidity Button - Show when pool exists but no liquidity */}
-        {poolStatus === 'no-liquidity' && isConnected && (
+        {poolStatus === 'no-liquidity' && !isRouted && isConnected && (
           <button
             onClick={() => {
               const params = new URLSearchParams({
@@ -604,11 +841,17 @@ export function SwapCard() {
         amountIn={amountIn}
         amountOut={amountOut}
         priceImpact={priceImpact}
+        poolPriceChange={poolPriceChange}
         slippage={slippage}
         minimumReceived={minimumReceived}
+        maximumSold={exactField === 'output' ? maximumSold : undefined}
         exchangeRate={exchangeRate}
         fee={fee}
+        route={route}
+        split={split}
         isLoading={isQuoteLoading}
+        simulation={wrapUnwrapType ? null : simulation}
+        networkFee={networkFee}
       />
     </div>
   )
@@ -2,8 +2,18 @@
 
 import React from 'react'
 import { X, ArrowRight, AlertTriangle, Info } from 'lucide-react'
-import { formatBalance, formatPriceImpact, getPriceImpactColor } from '@/lib/utils'
-import { type Token } from '@/config/tokens'
+import {
+  formatBalance,
+  formatPriceImpact,
+  getPriceImpactColor,
+  type Token,
+  getRouteSymbols,
+  type SwapRoute,
+  type SwapSplitLeg,
+  type SimulationOutcome,
+  formatGasCost,
+  type GasBreakdown,
+} from '@/sdk'
 
 interface SwapDetailsModalProps {
   isOpen: boolean
@@ -13,11 +23,17 @@ interface SwapDetailsModalProps {
   amountIn: string
   amountOut: string
   priceImpact: number
+  poolPriceChange?: number
   slippage: number
   minimumReceived: string
+  maximumSold?: string // Set for exact-output swaps
   exchangeRate: string
   fee: string
+  route?: SwapRoute | null
+  split?: SwapSplitLeg[] | null
   isLoading?: boolean
+  simulation?: SimulationOutcome<string> | null // Amount out, or amount in for exact-output swaps
+  networkFee?: GasBreakdown | null
 }
 
 export function SwapDetailsModal({
@@ -28,11 +44,17 @@ export function SwapDetailsModal({
   amountIn,
   amountOut,
   priceImpact,
+  poolPriceChange,
   slippage,
   minimumReceived,
+  maximumSold,
   exchangeRate,
   fee,
-  isLoading = false
+  route,
+  split,
+  isLoading = false,
+  simulation,
+  networkFee,
 }: SwapDetailsModalProps) {
   if (!isOpen) return null
 
@@ -43,6 +65,27 @@ export function SwapDetailsModal({
     return null
   }
 
+  // Show the selected tokens at the ends of the route (BCX instead of WBCX)
+  const getDisplaySymbols = (r: SwapRoute) => {
+    const symbols = getRouteSymbols(r)
+    symbols[0] = tokenIn.symbol
+    symbols[symbols.length - 1] = tokenOut.symbol
+    return symbols
+  }
+
+  const renderRoute = (r: SwapRoute) => getDisplaySymbols(r).map((symbol, i) => (
+    <React.Fragment key={i}>
+      {i > 0 && (
+        <span className="flex items-center gap-1 text-white/50">
+          <ArrowRight className="w-3 h-3" />
+          <span className="text-xs">{(r.fees[i - 1] / 10000).toFixed(2)}%</span>
+          <ArrowRight className="w-3 h-3" />
+        </span>
+      )}
+      <span>{symbol}</span>
+    </React.Fragment>
+  ))
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       {/* Backdrop */}
@@ -126,6 +169,31 @@ export function SwapDetailsModal({
                   </span>
                 </div>
 
+                {/* Route */}
+                {split && split.length > 1 ? (
+                  <div className="py-2 space-y-2">
+                    <span className="text-sm text-white/70">Split Route</span>
+                    {split.map((leg, i) => (
+                      <div key={i} className="flex justify-between items-center gap-4 glass-card rounded-lg px-3 py-2 border border-white/10">
+                        <span className="text-xs font-medium text-white/70 shrink-0">{leg.percent}%</span>
+                        <span className="text-sm font-medium text-white text-right flex flex-wrap items-center justify-end gap-1">
+                          {renderRoute(leg.route)}
+                        </span>
+                        <span className="text-xs text-white/60 shrink-0">
+                          {formatBalance(leg.amountOut)} {tokenOut.symbol}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : route && (
+                  <div className="flex justify-between items-start py-2 gap-4">
+                    <span className="text-sm text-white/70">Route</span>
+                    <span className="text-sm font-medium text-white text-right flex flex-wrap items-center justify-end gap-1">
+                      {renderRoute(route)}
+                    </span>
+                  </div>
+                )}
+
                 {/* Price Impact */}
                 <div className="flex justify-between items-center py-2">
                   <span className="text-sm text-white/70">Price Impact</span>
@@ -137,13 +205,42 @@ export function SwapDetailsModal({
                   </span>
                 </div>
 
-                {/* Minimum Received */}
-                <div className="flex justify-between items-center py-2">
-                  <span className="text-sm text-white/70">Minimum Received</span>
-                  <span className="text-sm font-medium text-white">
-                    {formatBalance(minimumReceived)} {tokenOut.symbol}
-                  </span>
-                </div>
+                {/* Pool price movement after the swap */}
+                {poolPriceChange !== undefined && (
+                  <div className="flex justify-between items-center py-2">
+                    <span className="text-sm text-white/70">Pool Price Change</span>
+                    <span className={`text-sm font-medium ${getPriceImpactColor(poolPriceChange)}`}>
+                      {formatPriceImpact(poolPriceChange)}
+                    </span>
+                  </div>
+                )}
+
+                {/* Minimum Received / Maximum Sold */}
+                {maximumSold ? (
+                  <div className="flex justify-between items-center py-2">
+                    <span className="text-sm text-white/70">Maximum Sold</span>
+                    <span className="text-sm font-medium text-white">
+                      {formatBalance(maximumSold)} {tokenIn.symbol}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="flex justify-between items-center py-2">
+                    <span className="text-sm text-white/70">Minimum Received</span>
+                    <span className="text-sm font-medium text-white">
+                      {formatBalance(minimumReceived)} {tokenOut.symbol}
+                    </span>
+                  </div>
+                )}
+
+                {/* Simulated Outcome */}
+                {simulation?.status === 'success' && (
+                  <div className="flex justify-between items-center py-2">
+                    <span className="text-sm text-white/70">{maximumSold ? 'Simulated Input' : 'Simulated Output'}</span>
+                    <span className="text-sm font-medium text-green-400">
+                      {formatBalance(simulation.result)} {maximumSold ? tokenIn.symbol : tokenOut.symbol}
+                    </span>
+                  </div>
+                )}
 
                 {/* Fee */}
                 <div className="flex justify-between items-center py-2">
@@ -151,6 +248,22 @@ export function SwapDetailsModal({
                   <span className="text-sm font-medium text-white">{fee}</span>
                 </div>
 
+                {/* Network Fee, per transaction when the swap needs several */}
+                {networkFee && (
+                  <div className="py-2 space-y-1">
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm text-white/70">Network Fee</span>
+                      <span className="text-sm font-medium text-white">≈ {formatGasCost(networkFee.total)}</span>
+                    </div>
+                    {networkFee.steps.length > 1 && networkFee.steps.map((step, i) => (
+                      <div key={i} className="flex justify-between items-center pl-3 text-xs text-white/50">
+                        <span>{step.label}{!step.estimated && ' (typical)'}</span>
+                        <span>{formatGasCost(step)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Slippage */}
                 <div className="flex justify-between items-center py-2">
                   <span className="text-sm text-white/70">Slippage Tolerance</span>
@@ -159,6 +272,16 @@ export function SwapDetailsModal({
               </div>
 
               {/* Warnings */}
+              {simulation?.status === 'reverted' && (
+                <div className="flex items-start gap-3 p-4 glass-card border border-red-500/30 rounded-xl">
+                  <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5 shrink-0" />
+                  <div className="flex-1">
+                    <p className="font-medium text-red-400 mb-1">Swap Would Fail</p>
+                    <p className="text-sm text-red-300">{simulation.message}</p>
+                  </div>
+                </div>
+              )}
+
               {isHighImpact && (
                 <div className="flex items-start gap-3 p-4 glass-card border border-red-500/30 rounded-xl">
                   <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5 shrink-0" />
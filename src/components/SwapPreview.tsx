@@ -2,8 +2,15 @@
 
 import React from 'react'
 import { ArrowRight, AlertTriangle, Info } from 'lucide-react'
-import { formatBalance, formatPriceImpact, getPriceImpactColor } from '@/lib/utils'
-import { type Token } from '@/config/tokens'
+import {
+  formatBalance,
+  formatPriceImpact,
+  getPriceImpactColor,
+  type Token,
+  type SimulationOutcome,
+  formatGasCost,
+  type GasBreakdown,
+} from '@/sdk'
 
 interface SwapPreviewProps {
   tokenIn: Token | null
@@ -16,6 +23,8 @@ interface SwapPreviewProps {
   exchangeRate: string
   fee: string
   isLoading?: boolean
+  simulation?: SimulationOutcome<string> | null // Simulated amount out
+  networkFee?: GasBreakdown | null
 }
 
 export function SwapPreview({
@@ -28,7 +37,9 @@ export function SwapPreview({
   minimumReceived,
   exchangeRate,
   fee,
-  isLoading = false
+  isLoading = false,
+  simulation,
+  networkFee,
 }: SwapPreviewProps) {
   if (!tokenIn || !tokenOut || !amountIn || !amountOut) {
     return null
@@ -99,12 +110,38 @@ export function SwapPreview({
         </span>
       </div>
 
+      {/* Simulated Output */}
+      {simulation?.status === 'success' && (
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-600">Simulated Output:</span>
+          <span className="font-medium text-green-700">
+            {formatBalance(simulation.result)} {tokenOut.symbol}
+          </span>
+        </div>
+      )}
+
       {/* Fee */}
       <div className="flex justify-between text-sm">
         <span className="text-gray-600">Trading Fee:</span>
         <span className="font-medium text-gray-900">{fee}</span>
       </div>
 
+      {/* Network Fee */}
+      {networkFee && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Network Fee:</span>
+            <span className="font-medium text-gray-900">≈ {formatGasCost(networkFee.total)}</span>
+          </div>
+          {networkFee.steps.length > 1 && networkFee.steps.map((step, i) => (
+            <div key={i} className="flex justify-between text-xs text-gray-500 pl-3">
+              <span>{step.label}{!step.estimated && ' (typical)'}</span>
+              <span>{formatGasCost(step)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Slippage */}
       <div className="flex justify-between text-sm">
         <span className="text-gray-600">Slippage Tolerance:</span>
@@ -112,6 +149,16 @@ export function SwapPreview({
       </div>
 
       {/* Warnings */}
+      {simulation?.status === 'reverted' && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-red-500 mt-0.5 shrink-0" />
+          <div className="text-sm">
+            <p className="font-medium text-red-800">Swap Would Fail</p>
+            <p className="text-red-700">{simulation.message}</p>
+          </div>
+        </div>
+      )}
+
       {isHighImpact && (
         <div className="flex items-start gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
           <AlertTriangle className="w-4 h-4 text-red-500 mt-0.5 shrink-0" />
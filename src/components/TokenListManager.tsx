@@ -0,0 +1,229 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { AlertCircle, FileUp, Link2, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import {
+  acceptTokenListUpdate,
+  addTokenListSource,
+  diffTokenLists,
+  fetchTokenList,
+  formatTokenListVersion,
+  getActiveNetwork,
+  isDefaultTokenList,
+  readTokenListFile,
+  refreshTokenListSource,
+  type TokenListDiff,
+  type TokenListSource,
+} from '@/sdk'
+
+interface TokenListManagerProps {
+  sources: TokenListSource[]
+  onChange: (sources: TokenListSource[]) => void
+  isSyncing: boolean
+}
+
+function DiffSummary({ diff }: { diff: TokenListDiff }) {
+  return (
+    <span>
+      <span className="text-green-400">+{diff.added.length}</span>{' '}
+      <span className="text-red-400">−{diff.removed.length}</span>{' '}
+      <span className="text-yellow-400">~{diff.changed.length}</span>
+    </span>
+  )
+}
+
+/**
+ * Add token lists by URL or file and turn them on and off
+ */
+export function TokenListManager({ sources, onChange, isSyncing }: TokenListManagerProps) {
+  const [listUrl, setListUrl] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [refreshing, setRefreshing] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const chainId = getActiveNetwork().chain.id
+  const busy = isSyncing || isAdding || refreshing !== null
+
+  const updateSource = (id: string, update: (source: TokenListSource) => TokenListSource) => {
+    onChange(sources.map(source => (source.id === id ? update(source) : source)))
+  }
+
+  const handleAddUrl = async () => {
+    const url = listUrl.trim()
+    if (!url) return
+    setIsAdding(true)
+    setError('')
+    try {
+      onChange(addTokenListSource(sources, url, await fetchTokenList(url)))
+      setListUrl('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load token list')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+    setIsAdding(true)
+    setError('')
+    try {
+      onChange(addTokenListSource(sources, `file:${file.name}`, await readTokenListFile(file)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read token list')
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const handleRefresh = async (source: TokenListSource) => {
+    setRefreshing(source.id)
+    try {
+      const refreshed = await refreshTokenListSource(source)
+      updateSource(source.id, () => refreshed)
+    } finally {
+      setRefreshing(null)
+    }
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div>
+        <h3 className="text-sm font-medium text-white/90 mb-2">Token lists</h3>
+        <p className="text-xs text-white/60">
+          Add lists in the Uniswap token list format. Tokens from enabled lists on this network appear in the selector.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="https://.../tokenlist.json"
+          value={listUrl}
+          onChange={(e) => {
+            setListUrl(e.target.value)
+            setError('')
+          }}
+          className="glass-input flex-1 px-3 py-2 text-sm text-white"
+        />
+        <button
+          onClick={handleAddUrl}
+          disabled={!listUrl.trim() || busy}
+          className="glass-button-primary px-3 py-2 text-sm flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Add list from URL"
+        >
+          {isAdding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+          Add
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={busy}
+          className="glass-button px-3 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Load list from file"
+        >
+          <FileUp className="w-4 h-4" />
+        </button>
+        <input ref={fileInput} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span className="break-all">{error}</span>
+        </div>
+      )}
+
+      {isSyncing && (
+        <div className="flex items-center gap-2 text-xs text-white/60">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Checking lists for updates...
+        </div>
+      )}
+
+      {sources.length === 0 ? (
+        <p className="text-center py-6 text-sm text-white/50">No token lists added</p>
+      ) : (
+        <div className="space-y-2">
+          {sources.map(source => {
+            const { list } = source
+            const onChain = list.tokens.filter(token => token.chainId === chainId).length
+            const pendingDiff = source.pending ? diffTokenLists(list, source.pending) : null
+            return (
+              <div key={source.id} className="p-3 rounded-xl border border-white/10 bg-white/5 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium text-white truncate">{list.name}</span>
+                      <span className="text-xs text-white/50">{formatTokenListVersion(list.version)}</span>
+                    </div>
+                    <div className="text-xs text-white/50 truncate" title={source.id}>
+                      {source.id.startsWith('file:') ? `File: ${source.id.slice(5)}` : source.id}
+                    </div>
+                    <div className="text-xs text-white/60">
+                      {onChain} of {list.tokens.length} tokens on this network
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {!source.id.startsWith('file:') && (
+                      <button
+                        onClick={() => handleRefresh(source)}
+                        disabled={busy}
+                        className="p-1.5 rounded-lg hover:bg-white/10 disabled:opacity-50"
+                        title="Check for updates"
+                      >
+                        <RefreshCw className={`w-4 h-4 text-white/70 ${refreshing === source.id ? 'animate-spin' : ''}`} />
+                      </button>
+                    )}
+                    {!isDefaultTokenList(source.id) && (
+                      <button
+                        onClick={() => onChange(sources.filter(s => s.id !== source.id))}
+                        disabled={busy}
+                        className="p-1.5 rounded-lg hover:bg-white/10 disabled:opacity-50"
+                        title="Remove list"
+                      >
+                        <Trash2 className="w-4 h-4 text-white/70" />
+                      </button>
+                    )}
+                    <label className="flex items-center ml-1 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={source.enabled}
+                        disabled={busy}
+                        onChange={(e) => updateSource(source.id, s => ({ ...s, enabled: e.target.checked }))}
+                        className="w-4 h-4 accent-blue-500"
+                      />
+                    </label>
+                  </div>
+                </div>
+
+                {source.pending && pendingDiff && (
+                  <div className="flex items-center justify-between gap-2 text-xs text-yellow-300">
+                    <span>
+                      Major update to {formatTokenListVersion(source.pending.version)}: <DiffSummary diff={pendingDiff} />
+                    </span>
+                    <button
+                      onClick={() => updateSource(source.id, acceptTokenListUpdate)}
+                      disabled={busy}
+                      className="underline hover:text-yellow-200 disabled:opacity-50"
+                    >
+                      Accept
+                    </button>
+                  </div>
+                )}
+                {source.lastUpdate && !source.pending && (
+                  <div className="text-xs text-white/50">
+                    Updated from {formatTokenListVersion(source.lastUpdate.from)}: <DiffSummary diff={source.lastUpdate.diff} />
+                  </div>
+                )}
+                {source.error && <div className="text-xs text-red-400 break-all">{source.error}</div>}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,10 +3,22 @@
 import React, { useState, useEffect, useMemo } from 'react'
 import { useAccount, usePublicClient } from 'wagmi'
 import { X, Search, Wallet, TrendingUp, Clock, Import, CheckCircle2, AlertCircle } from 'lucide-react'
-import { tokenList, type Token } from '@/config/tokens'
-import { getTokenBalance } from '@/lib/swap'
-import { formatBalance } from '@/lib/utils'
+import {
+  tokenList,
+  type Token,
+  type ListedToken,
+  type TokenListSource,
+  getTokenBalance,
+  formatBalance,
+  getImportedTokensStorageKey,
+  getActiveNetwork,
+  getListedTokens,
+  loadTokenListSources,
+  saveTokenListSources,
+  syncTokenListSources,
+} from '@/sdk'
 import { parseUnits, formatUnits } from 'viem'
+import { TokenListManager } from './TokenListManager'
 
 const ERC20_ABI = [
   {
@@ -70,11 +82,13 @@ export function TokenSelectModal({
   const [importedTokens, setImportedTokens] = useState<ImportedToken[]>([])
   const [tokenBalances, setTokenBalances] = useState<Record<string, string>>({})
   const [loadingBalances, setLoadingBalances] = useState(false)
-  const [activeTab, setActiveTab] = useState<'select' | 'import'>('select')
+  const [activeTab, setActiveTab] = useState<'select' | 'import' | 'lists'>('select')
+  const [listSources, setListSources] = useState<TokenListSource[]>(() => loadTokenListSources())
+  const [syncingLists, setSyncingLists] = useState(false)
 
   // Load imported tokens from localStorage
   useEffect(() => {
-    const saved = localStorage.getItem('importedTokens')
+    const saved = localStorage.getItem(getImportedTokensStorageKey())
     if (saved) {
       try {
         const tokens = JSON.parse(saved)
@@ -85,6 +99,43 @@ export function TokenSelectModal({
     }
   }, [])
 
+  // Add default lists and pick up list updates whenever the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+
+    async function syncLists() {
+      setSyncingLists(true)
+      try {
+        const synced = await syncTokenListSources(loadTokenListSources())
+        if (cancelled) return
+        saveTokenListSources(synced)
+        setListSources(synced)
+      } catch (e) {
+        console.error('Error syncing token lists:', e)
+      } finally {
+        if (!cancelled) setSyncingLists(false)
+      }
+    }
+
+    syncLists()
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen])
+
+  const updateListSources = (sources: TokenListSource[]) => {
+    setListSources(sources)
+    saveTokenListSources(sources)
+  }
+
+  // Tokens from enabled lists that aren't configured already
+  const listedTokens = useMemo(() => {
+    return getListedTokens(listSources, getActiveNetwork().chain.id).filter(
+      token => !tokenList.some(t => t.address.toLowerCase() === token.address.toLowerCase())
+    )
+  }, [listSources])
+
   // Load token balances
   useEffect(() => {
     if (isOpen && isConnected && address && publicClient) {
@@ -98,7 +149,7 @@ export function TokenSelectModal({
     setLoadingBalances(true)
     const balances: Record<string, string> = {}
     
-    const allTokens = [...tokenList, ...importedTokens]
+    const allTokens = [...tokenList, ...listedTokens, ...importedTokens]
     
     for (const token of allTokens) {
       try {
@@ -125,7 +176,7 @@ export function TokenSelectModal({
     }
 
     // Check if token is already in the list
-    const existingToken = [...tokenList, ...importedTokens].find(
+    const existingToken = [...tokenList, ...listedTokens, ...importedTokens].find(
       t => t.address.toLowerCase() === tokenAddress
     )
     
@@ -167,7 +218,7 @@ export function TokenSelectModal({
 
       const updated = [...importedTokens, newToken]
       setImportedTokens(updated)
-      localStorage.setItem('importedTokens', JSON.stringify(updated))
+      localStorage.setItem(getImportedTokensStorageKey(), JSON.stringify(updated))
       
       setImportAddress('')
       setActiveTab('select')
@@ -196,15 +247,15 @@ export function TokenSelectModal({
   }, [])
 
   const userTokens = useMemo(() => {
-    const allTokens = [...tokenList, ...importedTokens]
+    const allTokens = [...tokenList, ...listedTokens, ...importedTokens]
     return allTokens.filter(token => {
       const balance = tokenBalances[token.address]
       return balance && parseFloat(balance) > 0
     })
-  }, [tokenBalances, importedTokens])
+  }, [tokenBalances, listedTokens, importedTokens])
 
   const filteredTokens = useMemo(() => {
-    const allTokens = [...tokenList, ...importedTokens]
+    const allTokens = [...tokenList, ...listedTokens, ...importedTokens]
     
     return allTokens.filter(token => {
       // Exclude BCX if requested
@@ -225,7 +276,7 @@ export function TokenSelectModal({
       
       return true
     })
-  }, [searchTerm, excludeTokens, excludeBCX, importedTokens])
+  }, [searchTerm, excludeTokens, excludeBCX, listedTokens, importedTokens])
 
   const handleTokenSelect = (token: Token) => {
     onTokenSelect(token)
@@ -278,6 +329,16 @@ export function TokenSelectModal({
           >
             Import
           </button>
+          <button
+            onClick={() => setActiveTab('lists')}
+            className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+              activeTab === 'lists'
+                ? 'text-white border-b-2 border-white/30 bg-white/5'
+                : 'text-white/60 hover:text-white hover:bg-white/5'
+            }`}
+          >
+            Lists
+          </button>
         </div>
 
         {activeTab === 'select' ? (
@@ -371,6 +432,7 @@ export function TokenSelectModal({
                         isSelected={selectedToken?.address === token.address}
                         onSelect={() => handleTokenSelect(token)}
                         isImported={(token as ImportedToken).imported}
+                        lists={(token as ListedToken).lists}
                       />
                     ))
                   )}
@@ -378,6 +440,8 @@ export function TokenSelectModal({
               </div>
             </div>
           </div>
+        ) : activeTab === 'lists' ? (
+          <TokenListManager sources={listSources} onChange={updateListSources} isSyncing={syncingLists} />
         ) : (
           <div className="flex-1 overflow-y-auto p-4">
             <div className="mb-4">
@@ -441,9 +505,10 @@ interface TokenRowProps {
   isSelected: boolean
   onSelect: () => void
   isImported?: boolean
+  lists?: string[] // Token lists the token came from
 }
 
-function TokenRow({ token, balance, isSelected, onSelect, isImported }: TokenRowProps) {
+function TokenRow({ token, balance, isSelected, onSelect, isImported, lists }: TokenRowProps) {
   const hasBalance = parseFloat(balance) > 0
 
   return (
@@ -469,6 +534,9 @@ function TokenRow({ token, balance, isSelected, onSelect, isImported }: TokenRow
             )}
           </div>
           <div className="text-sm text-white/60">{token.name}</div>
+          {lists && lists.length > 0 && (
+            <div className="text-xs text-white/40">via {lists.join(', ')}</div>
+          )}
         </div>
       </div>
       <div className="flex items-center gap-3">
@@ -2,8 +2,7 @@
 
 import React, { useState } from 'react'
 import { ChevronDown } from 'lucide-react'
-import { type Token } from '@/config/tokens'
-import { formatBalance } from '@/lib/utils'
+import { type Token, formatBalance } from '@/sdk'
 import { TokenSelectModal } from './TokenSelectModal'
 
 interface TokenSelectorProps {
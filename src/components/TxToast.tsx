@@ -1,5 +1,7 @@
 import React, { useEffect, useState, useRef } from "react";
+import { Loader2 } from "lucide-react";
 import { useTx, TxRecord } from "../context/tx";
+import { blockxNetwork, getExplorerUrl } from "@/sdk";
 
 const TOAST_TIMEOUT = 10_000; // 10 seconds
 
@@ -8,14 +10,32 @@ function formatTime(ts: number) {
   return d.toLocaleString();
 }
 
+function statusLabel(tx: TxRecord) {
+  switch (tx.status) {
+    case 'pending':
+      return 'Pending confirmation...';
+    case 'confirmed':
+      return tx.replacement === 'repriced' ? 'Confirmed (sped up)' : 'Confirmed';
+    case 'reverted':
+      return 'Reverted';
+    case 'replaced':
+      return tx.replacement === 'cancelled' ? 'Cancelled' : 'Replaced';
+    case 'dropped':
+      return 'Dropped';
+    default:
+      return null;
+  }
+}
+
 export default function TxToast() {
   const { txs, removeTx } = useTx();
+  const visible = txs.filter((tx) => !tx.dismissed);
 
-  if (!txs.length) return null;
+  if (!visible.length) return null;
 
   return (
     <div className="fixed right-4 bottom-4 z-50 flex flex-col gap-3 max-w-sm">
-      {txs.map((tx) => (
+      {visible.map((tx) => (
         <TxItem key={tx.id} tx={tx} onClose={() => removeTx(tx.id)} />
       ))}
     </div>
@@ -30,19 +50,26 @@ function TxItem({ tx, onClose }: { tx: TxRecord; onClose: () => void }) {
   const startTimeRef = useRef<number>(Date.now());
 
   const isError = tx.type === 'error';
-  const explorerLink = tx.hash && tx.explorer 
-    ? `${tx.explorer.replace(/\/$/, "")}/${tx.hash}` 
-    : tx.hash 
-    ? `https://explorer-evm.blockxnet.com/tx/${tx.hash}` 
+  const isPending = tx.status === 'pending';
+  // Link the transaction that actually got mined when it was sped up or replaced
+  const linkHash = tx.replacedBy ?? tx.hash;
+  const explorerLink = linkHash && tx.explorer 
+    ? `${tx.explorer.replace(/\/$/, "")}/${linkHash}` 
+    : linkHash 
+    ? `${getExplorerUrl(tx.chainId ?? blockxNetwork.chain.id)}/tx/${linkHash}` 
     : null;
 
   useEffect(() => {
     // Slide in animation
     setIsVisible(true);
 
+    // Stay open until the transaction settles, then count down from that moment
+    if (isPending) return;
+    const startTime = tx.settledAt ?? startTimeRef.current;
+
     // Start progress countdown
     const updateProgress = () => {
-      const elapsed = Date.now() - startTimeRef.current;
+      const elapsed = Date.now() - startTime;
       const remaining = Math.max(0, TOAST_TIMEOUT - elapsed);
       const progressPercent = (remaining / TOAST_TIMEOUT) * 100;
       setProgress(progressPercent);
@@ -59,17 +86,17 @@ function TxItem({ tx, onClose }: { tx: TxRecord; onClose: () => void }) {
     // Auto close after timeout
     timeoutRef.current = setTimeout(() => {
       onClose();
-    }, TOAST_TIMEOUT);
+    }, Math.max(0, TOAST_TIMEOUT - (Date.now() - startTime)));
 
     return () => {
       if (timeoutRef.current) clearTimeout(timeoutRef.current);
       if (progressRef.current) clearTimeout(progressRef.current);
     };
-  }, [onClose]);
+  }, [onClose, isPending, tx.settledAt]);
 
   const copyHash = async () => {
-    if (tx.hash) {
-      try { await navigator.clipboard.writeText(tx.hash); } catch {}
+    if (linkHash) {
+      try { await navigator.clipboard.writeText(linkHash); } catch {}
     }
   };
 
@@ -104,20 +131,30 @@ function TxItem({ tx, onClose }: { tx: TxRecord; onClose: () => void }) {
             <div className="text-xs text-white/60">{formatTime(tx.timestamp)}</div>
           </div>
 
-          {isError ? (
+          {tx.status && (
+            <div className={`mt-1 flex items-center gap-1.5 text-xs ${
+              isPending ? 'text-white/70' : isError ? 'text-red-300' : 'text-green-400'
+            }`}>
+              {isPending && <Loader2 className="w-3 h-3 animate-spin" />}
+              {statusLabel(tx)}
+            </div>
+          )}
+
+          {isError && (
             <div className="mt-2 text-xs text-red-200 break-words overflow-wrap-anywhere">
               {tx.message || 'An error occurred'}
             </div>
-          ) : tx.hash ? (
+          )}
+          {linkHash && (
             <div className="mt-2 text-xs text-white/70 break-all font-mono">
               <a className="text-blue-400 hover:text-blue-300 hover:underline transition-colors" href={explorerLink || undefined} target="_blank" rel="noopener noreferrer">
-                {tx.hash}
+                {linkHash}
               </a>
             </div>
-          ) : null}
+          )}
 
           <div className="mt-3 flex gap-2">
-            {!isError && tx.hash && (
+            {linkHash && (
               <>
                 <button
                   onClick={copyHash}
@@ -1,5 +1,21 @@
 import { defineChain } from 'viem'
 
+// Canonical Multicall3 deployment address; reads fall back to individual calls if it isn't deployed
+const MULTICALL3_ADDRESS = (process.env.NEXT_PUBLIC_MULTICALL3_ADDRESS || '0xcA11bde05977b3631167028862bE2a173976CA11') as `0x${string}`
+
+/**
+ * Split a comma-separated list of endpoints, kept in order of preference;
+ * the transport fails over down the list
+ */
+function parseRpcUrls(value: string): string[] {
+  return value
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean)
+}
+
+const rpcUrls = parseRpcUrls(process.env.NEXT_PUBLIC_BLOCKX_RPC_URLS || process.env.NEXT_PUBLIC_BLOCKX_RPC_URL || 'https://web3.blockxnet.com')
+
 export const blockx = defineChain({
   id: 19191,
   name: 'BlockX',
@@ -10,10 +26,10 @@ export const blockx = defineChain({
   },
   rpcUrls: {
     default: {
-      http: [process.env.NEXT_PUBLIC_BLOCKX_RPC_URL || 'https://web3.blockxnet.com'],
+      http: rpcUrls,
     },
     public: {
-      http: [process.env.NEXT_PUBLIC_BLOCKX_RPC_URL || 'https://web3.blockxnet.com'],
+      http: rpcUrls,
     },
   },
   blockExplorers: {
@@ -22,7 +38,75 @@ export const blockx = defineChain({
       url: process.env.NEXT_PUBLIC_BLOCKX_EXPLORER_URL || 'https://explorer.blockxnet.com',
     },
   },
+  contracts: {
+    multicall3: {
+      address: MULTICALL3_ADDRESS,
+    },
+  },
   testnet: false,
 })
 
-export const supportedChains = [blockx]
+const testnetRpcUrls = parseRpcUrls(process.env.NEXT_PUBLIC_BLOCKX_TESTNET_RPC_URLS || 'https://testnet-web3.blockxnet.com')
+
+export const blockxTestnet = defineChain({
+  id: Number(process.env.NEXT_PUBLIC_BLOCKX_TESTNET_CHAIN_ID || 19077),
+  name: 'BlockX Testnet',
+  nativeCurrency: {
+    name: 'BlockX',
+    symbol: 'BCX',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: testnetRpcUrls,
+    },
+    public: {
+      http: testnetRpcUrls,
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'BlockXScan Testnet',
+      url: process.env.NEXT_PUBLIC_BLOCKX_TESTNET_EXPLORER_URL || 'https://testnet-explorer.blockxnet.com',
+    },
+  },
+  contracts: {
+    multicall3: {
+      address: MULTICALL3_ADDRESS,
+    },
+  },
+  testnet: true,
+})
+
+const devnetRpcUrls = parseRpcUrls(process.env.NEXT_PUBLIC_DEVNET_RPC_URL || 'http://127.0.0.1:8545')
+
+// A local node such as Anvil or Hardhat, with the DEX contracts deployed by hand
+export const blockxDevnet = defineChain({
+  id: Number(process.env.NEXT_PUBLIC_DEVNET_CHAIN_ID || 31337),
+  name: 'Local Devnet',
+  nativeCurrency: {
+    name: 'BlockX',
+    symbol: 'BCX',
+    decimals: 18,
+  },
+  rpcUrls: {
+    default: {
+      http: devnetRpcUrls,
+    },
+    public: {
+      http: devnetRpcUrls,
+    },
+  },
+  blockExplorers: {
+    default: {
+      name: 'Local Explorer',
+      url: process.env.NEXT_PUBLIC_DEVNET_EXPLORER_URL || 'http://127.0.0.1:4000',
+    },
+  },
+  contracts: {
+    multicall3: {
+      address: MULTICALL3_ADDRESS,
+    },
+  },
+  testnet: true,
+})
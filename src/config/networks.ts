@@ -0,0 +1,147 @@
+import type { Chain } from 'viem'
+import { blockx, blockxDevnet, blockxTestnet } from './chains'
+import type { Token } from './tokens'
+
+export interface ContractAddresses {
+  SWAP_ROUTER: string
+  ROUTER: string
+  WBCX: string
+  FACTORY: string
+  QUOTER_V2: string
+  NONFUNGIBLE_POSITION_MANAGER: string
+  // Optional; when both are set, tokens without EIP-2612 permit are swapped with a Permit2 signature
+  PERMIT2: string
+  UNIVERSAL_ROUTER: string
+}
+
+/**
+ * Everything the DEX needs to know about one chain; the explorer URL comes from the chain definition
+ */
+export interface NetworkConfig {
+  chain: Chain
+  contracts: ContractAddresses
+  tokens: Record<string, Token>
+  factoryDeployBlock?: bigint // PoolCreated log scanning starts here; looked up on-chain when not set
+}
+
+const BCX: Token = {
+  address: '0x0000000000000000000000000000000000000000',
+  symbol: 'BCX',
+  name: 'BlockX',
+  decimals: 18,
+  logoURI: '/tokens/bcx.svg',
+}
+
+function wrappedBcx(address: string): Token {
+  return {
+    address,
+    symbol: 'WBCX',
+    name: 'Wrapped BlockX',
+    decimals: 18,
+    logoURI: '/tokens/bcx.svg',
+  }
+}
+
+function optionalBlock(value: string | undefined): bigint | undefined {
+  return value ? BigInt(value) : undefined
+}
+
+const blockxContracts: ContractAddresses = {
+  SWAP_ROUTER: process.env.NEXT_PUBLIC_ROUTER_ADDRESS || '0x1fd7552F4fED1Be6a8e6d706f5B77B851a5d5F57',
+  ROUTER: process.env.NEXT_PUBLIC_ROUTER_ADDRESS || '0x1fd7552F4fED1Be6a8e6d706f5B77B851a5d5F57',
+  WBCX: process.env.NEXT_PUBLIC_WBCX_ADDRESS || '0xb6AB8EB821618033F5FE3763dDb7290cDEE10c24',
+  FACTORY: process.env.NEXT_PUBLIC_FACTORY_ADDRESS || '0x39B1F7E20A86207e03D213e27f3E05f23A662e55',
+  QUOTER_V2: process.env.NEXT_PUBLIC_QUOTER_V2_ADDRESS || '0xb07bA4811770fC65F6e1cdDdbe5f7f55e5362970',
+  NONFUNGIBLE_POSITION_MANAGER: process.env.NEXT_PUBLIC_POSITION_MANAGER_ADDRESS || '0x311aFC5AF4347C7401B01BfC8DE6A89a28AC1485',
+  PERMIT2: process.env.NEXT_PUBLIC_PERMIT2_ADDRESS || '',
+  UNIVERSAL_ROUTER: process.env.NEXT_PUBLIC_UNIVERSAL_ROUTER_ADDRESS || '',
+}
+
+export const blockxNetwork: NetworkConfig = {
+  chain: blockx,
+  contracts: blockxContracts,
+  tokens: {
+    BCX,
+    WBCX: wrappedBcx(blockxContracts.WBCX),
+    TEST: {
+      address: process.env.NEXT_PUBLIC_TEST_TOKEN_ADDRESS || '0x4e3e6B7862a6DEda1049A9bE69f4E4042491760f',
+      symbol: 'TEST',
+      name: 'Test Token',
+      decimals: 18,
+      logoURI: '/tokens/test.svg',
+    },
+    FRESH: {
+      address: process.env.NEXT_PUBLIC_FRESH_TOKEN_ADDRESS || '0x207851F88bc4a597F79557ffb15B456D28489a74',
+      symbol: 'FRESH',
+      name: 'Fresh Test Token',
+      decimals: 18,
+      logoURI: '/tokens/fresh.svg',
+    },
+    USDT: {
+      address: '0x2f174aEac9fAD6e64760882AF4cb1DcB62921A10',
+      symbol: 'USDT',
+      name: 'USDT',
+      decimals: 6,
+      logoURI: '/tokens/usdt.svg',
+    },
+    USDC: {
+      address: '0xFb6253856a24544E454ab8336Eb90116f0afEB9F',
+      symbol: 'USDC',
+      name: 'USDC',
+      decimals: 6,
+      logoURI: '/tokens/usdc.svg',
+    },
+  },
+  factoryDeployBlock: optionalBlock(process.env.NEXT_PUBLIC_FACTORY_DEPLOY_BLOCK),
+}
+
+const testnetContracts: ContractAddresses = {
+  SWAP_ROUTER: process.env.NEXT_PUBLIC_TESTNET_ROUTER_ADDRESS || '',
+  ROUTER: process.env.NEXT_PUBLIC_TESTNET_ROUTER_ADDRESS || '',
+  WBCX: process.env.NEXT_PUBLIC_TESTNET_WBCX_ADDRESS || '',
+  FACTORY: process.env.NEXT_PUBLIC_TESTNET_FACTORY_ADDRESS || '',
+  QUOTER_V2: process.env.NEXT_PUBLIC_TESTNET_QUOTER_V2_ADDRESS || '',
+  NONFUNGIBLE_POSITION_MANAGER: process.env.NEXT_PUBLIC_TESTNET_POSITION_MANAGER_ADDRESS || '',
+  PERMIT2: process.env.NEXT_PUBLIC_TESTNET_PERMIT2_ADDRESS || '',
+  UNIVERSAL_ROUTER: process.env.NEXT_PUBLIC_TESTNET_UNIVERSAL_ROUTER_ADDRESS || '',
+}
+
+export const blockxTestnetNetwork: NetworkConfig = {
+  chain: blockxTestnet,
+  contracts: testnetContracts,
+  tokens: { BCX, WBCX: wrappedBcx(testnetContracts.WBCX) },
+  factoryDeployBlock: optionalBlock(process.env.NEXT_PUBLIC_TESTNET_FACTORY_DEPLOY_BLOCK),
+}
+
+const devnetContracts: ContractAddresses = {
+  SWAP_ROUTER: process.env.NEXT_PUBLIC_DEVNET_ROUTER_ADDRESS || '',
+  ROUTER: process.env.NEXT_PUBLIC_DEVNET_ROUTER_ADDRESS || '',
+  WBCX: process.env.NEXT_PUBLIC_DEVNET_WBCX_ADDRESS || '',
+  FACTORY: process.env.NEXT_PUBLIC_DEVNET_FACTORY_ADDRESS || '',
+  QUOTER_V2: process.env.NEXT_PUBLIC_DEVNET_QUOTER_V2_ADDRESS || '',
+  NONFUNGIBLE_POSITION_MANAGER: process.env.NEXT_PUBLIC_DEVNET_POSITION_MANAGER_ADDRESS || '',
+  PERMIT2: process.env.NEXT_PUBLIC_DEVNET_PERMIT2_ADDRESS || '',
+  UNIVERSAL_ROUTER: process.env.NEXT_PUBLIC_DEVNET_UNIVERSAL_ROUTER_ADDRESS || '',
+}
+
+export const blockxDevnetNetwork: NetworkConfig = {
+  chain: blockxDevnet,
+  contracts: devnetContracts,
+  tokens: { BCX, WBCX: wrappedBcx(devnetContracts.WBCX) },
+  factoryDeployBlock: BigInt(0), // Local chains start empty, so scanning from genesis is cheap
+}
+
+// Mainnet first, as the default; testnet and devnet are only offered once their factory is configured
+export const networks: NetworkConfig[] = [blockxNetwork, blockxTestnetNetwork, blockxDevnetNetwork].filter(
+  network => network === blockxNetwork || network.contracts.FACTORY !== ''
+)
+
+export const supportedChains = networks.map(network => network.chain) as [Chain, ...Chain[]]
+
+export function getNetwork(chainId: number | undefined): NetworkConfig | undefined {
+  return networks.find(network => network.chain.id === chainId)
+}
+
+export function isSupportedChain(chainId: number | undefined): boolean {
+  return getNetwork(chainId) !== undefined
+}
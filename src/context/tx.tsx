@@ -1,25 +1,55 @@
-import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useConfig } from "wagmi";
+import { getPublicClient } from "wagmi/actions";
+import type { Hash } from "viem";
+import { getTxSender, waitForTxOutcome, type TxSender, type TxStatus } from "../lib/transactions";
+import { getErrorMessage } from "../lib/errors";
+import { getActiveNetwork } from "../lib/network";
+import { blockxNetwork } from "../config/networks";
 
 export type TxRecord = {
   id: string;
   hash?: string;
   title?: string;
   explorer?: string; // base url like https://etherscan.io/tx
+  chainId?: number; // Chain the tx was sent on; records from before there were other networks are mainnet
   timestamp: number;
   type?: 'success' | 'error';
   message?: string;
+  status?: TxStatus; // Only set for submitted transactions
+  sender?: { from: string; nonce: number }; // Recorded once the node knows the tx
+  replacedBy?: string; // Hash that was mined instead of `hash`
+  replacement?: 'repriced' | 'cancelled' | 'replaced';
+  settledAt?: number; // When the tx left the pending state
+  dismissed?: boolean; // Toast closed while still pending; keep tracking it
 };
 
 type TxContextValue = {
   txs: TxRecord[];
   addTx: (tx: { hash: string; title?: string; explorer?: string }) => void;
-  addError: (error: { title?: string; message: string }) => void;
+  // Pass the caught error as `cause` to show a decoded explanation instead of `message`
+  addError: (error: { title?: string; message?: string; cause?: unknown }) => void;
   removeTx: (id: string) => void;
 };
 
 const TxContext = createContext<TxContextValue | undefined>(undefined);
 
+const MAX_RECENT = 8;
+
+// Keep the newest records up to MAX_RECENT, but never drop a pending tx: it is still being tracked
+function trimRecent(records: TxRecord[]): TxRecord[] {
+  let settledSlots = MAX_RECENT - records.filter((t) => t.status === 'pending').length;
+  return records.filter((t) => t.status === 'pending' || settledSlots-- > 0);
+}
+
+// Toast style for a submitted tx; none while it is still pending
+function typeForStatus(status: TxStatus): TxRecord["type"] {
+  if (status === 'pending') return undefined;
+  return status === 'confirmed' ? 'success' : 'error';
+}
+
 export const TxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const config = useConfig();
   const [txs, setTxs] = useState<TxRecord[]>(() => {
     try {
       const raw = localStorage.getItem("recentTxs");
@@ -28,6 +58,8 @@ export const TxProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       return [];
     }
   });
+  // Hashes with a receipt watcher running, so re-renders don't start a second one
+  const watching = useRef(new Set<string>());
 
   useEffect(() => {
     try {
@@ -35,6 +67,52 @@ export const TxProvider: React.FC<{ children: React.ReactNode }> = ({ children }
     } catch {}
   }, [txs]);
 
+  const updateTx = useCallback((id: string, update: Partial<TxRecord>) => {
+    setTxs((s) => s.map((t) => (t.id === id ? { ...t, ...update } : t)));
+  }, []);
+
+  // Follow every pending tx to a receipt on the chain it was sent on, including ones restored after a reload
+  useEffect(() => {
+    for (const tx of txs) {
+      if (tx.status !== 'pending' || !tx.hash || watching.current.has(tx.hash)) continue;
+      const publicClient = getPublicClient(config, { chainId: tx.chainId ?? blockxNetwork.chain.id });
+      // Network no longer configured; nothing to ask about the tx
+      if (!publicClient) continue;
+      const { id, hash } = tx;
+      watching.current.add(hash);
+
+      (async () => {
+        let sender = tx.sender as TxSender | undefined;
+        if (!sender) {
+          sender = (await getTxSender(publicClient, hash as Hash)) ?? undefined;
+          if (sender) updateTx(id, { sender });
+        }
+
+        const outcome = await waitForTxOutcome(publicClient, hash as Hash, sender);
+        // Still pending after the timeout; the next reload picks it up again
+        if (!outcome) return;
+
+        updateTx(id, {
+          status: outcome.status,
+          type: typeForStatus(outcome.status),
+          message: outcome.status === 'reverted'
+            ? outcome.reason
+            : outcome.status === 'replaced'
+            ? outcome.replacement === 'cancelled' ? 'Transaction was cancelled' : 'Transaction was replaced by another transaction'
+            : outcome.status === 'dropped'
+            ? 'Transaction was dropped and will not be mined'
+            : undefined,
+          replacedBy: outcome.minedHash,
+          replacement: outcome.replacement,
+          settledAt: Date.now(),
+          dismissed: false,
+        });
+      })()
+        .catch((err) => console.error(`Error tracking transaction ${hash}:`, err))
+        .finally(() => watching.current.delete(hash));
+    }
+  }, [txs, config, updateTx]);
+
   const addTx = useCallback((tx: { hash: string; title?: string; explorer?: string }) => {
     const id = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const record: TxRecord = {
@@ -42,26 +120,32 @@ export const TxProvider: React.FC<{ children: React.ReactNode }> = ({ children }
       hash: tx.hash,
       title: tx.title,
       explorer: tx.explorer,
+      chainId: getActiveNetwork().chain.id,
       timestamp: Date.now(),
-      type: 'success',
+      type: typeForStatus('pending'),
+      status: 'pending',
     };
-    setTxs((s) => [record, ...s].slice(0, 8)); // keep recent 8
+    setTxs((s) => trimRecent([record, ...s]));
   }, []);
 
-  const addError = useCallback((error: { title?: string; message: string }) => {
+  const addError = useCallback((error: { title?: string; message?: string; cause?: unknown }) => {
     const id = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const record: TxRecord = {
       id,
       title: error.title || 'Error',
-      message: error.message,
+      message: error.cause !== undefined ? getErrorMessage(error.cause, error.message) : error.message,
       timestamp: Date.now(),
       type: 'error',
     };
-    setTxs((s) => [record, ...s].slice(0, 8)); // keep recent 8
+    setTxs((s) => trimRecent([record, ...s]));
   }, []);
 
   const removeTx = useCallback((id: string) => {
-    setTxs((s) => s.filter((t) => t.id !== id));
+    // Pending txs stay in storage so tracking resumes after a reload
+    setTxs((s) => s.flatMap((t) => {
+      if (t.id !== id) return [t];
+      return t.status === 'pending' ? [{ ...t, dismissed: true }] : [];
+    }));
   }, []);
 
   return <TxContext.Provider value={{ txs, addTx, addError, removeTx }}>{children}</TxContext.Provider>;
@@ -71,4 +155,4 @@ export function useTx() {
   const ctx = useContext(TxContext);
   if (!ctx) throw new Error("useTx must be used within TxProvider");
   return ctx;
-}
\ No newline at end of file
+}
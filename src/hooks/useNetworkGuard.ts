@@ -0,0 +1,22 @@
+'use client'
+
+import { useAccount, useChainId, useSwitchChain } from 'wagmi'
+import { getNetwork } from '@/sdk'
+
+/**
+ * Whether the connected wallet is on a different chain than the app, for
+ * swapping write buttons for a switch-network button. simulateAndWrite
+ * rejects writes on the wrong chain either way.
+ */
+export function useNetworkGuard() {
+  const { isConnected, chainId: walletChainId } = useAccount()
+  const chainId = useChainId()
+  const { switchChain, isPending } = useSwitchChain()
+
+  return {
+    isWrongNetwork: isConnected && walletChainId !== chainId,
+    networkName: getNetwork(chainId)?.chain.name ?? 'BlockX',
+    isSwitching: isPending,
+    switchNetwork: () => switchChain({ chainId }),
+  }
+}
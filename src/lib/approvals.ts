@@ -0,0 +1,170 @@
+import { maxUint256, parseUnits, type Address, type Hash, type PublicClient, type WalletClient } from 'viem'
+import { CONTRACT_ADDRESSES, ERC20_ABI } from './contracts'
+import { batchReadContracts, type ReadCall } from './multicall'
+import { getActiveNetwork, getImportedTokensStorageKey } from './network'
+import { getListedTokens, loadTokenListSources } from './tokenLists'
+import { simulateAndWrite } from './simulation'
+import { tokenList, type Token } from '../config/tokens'
+
+export type ApprovalMode = 'exact' | 'unlimited' | 'custom'
+
+/**
+ * How much to approve when an action needs an allowance
+ */
+export interface ApprovalPolicy {
+  mode: ApprovalMode
+  customAmount: string // Token units approved in 'custom' mode; never less than the action needs
+}
+
+export interface ApprovalSpender {
+  address: Address
+  label: string
+}
+
+export interface TokenAllowance {
+  token: Token
+  spender: ApprovalSpender
+  allowance: bigint
+  unlimited: boolean
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { mode: 'exact', customAmount: '' }
+
+const POLICY_STORAGE_KEY = 'approvalPolicy'
+
+/**
+ * Contracts on the active network that pull tokens from the wallet, plus Permit2
+ * when configured, deduplicated since ROUTER and SWAP_ROUTER share an address by default
+ */
+export function getApprovalSpenders(): ApprovalSpender[] {
+  const spenders: ApprovalSpender[] = [
+    { address: CONTRACT_ADDRESSES.SWAP_ROUTER as Address, label: 'Swap router' },
+    { address: CONTRACT_ADDRESSES.ROUTER as Address, label: 'Router' },
+    { address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address, label: 'Position manager' },
+  ]
+  if (CONTRACT_ADDRESSES.PERMIT2) spenders.push({ address: CONTRACT_ADDRESSES.PERMIT2 as Address, label: 'Permit2' })
+  return spenders.filter((spender, i) => spenders.findIndex(s => s.address.toLowerCase() === spender.address.toLowerCase()) === i)
+}
+
+// Allowances this large are shown as unlimited; some tokens count down even max approvals
+const UNLIMITED_ALLOWANCE = maxUint256 / BigInt(2)
+
+export function loadApprovalPolicy(): ApprovalPolicy {
+  if (typeof window === 'undefined') return DEFAULT_APPROVAL_POLICY
+  try {
+    const raw = localStorage.getItem(POLICY_STORAGE_KEY)
+    return raw ? { ...DEFAULT_APPROVAL_POLICY, ...(JSON.parse(raw) as Partial<ApprovalPolicy>) } : DEFAULT_APPROVAL_POLICY
+  } catch {
+    return DEFAULT_APPROVAL_POLICY
+  }
+}
+
+export function saveApprovalPolicy(policy: ApprovalPolicy) {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(policy))
+  } catch {
+    // Storage unavailable; the policy lasts until the page is reloaded
+  }
+}
+
+/**
+ * The allowance to grant for an action needing `amount`, under the approval policy.
+ * A custom amount that doesn't parse or falls short of `amount` approves exactly `amount`.
+ */
+export function getApprovalAmount(
+  amount: bigint,
+  decimals: number,
+  policy: ApprovalPolicy = loadApprovalPolicy()
+): bigint {
+  if (policy.mode === 'unlimited') return maxUint256
+  if (policy.mode === 'custom') {
+    try {
+      const custom = parseUnits(policy.customAmount, decimals)
+      return custom > amount ? custom : amount
+    } catch {
+      return amount
+    }
+  }
+  return amount
+}
+
+/**
+ * getApprovalAmount for a token whose decimals the caller doesn't have;
+ * they are only read when the policy needs them
+ */
+export async function resolveApprovalAmount(
+  publicClient: PublicClient,
+  token: Address,
+  amount: bigint
+): Promise<bigint> {
+  const policy = loadApprovalPolicy()
+  if (policy.mode !== 'custom') return getApprovalAmount(amount, 18, policy)
+  const decimals = await publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'decimals' })
+  return getApprovalAmount(amount, Number(decimals), policy)
+}
+
+/**
+ * Tokens a wallet may have approved: the configured list without native BCX,
+ * plus tokens from enabled token lists and imported tokens
+ */
+export function getApprovalTokens(): Token[] {
+  let imported: Token[] = []
+  if (typeof window !== 'undefined') {
+    try {
+      imported = JSON.parse(localStorage.getItem(getImportedTokensStorageKey()) || '[]') as Token[]
+    } catch {
+      imported = []
+    }
+  }
+  const listed = getListedTokens(loadTokenListSources(), getActiveNetwork().chain.id)
+  const all = [...tokenList.filter(t => t.symbol !== 'BCX'), ...listed, ...imported]
+  return all.filter((token, i) => all.findIndex(t => t.address.toLowerCase() === token.address.toLowerCase()) === i)
+}
+
+/**
+ * Read the allowance of every token for every spender
+ * @returns Only the non-zero allowances, in token then spender order
+ */
+export async function getAllowances(
+  publicClient: PublicClient,
+  owner: Address,
+  tokens: Token[] = getApprovalTokens()
+): Promise<TokenAllowance[]> {
+  const spenders = getApprovalSpenders()
+  const pairs = tokens.flatMap(token => spenders.map(spender => ({ token, spender })))
+  const calls: ReadCall[] = pairs.map(({ token, spender }) => ({
+    address: token.address as Address,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [owner, spender.address],
+  }))
+  const results = await batchReadContracts(publicClient, calls)
+
+  const allowances: TokenAllowance[] = []
+  pairs.forEach(({ token, spender }, i) => {
+    const result = results[i]
+    if (result.status !== 'success') return
+    const allowance = result.result as bigint
+    if (allowance === BigInt(0)) return
+    allowances.push({ token, spender, allowance, unlimited: allowance >= UNLIMITED_ALLOWANCE })
+  })
+  return allowances
+}
+
+/**
+ * Set a spender's allowance back to zero
+ */
+export async function revokeAllowance(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  token: Address,
+  spender: Address
+): Promise<Hash> {
+  return simulateAndWrite(publicClient, walletClient, {
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'approve',
+    args: [spender, BigInt(0)],
+  })
+}
@@ -0,0 +1,42 @@
+import { type PublicClient } from 'viem'
+import { getClientNetwork } from './network'
+
+// Blocks back used to measure the average block time
+const BLOCK_TIME_SAMPLE = BigInt(10000)
+
+// Average block time per chain id (cleared on page refresh)
+const blockTimeCache = new Map<number, Promise<number>>()
+
+/**
+ * Estimate the chain's average block time from recent block timestamps
+ * @returns Seconds per block
+ */
+export function getAverageBlockTime(publicClient: PublicClient): Promise<number> {
+  const chainId = getClientNetwork(publicClient).chain.id
+  let blockTime = blockTimeCache.get(chainId)
+  if (!blockTime) {
+    blockTime = (async () => {
+      const latest = await publicClient.getBlock()
+      const sampleSize = latest.number < BLOCK_TIME_SAMPLE ? latest.number : BLOCK_TIME_SAMPLE
+      if (sampleSize === BigInt(0)) return 1
+
+      const past = await publicClient.getBlock({ blockNumber: latest.number - sampleSize })
+      const elapsed = Number(latest.timestamp - past.timestamp)
+      return elapsed > 0 ? elapsed / Number(sampleSize) : 1
+    })().catch(error => {
+      blockTimeCache.delete(chainId)
+      throw error
+    })
+    blockTimeCache.set(chainId, blockTime)
+  }
+  return blockTime
+}
+
+/**
+ * Estimate how many blocks the chain produces over a duration
+ * @param seconds Duration in seconds
+ */
+export async function getBlocksForDuration(publicClient: PublicClient, seconds: number): Promise<bigint> {
+  const blockTime = await getAverageBlockTime(publicClient)
+  return BigInt(Math.ceil(seconds / blockTime))
+}
@@ -0,0 +1,184 @@
+import { isAddress, zeroAddress, type Address, type PublicClient } from 'viem'
+import type { ContractAddresses, NetworkConfig } from '../config/networks'
+import { PERIPHERY_IMMUTABLE_STATE_ABI } from './contracts'
+import { batchReadContracts, type ReadCall } from './multicall'
+import { getActiveNetwork } from './network'
+
+export interface ConfigIssue {
+  severity: 'error' | 'warning' // Errors block the app; warnings are only shown on the diagnostics page
+  key: string // Contract or setting the issue is about, e.g. 'FACTORY' or 'RPC'
+  message: string
+}
+
+export interface ConfigReport {
+  chainId: number
+  networkName: string
+  contracts: ContractAddresses
+  issues: ConfigIssue[]
+  ok: boolean // No errors
+  checkedAt: number // Unix ms
+}
+
+export const CONTRACT_LABELS: Record<keyof ContractAddresses, string> = {
+  SWAP_ROUTER: 'Swap router',
+  ROUTER: 'Router',
+  WBCX: 'WBCX',
+  FACTORY: 'Factory',
+  QUOTER_V2: 'QuoterV2',
+  NONFUNGIBLE_POSITION_MANAGER: 'Position manager',
+  PERMIT2: 'Permit2',
+  UNIVERSAL_ROUTER: 'Universal Router',
+}
+
+// Contracts the DEX works without; they are only checked once configured
+const OPTIONAL_CONTRACTS: (keyof ContractAddresses)[] = ['PERMIT2', 'UNIVERSAL_ROUTER']
+
+// Periphery contracts whose factory() and WETH9() must match the configured FACTORY and WBCX
+const PERIPHERY_CONTRACTS: (keyof ContractAddresses)[] = ['SWAP_ROUTER', 'QUOTER_V2', 'NONFUNGIBLE_POSITION_MANAGER']
+
+// Reports per chain id, kept until the page is reloaded or a recheck is forced
+const reportCache = new Map<number, Promise<ConfigReport>>()
+
+/**
+ * Check that a configured address is well formed, passes its EIP-55 checksum
+ * when written in mixed case, and isn't the zero address
+ * @returns What is wrong with the address, or null if nothing is
+ */
+export function checkAddressFormat(value: string): string | null {
+  if (!value) return 'Not configured'
+  if (!isAddress(value, { strict: false })) return `"${value}" is not an address`
+  if (!isAddress(value, { strict: true })) return `${value} fails its checksum; check it for typos`
+  if (value.toLowerCase() === zeroAddress) return 'Set to the zero address'
+  return null
+}
+
+function checkRpcUrls(network: NetworkConfig): ConfigIssue[] {
+  const urls = network.chain.rpcUrls.default.http
+  if (urls.length === 0) return [{ severity: 'error', key: 'RPC', message: 'No RPC URL configured' }]
+  return urls.flatMap(url => {
+    try {
+      const { protocol } = new URL(url)
+      if (protocol === 'http:' || protocol === 'https:') return []
+    } catch {
+      // Falls through to the issue below
+    }
+    return [{ severity: 'error' as const, key: 'RPC', message: `"${url}" is not an http(s) URL` }]
+  })
+}
+
+// Keys of the contracts that have to be checked: every required one, and the optional ones that are set
+function configuredKeys(contracts: ContractAddresses): (keyof ContractAddresses)[] {
+  return (Object.keys(contracts) as (keyof ContractAddresses)[]).filter(
+    key => contracts[key] !== '' || !OPTIONAL_CONTRACTS.includes(key)
+  )
+}
+
+function checkAddresses(contracts: ContractAddresses): ConfigIssue[] {
+  return configuredKeys(contracts).flatMap(key => {
+    const problem = checkAddressFormat(contracts[key])
+    return problem ? [{ severity: 'error' as const, key, message: `${CONTRACT_LABELS[key]}: ${problem}` }] : []
+  })
+}
+
+/**
+ * Check the network's contracts against the chain: the RPC serves the right
+ * chain, every address has bytecode, and the periphery contracts were deployed
+ * against the configured factory and WBCX
+ */
+async function checkOnChain(
+  publicClient: PublicClient,
+  network: NetworkConfig,
+  keys: (keyof ContractAddresses)[]
+): Promise<ConfigIssue[]> {
+  const { contracts } = network
+  let chainId: number
+  try {
+    chainId = await publicClient.getChainId()
+  } catch {
+    return [{ severity: 'warning', key: 'RPC', message: 'Could not reach the RPC endpoint, so contracts were not verified on-chain' }]
+  }
+  if (chainId !== network.chain.id) {
+    return [{ severity: 'error', key: 'RPC', message: `The RPC endpoint serves chain ${chainId}, but ${network.chain.name} is chain ${network.chain.id}` }]
+  }
+
+  const issues: ConfigIssue[] = []
+  const addresses = Array.from(new Set(keys.map(key => contracts[key].toLowerCase()))) as Address[]
+  const codes = await Promise.all(addresses.map(address => publicClient.getCode({ address }).catch(() => undefined)))
+  const deployed = new Set(addresses.filter((_, i) => !!codes[i] && codes[i] !== '0x'))
+  keys.forEach(key => {
+    if (!deployed.has(contracts[key].toLowerCase() as Address)) {
+      issues.push({ severity: 'error', key, message: `${CONTRACT_LABELS[key]}: no contract deployed at ${contracts[key]}` })
+    }
+  })
+
+  const periphery = PERIPHERY_CONTRACTS.filter(key => keys.includes(key) && deployed.has(contracts[key].toLowerCase() as Address))
+  const calls: ReadCall[] = periphery.flatMap(key => (['factory', 'WETH9'] as const).map(functionName => ({
+    address: contracts[key] as Address,
+    abi: PERIPHERY_IMMUTABLE_STATE_ABI,
+    functionName,
+  })))
+  const results = await batchReadContracts(publicClient, calls)
+
+  periphery.forEach((key, i) => {
+    const expected = [
+      { fn: 'factory()', key: 'FACTORY' as const, result: results[2 * i] },
+      { fn: 'WETH9()', key: 'WBCX' as const, result: results[2 * i + 1] },
+    ]
+    expected.forEach(({ fn, key: expectedKey, result }) => {
+      if (result.status !== 'success') {
+        issues.push({ severity: 'error', key, message: `${CONTRACT_LABELS[key]}: ${fn} failed; ${contracts[key]} may not be a ${CONTRACT_LABELS[key]}` })
+        return
+      }
+      const actual = result.result as Address
+      if (actual.toLowerCase() !== contracts[expectedKey].toLowerCase()) {
+        issues.push({
+          severity: 'error',
+          key,
+          message: `${CONTRACT_LABELS[key]}: ${fn} returns ${actual}, but ${CONTRACT_LABELS[expectedKey]} is configured as ${contracts[expectedKey]}`,
+        })
+      }
+    })
+  })
+  return issues
+}
+
+/**
+ * Validate a network's RPC URLs and contract addresses, first offline and then against the chain
+ */
+export async function validateNetworkConfig(
+  publicClient: PublicClient,
+  network: NetworkConfig = getActiveNetwork()
+): Promise<ConfigReport> {
+  const issues = [...checkRpcUrls(network), ...checkAddresses(network.contracts)]
+  // Only addresses that are well formed are worth looking up
+  const valid = configuredKeys(network.contracts).filter(
+    key => !issues.some(issue => issue.key === key)
+  )
+  if (valid.length > 0 && !issues.some(issue => issue.key === 'RPC')) {
+    issues.push(...await checkOnChain(publicClient, network, valid))
+  }
+
+  return {
+    chainId: network.chain.id,
+    networkName: network.chain.name,
+    contracts: network.contracts,
+    issues,
+    ok: !issues.some(issue => issue.severity === 'error'),
+    checkedAt: Date.now(),
+  }
+}
+
+/**
+ * validateNetworkConfig for the active network, checked once per page load
+ * @param force Check again instead of returning the earlier report
+ */
+export function getConfigReport(publicClient: PublicClient, force = false): Promise<ConfigReport> {
+  const network = getActiveNetwork()
+  let report = reportCache.get(network.chain.id)
+  if (!report || force) {
+    report = validateNetworkConfig(publicClient, network)
+    report.catch(() => reportCache.delete(network.chain.id))
+    reportCache.set(network.chain.id, report)
+  }
+  return report
+}
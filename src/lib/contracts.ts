@@ -1,19 +1,9 @@
-export const CONTRACT_ADDRESSES = {
-  SWAP_ROUTER: process.env.NEXT_PUBLIC_ROUTER_ADDRESS || '0x1fd7552F4fED1Be6a8e6d706f5B77B851a5d5F57',
-  ROUTER: process.env.NEXT_PUBLIC_ROUTER_ADDRESS || '0x1fd7552F4fED1Be6a8e6d706f5B77B851a5d5F57',
-  WBCX: process.env.NEXT_PUBLIC_WBCX_ADDRESS || '0xb6AB8EB821618033F5FE3763dDb7290cDEE10c24',
-  FACTORY: process.env.NEXT_PUBLIC_FACTORY_ADDRESS || '0x39B1F7E20A86207e03D213e27f3E05f23A662e55',
-  QUOTER_V2: '0xb07bA4811770fC65F6e1cdDdbe5f7f55e5362970',
-  NONFUNGIBLE_POSITION_MANAGER: '0x311aFC5AF4347C7401B01BfC8DE6A89a28AC1485',
-} as const
+import { blockxNetwork, type ContractAddresses } from '../config/networks'
 
-export const FEE_TIERS = {
-  LOW: 100, // 0.01%
-  MEDIUM: 500, // 0.05%
-    HIGH: 2500, // 0.25%
-} as const
+// Addresses on the active network, switched in place by setActiveNetwork
+export const CONTRACT_ADDRESSES: ContractAddresses = { ...blockxNetwork.contracts }
 
-export const DEFAULT_FEE_TIER = FEE_TIERS.MEDIUM
+export const DEFAULT_FEE_TIER = 500 // 0.05%
 
 export const ROUTER_ABI = [
   {
@@ -90,6 +80,83 @@ export const SWAP_ROUTER_ABI = [
     stateMutability: 'payable',
     type: 'function',
   },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'bytes', name: 'path', type: 'bytes' },
+          { internalType: 'address', name: 'recipient', type: 'address' },
+          { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+          { internalType: 'uint256', name: 'amountIn', type: 'uint256' },
+          { internalType: 'uint256', name: 'amountOutMinimum', type: 'uint256' },
+        ],
+        internalType: 'struct ISwapRouter.ExactInputParams',
+        name: 'params',
+        type: 'tuple',
+      },
+    ],
+    name: 'exactInput',
+    outputs: [{ internalType: 'uint256', name: 'amountOut', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'tokenIn', type: 'address' },
+          { internalType: 'address', name: 'tokenOut', type: 'address' },
+          { internalType: 'uint24', name: 'fee', type: 'uint24' },
+          { internalType: 'address', name: 'recipient', type: 'address' },
+          { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+          { internalType: 'uint256', name: 'amountOut', type: 'uint256' },
+          { internalType: 'uint256', name: 'amountInMaximum', type: 'uint256' },
+          { internalType: 'uint160', name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+        internalType: 'struct ISwapRouter.ExactOutputSingleParams',
+        name: 'params',
+        type: 'tuple',
+      },
+    ],
+    name: 'exactOutputSingle',
+    outputs: [{ internalType: 'uint256', name: 'amountIn', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'bytes', name: 'path', type: 'bytes' },
+          { internalType: 'address', name: 'recipient', type: 'address' },
+          { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+          { internalType: 'uint256', name: 'amountOut', type: 'uint256' },
+          { internalType: 'uint256', name: 'amountInMaximum', type: 'uint256' },
+        ],
+        internalType: 'struct ISwapRouter.ExactOutputParams',
+        name: 'params',
+        type: 'tuple',
+      },
+    ],
+    name: 'exactOutput',
+    outputs: [{ internalType: 'uint256', name: 'amountIn', type: 'uint256' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes[]', name: 'data', type: 'bytes[]' }],
+    name: 'multicall',
+    outputs: [{ internalType: 'bytes[]', name: 'results', type: 'bytes[]' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'refundETH',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
 ] as const
 
 export const QUOTER_V2_ABI = [
@@ -118,6 +185,61 @@ export const QUOTER_V2_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    inputs: [
+      { internalType: 'bytes', name: 'path', type: 'bytes' },
+      { internalType: 'uint256', name: 'amountIn', type: 'uint256' },
+    ],
+    name: 'quoteExactInput',
+    outputs: [
+      { internalType: 'uint256', name: 'amountOut', type: 'uint256' },
+      { internalType: 'uint160[]', name: 'sqrtPriceX96AfterList', type: 'uint160[]' },
+      { internalType: 'uint32[]', name: 'initializedTicksCrossedList', type: 'uint32[]' },
+      { internalType: 'uint256', name: 'gasEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      {
+        components: [
+          { internalType: 'address', name: 'tokenIn', type: 'address' },
+          { internalType: 'address', name: 'tokenOut', type: 'address' },
+          { internalType: 'uint256', name: 'amount', type: 'uint256' },
+          { internalType: 'uint24', name: 'fee', type: 'uint24' },
+          { internalType: 'uint160', name: 'sqrtPriceLimitX96', type: 'uint160' },
+        ],
+        internalType: 'struct IQuoterV2.QuoteExactOutputSingleParams',
+        name: 'params',
+        type: 'tuple',
+      },
+    ],
+    name: 'quoteExactOutputSingle',
+    outputs: [
+      { internalType: 'uint256', name: 'amountIn', type: 'uint256' },
+      { internalType: 'uint160', name: 'sqrtPriceX96After', type: 'uint160' },
+      { internalType: 'uint32', name: 'initializedTicksCrossed', type: 'uint32' },
+      { internalType: 'uint256', name: 'gasEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { internalType: 'bytes', name: 'path', type: 'bytes' },
+      { internalType: 'uint256', name: 'amountOut', type: 'uint256' },
+    ],
+    name: 'quoteExactOutput',
+    outputs: [
+      { internalType: 'uint256', name: 'amountIn', type: 'uint256' },
+      { internalType: 'uint160[]', name: 'sqrtPriceX96AfterList', type: 'uint160[]' },
+      { internalType: 'uint32[]', name: 'initializedTicksCrossedList', type: 'uint32[]' },
+      { internalType: 'uint256', name: 'gasEstimate', type: 'uint256' },
+    ],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
 ] as const
 
 export const NONFUNGIBLE_POSITION_MANAGER_ABI = [
@@ -273,6 +395,49 @@ export const NONFUNGIBLE_POSITION_MANAGER_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: false, internalType: 'uint128', name: 'liquidity', type: 'uint128' },
+      { indexed: false, internalType: 'uint256', name: 'amount0', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'amount1', type: 'uint256' },
+    ],
+    name: 'IncreaseLiquidity',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: false, internalType: 'uint128', name: 'liquidity', type: 'uint128' },
+      { indexed: false, internalType: 'uint256', name: 'amount0', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'amount1', type: 'uint256' },
+    ],
+    name: 'DecreaseLiquidity',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+      { indexed: false, internalType: 'address', name: 'recipient', type: 'address' },
+      { indexed: false, internalType: 'uint256', name: 'amount0', type: 'uint256' },
+      { indexed: false, internalType: 'uint256', name: 'amount1', type: 'uint256' },
+    ],
+    name: 'Collect',
+    type: 'event',
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'from', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'to', type: 'address' },
+      { indexed: true, internalType: 'uint256', name: 'tokenId', type: 'uint256' },
+    ],
+    name: 'Transfer',
+    type: 'event',
+  },
 ] as const
 
 export const FACTORY_ABI = [
@@ -298,6 +463,18 @@ export const FACTORY_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'token0', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'token1', type: 'address' },
+      { indexed: true, internalType: 'uint24', name: 'fee', type: 'uint24' },
+      { indexed: false, internalType: 'int24', name: 'tickSpacing', type: 'int24' },
+      { indexed: false, internalType: 'address', name: 'pool', type: 'address' },
+    ],
+    name: 'PoolCreated',
+    type: 'event',
+  },
 ] as const
 
 export const ERC20_ABI = [
@@ -342,6 +519,13 @@ export const ERC20_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'name',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
 ] as const
 
 export const WETH_ABI = [
@@ -361,6 +545,107 @@ export const WETH_ABI = [
   },
 ] as const
 
+// EIP-2612 extension; tokens without permit support revert on these
+export const ERC20_PERMIT_ABI = [
+  {
+    inputs: [],
+    name: 'DOMAIN_SEPARATOR',
+    outputs: [{ name: '', type: 'bytes32' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ name: 'owner', type: 'address' }],
+    name: 'nonces',
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'version',
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+// SelfPermit and Multicall, inherited by both SwapRouter and NonfungiblePositionManager
+export const SELF_PERMIT_ABI = [
+  {
+    inputs: [
+      { internalType: 'address', name: 'token', type: 'address' },
+      { internalType: 'uint256', name: 'value', type: 'uint256' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+      { internalType: 'uint8', name: 'v', type: 'uint8' },
+      { internalType: 'bytes32', name: 'r', type: 'bytes32' },
+      { internalType: 'bytes32', name: 's', type: 'bytes32' },
+    ],
+    name: 'selfPermit',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'bytes[]', name: 'data', type: 'bytes[]' }],
+    name: 'multicall',
+    outputs: [{ internalType: 'bytes[]', name: 'results', type: 'bytes[]' }],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const
+
+// Permit2's AllowanceTransfer: allowances the Universal Router pulls through, granted by signature
+export const PERMIT2_ABI = [
+  {
+    inputs: [
+      { internalType: 'address', name: 'owner', type: 'address' },
+      { internalType: 'address', name: 'token', type: 'address' },
+      { internalType: 'address', name: 'spender', type: 'address' },
+    ],
+    name: 'allowance',
+    outputs: [
+      { internalType: 'uint160', name: 'amount', type: 'uint160' },
+      { internalType: 'uint48', name: 'expiration', type: 'uint48' },
+      { internalType: 'uint48', name: 'nonce', type: 'uint48' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
+export const UNIVERSAL_ROUTER_ABI = [
+  {
+    inputs: [
+      { internalType: 'bytes', name: 'commands', type: 'bytes' },
+      { internalType: 'bytes[]', name: 'inputs', type: 'bytes[]' },
+      { internalType: 'uint256', name: 'deadline', type: 'uint256' },
+    ],
+    name: 'execute',
+    outputs: [],
+    stateMutability: 'payable',
+    type: 'function',
+  },
+] as const
+
+// PeripheryImmutableState, inherited by SwapRouter, QuoterV2 and NonfungiblePositionManager
+export const PERIPHERY_IMMUTABLE_STATE_ABI = [
+  {
+    inputs: [],
+    name: 'factory',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'WETH9',
+    outputs: [{ internalType: 'address', name: '', type: 'address' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+] as const
+
 export const POOL_ABI = [
   {
     inputs: [],
@@ -412,6 +697,53 @@ export const POOL_ABI = [
     stateMutability: 'view',
     type: 'function',
   },
+  {
+    inputs: [],
+    name: 'feeGrowthGlobal0X128',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [],
+    name: 'feeGrowthGlobal1X128',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'uint32[]', name: 'secondsAgos', type: 'uint32[]' }],
+    name: 'observe',
+    outputs: [
+      { internalType: 'int56[]', name: 'tickCumulatives', type: 'int56[]' },
+      { internalType: 'uint160[]', name: 'secondsPerLiquidityCumulativeX128s', type: 'uint160[]' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'int16', name: '', type: 'int16' }],
+    name: 'tickBitmap',
+    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [{ internalType: 'int24', name: '', type: 'int24' }],
+    name: 'ticks',
+    outputs: [
+      { internalType: 'uint128', name: 'liquidityGross', type: 'uint128' },
+      { internalType: 'int128', name: 'liquidityNet', type: 'int128' },
+      { internalType: 'uint256', name: 'feeGrowthOutside0X128', type: 'uint256' },
+      { internalType: 'uint256', name: 'feeGrowthOutside1X128', type: 'uint256' },
+      { internalType: 'int56', name: 'tickCumulativeOutside', type: 'int56' },
+      { internalType: 'uint160', name: 'secondsPerLiquidityOutsideX128', type: 'uint160' },
+      { internalType: 'uint32', name: 'secondsOutside', type: 'uint32' },
+      { internalType: 'bool', name: 'initialized', type: 'bool' },
+    ],
+    stateMutability: 'view',
+    type: 'function',
+  },
   {
     inputs: [{ internalType: 'uint160', name: 'sqrtPriceX96', type: 'uint160' }],
     name: 'initialize',
@@ -419,4 +751,18 @@ export const POOL_ABI = [
     stateMutability: 'nonpayable',
     type: 'function',
   },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: 'address', name: 'sender', type: 'address' },
+      { indexed: true, internalType: 'address', name: 'recipient', type: 'address' },
+      { indexed: false, internalType: 'int256', name: 'amount0', type: 'int256' },
+      { indexed: false, internalType: 'int256', name: 'amount1', type: 'int256' },
+      { indexed: false, internalType: 'uint160', name: 'sqrtPriceX96', type: 'uint160' },
+      { indexed: false, internalType: 'uint128', name: 'liquidity', type: 'uint128' },
+      { indexed: false, internalType: 'int24', name: 'tick', type: 'int24' },
+    ],
+    name: 'Swap',
+    type: 'event',
+  },
 ] as const
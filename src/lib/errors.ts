@@ -0,0 +1,295 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError as ViemInsufficientFundsError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  type Hex,
+} from 'viem'
+
+export type DexErrorCode =
+  | 'USER_REJECTED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'WRONG_NETWORK'
+  | 'INSUFFICIENT_BALANCE'
+  | 'INSUFFICIENT_ALLOWANCE'
+  | 'TRANSFER_FAILED'
+  | 'SLIPPAGE'
+  | 'DEADLINE'
+  | 'POOL_STATE'
+  | 'TICK_RANGE'
+  | 'POSITION'
+  | 'REVERTED'
+  | 'UNKNOWN'
+
+/**
+ * Error with a message fit to show users. `reason` keeps the raw revert string
+ * or custom error name when there was one.
+ */
+export class DexError extends Error {
+  readonly code: DexErrorCode
+  readonly reason?: string
+
+  constructor(code: DexErrorCode, message: string, reason?: string) {
+    super(message)
+    this.name = 'DexError'
+    this.code = code
+    this.reason = reason
+  }
+}
+
+export class UserRejectedError extends DexError {
+  constructor() {
+    super('USER_REJECTED', 'Transaction was rejected in your wallet.')
+    this.name = 'UserRejectedError'
+  }
+}
+
+export class InsufficientFundsError extends DexError {
+  constructor() {
+    super('INSUFFICIENT_FUNDS', 'Not enough BCX to pay for this transaction and its gas.')
+    this.name = 'InsufficientFundsError'
+  }
+}
+
+/**
+ * The wallet is on a different chain than the one the app is reading from
+ */
+export class WrongNetworkError extends DexError {
+  constructor(expected: string) {
+    super('WRONG_NETWORK', `Your wallet is connected to a different network. Switch to ${expected} and try again.`)
+    this.name = 'WrongNetworkError'
+  }
+}
+
+/**
+ * A contract reverted. Subclasses group the reasons users can act on.
+ */
+export class ContractRevertError extends DexError {
+  constructor(code: DexErrorCode, message: string, reason?: string) {
+    super(code, message, reason)
+    this.name = 'ContractRevertError'
+  }
+}
+
+export class SlippageError extends ContractRevertError {
+  constructor(message: string, reason: string) {
+    super('SLIPPAGE', message, reason)
+    this.name = 'SlippageError'
+  }
+}
+
+export class DeadlineError extends ContractRevertError {
+  constructor(message: string, reason: string) {
+    super('DEADLINE', message, reason)
+    this.name = 'DeadlineError'
+  }
+}
+
+export class TransferFailedError extends ContractRevertError {
+  constructor(code: DexErrorCode, message: string, reason: string) {
+    super(code, message, reason)
+    this.name = 'TransferFailedError'
+  }
+}
+
+export class PoolStateError extends ContractRevertError {
+  constructor(message: string, reason: string) {
+    super('POOL_STATE', message, reason)
+    this.name = 'PoolStateError'
+  }
+}
+
+export class TickRangeError extends ContractRevertError {
+  constructor(message: string, reason: string) {
+    super('TICK_RANGE', message, reason)
+    this.name = 'TickRangeError'
+  }
+}
+
+/**
+ * A pre-flight simulation predicted a failure, so nothing was sent.
+ * Keeps the code and reason of the error the simulation ran into.
+ */
+export class SimulationError extends DexError {
+  constructor(predicted: DexError) {
+    super(predicted.code, `This transaction would fail, so it was not sent. ${predicted.message}`, predicted.reason)
+    this.name = 'SimulationError'
+  }
+}
+
+type RevertFactory = (reason: string) => ContractRevertError
+
+const slippage = (message: string): RevertFactory => reason => new SlippageError(message, reason)
+const transfer = (message: string, code: DexErrorCode = 'TRANSFER_FAILED'): RevertFactory =>
+  reason => new TransferFailedError(code, message, reason)
+const poolState = (message: string): RevertFactory => reason => new PoolStateError(message, reason)
+const tickRange = (message: string): RevertFactory => reason => new TickRangeError(message, reason)
+const position = (message: string): RevertFactory => reason => new ContractRevertError('POSITION', message, reason)
+
+/**
+ * Revert strings from Uniswap V3 core, periphery and their token helpers
+ */
+const KNOWN_REVERTS: Record<string, RevertFactory> = {
+  // TransferHelper
+  STF: transfer('The router could not pull your input tokens. Check your balance and that the token is approved.'),
+  ST: transfer('A token transfer failed.'),
+  SA: transfer('Token approval failed.'),
+  STE: transfer('Sending BCX failed.'),
+  // SwapRouter
+  'Too little received': slippage('The price moved past your slippage tolerance and you would receive less than the minimum. Try again or raise the slippage tolerance.'),
+  'Too much requested': slippage('The price moved past your slippage tolerance and the swap would cost more than your maximum input. Try again or raise the slippage tolerance.'),
+  'Transaction too old': reason => new DeadlineError('The transaction deadline passed before it was mined. Submit it again or allow a longer deadline.', reason),
+  'Insufficient WETH9': transfer('Not enough WBCX to unwrap.', 'INSUFFICIENT_BALANCE'),
+  'Insufficient token': transfer('Not enough tokens left in the router to sweep.', 'INSUFFICIENT_BALANCE'),
+  // NonfungiblePositionManager
+  'Price slippage check': slippage('The pool price moved while adding liquidity and the deposit fell below your minimum amounts. Try again or raise the slippage tolerance.'),
+  'Not approved': position('This wallet is not allowed to manage this position.'),
+  'Not cleared': position('Remove all liquidity and collect all fees before burning the position.'),
+  'Invalid token ID': position('This position does not exist.'),
+  // UniswapV3Pool
+  LOK: poolState('The pool is locked. It has not been initialized yet or is busy with another operation.'),
+  AI: poolState('The pool is already initialized.'),
+  AS: poolState('The swap amount must be greater than zero.'),
+  SPL: poolState('The swap price limit is on the wrong side of the current pool price.'),
+  IIA: transfer('The pool did not receive enough input tokens for the swap.'),
+  M0: transfer('The pool did not receive the token0 deposit.'),
+  M1: transfer('The pool did not receive the token1 deposit.'),
+  LO: poolState('This would put more liquidity on a tick than the pool allows.'),
+  NP: position('The position has no liquidity to update.'),
+  LS: position('Cannot remove more liquidity than the position holds.'),
+  TLU: tickRange('The lower price bound must be below the upper bound.'),
+  TLM: tickRange('The lower price bound is below the lowest price the pool supports.'),
+  TUM: tickRange('The upper price bound is above the highest price the pool supports.'),
+  // TickMath, as strings in 0.7 builds and custom errors in later ones
+  T: tickRange('A price bound is outside the range the pool supports.'),
+  R: tickRange('A price is outside the range the pool supports.'),
+  // OpenZeppelin ERC20 custom errors
+  ERC20InsufficientBalance: transfer('Your token balance is too low for this transaction.', 'INSUFFICIENT_BALANCE'),
+  ERC20InsufficientAllowance: transfer('The token allowance is too low. Approve the token and try again.', 'INSUFFICIENT_ALLOWANCE'),
+}
+
+const CUSTOM_ERRORS_ABI = [
+  { type: 'error', name: 'T', inputs: [] },
+  { type: 'error', name: 'R', inputs: [] },
+  {
+    type: 'error',
+    name: 'ERC20InsufficientBalance',
+    inputs: [
+      { name: 'sender', type: 'address' },
+      { name: 'balance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'error',
+    name: 'ERC20InsufficientAllowance',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'allowance', type: 'uint256' },
+      { name: 'needed', type: 'uint256' },
+    ],
+  },
+] as const
+
+// Node and wallet phrasings of a revert string
+const REVERT_PATTERNS = [
+  /reverted with reason string ['"](.+?)['"]/i,
+  /execution reverted with reason: (.+?)\.?$/im,
+  /execution reverted: (.+?)$/im,
+]
+
+/**
+ * Decode raw revert data; Error(string) yields its message, custom errors their name
+ */
+function decodeRevertData(data: Hex): string | undefined {
+  try {
+    // viem also matches the built-in Error(string) and Panic(uint256)
+    const { errorName, args } = decodeErrorResult({ abi: CUSTOM_ERRORS_ABI, data }) as { errorName: string; args?: readonly unknown[] }
+    if (errorName === 'Error') return String(args?.[0])
+    if (errorName === 'Panic') return `Panic(${args?.[0]})`
+    return errorName
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Pull the revert string or custom error name out of a viem or wallet error
+ */
+export function extractRevertReason(error: unknown): string | undefined {
+  if (error instanceof BaseError) {
+    const reverted = error.walk(e => e instanceof ContractFunctionRevertedError)
+    if (reverted instanceof ContractFunctionRevertedError) {
+      if (reverted.reason) return reverted.reason
+      if (reverted.data?.errorName) return reverted.data.errorName
+      if (reverted.raw) {
+        const name = decodeRevertData(reverted.raw)
+        if (name) return name
+      }
+    }
+
+    // RPC errors carry the raw revert data on some link of the chain
+    const withData = error.walk(e => typeof (e as { data?: unknown }).data === 'string')
+    const data = (withData as { data?: string } | null)?.data
+    if (data?.startsWith('0x') && data.length >= 10) {
+      const name = decodeRevertData(data as Hex)
+      if (name) return name
+    }
+  }
+
+  const texts = error instanceof BaseError
+    ? [error.details, error.shortMessage, error.message]
+    : error instanceof Error
+    ? [error.message]
+    : [String(error)]
+  for (const text of texts) {
+    if (!text) continue
+    for (const pattern of REVERT_PATTERNS) {
+      const match = text.match(pattern)
+      if (match && match[1].trim()) return match[1].trim()
+    }
+  }
+  return undefined
+}
+
+function isUserRejection(error: unknown): boolean {
+  if (error instanceof BaseError && error.walk(e => e instanceof UserRejectedRequestError)) return true
+  const { code } = (error ?? {}) as { code?: unknown }
+  if (code === 4001 || code === 'ACTION_REJECTED') return true
+  const message = error instanceof Error ? error.message : String(error)
+  return /user (rejected|denied)|rejected the request|request rejected/i.test(message)
+}
+
+/**
+ * Map any error from a wallet, RPC node or contract to a typed DexError
+ * @param fallback Prefix for errors we can't explain, e.g. 'Failed to execute swap'
+ */
+export function decodeDexError(error: unknown, fallback?: string): DexError {
+  if (error instanceof DexError) return error
+  if (isUserRejection(error)) return new UserRejectedError()
+  if (error instanceof BaseError && error.walk(e => e instanceof ViemInsufficientFundsError)) {
+    return new InsufficientFundsError()
+  }
+
+  const reason = extractRevertReason(error)
+  if (reason) {
+    const known = Object.hasOwn(KNOWN_REVERTS, reason) ? KNOWN_REVERTS[reason] : undefined
+    if (known) return known(reason)
+    return new ContractRevertError('REVERTED', `The transaction reverted: ${reason}`, reason)
+  }
+
+  const detail = error instanceof BaseError
+    ? error.shortMessage
+    : error instanceof Error
+    ? error.message
+    : 'Unknown error'
+  return new DexError('UNKNOWN', fallback ? `${fallback}: ${detail}` : detail)
+}
+
+/**
+ * Human readable message for any error
+ */
+export function getErrorMessage(error: unknown, fallback?: string): string {
+  return decodeDexError(error, fallback).message
+}
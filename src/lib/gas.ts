@@ -0,0 +1,200 @@
+import { formatUnits, parseUnits, type Account, type Address, type PublicClient } from 'viem'
+import { getUsdTokens, tokens } from '../config/tokens'
+import { findBestRoute, type RouteGasPrice } from './routing'
+import type { ContractWrite } from './simulation'
+import { formatBalance, formatUsd } from './utils'
+
+/**
+ * One transaction of a user action, e.g. the approval before a swap
+ */
+export interface GasStep {
+  label: string
+  gas: bigint
+  estimated: boolean // false when a typical value stands in, e.g. for a step that needs an approval mined first
+}
+
+export interface GasCost {
+  gas: bigint
+  bcx: string // Network fee in BCX, formatted
+  usd?: string // Missing when BCX has no USD price
+}
+
+export interface NetworkFee {
+  weiPerGas: bigint
+  bcxUsdPrice?: number
+}
+
+export interface GasBreakdown {
+  steps: (GasStep & GasCost)[]
+  total: GasCost
+}
+
+// Intrinsic cost of every transaction; QuoterV2's gasEstimate leaves it out
+export const TX_BASE_GAS = BigInt(21000)
+
+// Typical gas used per step on Uniswap V3 deployments
+export const FALLBACK_GAS = {
+  approve: BigInt(50000),
+  selfPermit: BigInt(60000), // Redeeming an EIP-2612 permit inside a multicall
+  permit2Permit: BigInt(70000), // Redeeming a Permit2 signature in a Universal Router command
+  wrap: BigInt(50000),
+  unwrap: BigInt(40000),
+  swap: BigInt(180000),
+  createPool: BigInt(5000000),
+  initializePool: BigInt(100000),
+  mint: BigInt(550000),
+}
+
+const ONE_BCX = parseUnits('1', 18)
+
+// Gas prices and BCX conversion rates, keyed by chain and token
+const gasPriceCache = new Map<string, bigint>()
+const GAS_PRICE_CACHE_TTL = 15000 // 15 seconds
+const bcxRateCache = new Map<string, bigint | null>()
+const BCX_RATE_CACHE_TTL = 60000 // 60 seconds
+
+async function getGasPrice(publicClient: PublicClient): Promise<bigint> {
+  const cacheKey = String(publicClient.chain?.id)
+  const cached = gasPriceCache.get(cacheKey)
+  if (cached !== undefined) return cached
+
+  const gasPrice = await publicClient.getGasPrice()
+  gasPriceCache.set(cacheKey, gasPrice)
+  setTimeout(() => gasPriceCache.delete(cacheKey), GAS_PRICE_CACHE_TTL)
+  return gasPrice
+}
+
+/**
+ * How much of a token 1 BCX buys, quoted through the best WBCX route
+ * @returns Raw token units, or null if no route reaches the token
+ */
+export async function getTokenPerBcx(
+  publicClient: PublicClient,
+  token: Address,
+  feeTiers: number[]
+): Promise<bigint | null> {
+  if (token.toLowerCase() === tokens.WBCX.address.toLowerCase()) return ONE_BCX
+
+  const cacheKey = `${publicClient.chain?.id}:${token.toLowerCase()}`
+  const cached = bcxRateCache.get(cacheKey)
+  if (cached !== undefined) return cached
+
+  let rate: bigint | null = null
+  try {
+    const best = await findBestRoute(publicClient, tokens.WBCX.address as Address, token, ONE_BCX, feeTiers)
+    rate = best?.amount ?? null
+  } catch (error) {
+    console.error('Failed to price BCX in route token:', error)
+  }
+
+  bcxRateCache.set(cacheKey, rate)
+  setTimeout(() => bcxRateCache.delete(cacheKey), BCX_RATE_CACHE_TTL)
+  return rate
+}
+
+/**
+ * Gas price in units of the token a route is quoted in, for ranking routes net of gas
+ * @returns null if the gas price can't be read or the token can't be priced in BCX
+ */
+export async function getRouteGasPrice(
+  publicClient: PublicClient,
+  token: Address,
+  feeTiers: number[]
+): Promise<RouteGasPrice | null> {
+  try {
+    const [weiPerGas, tokenPerBcx] = await Promise.all([
+      getGasPrice(publicClient),
+      getTokenPerBcx(publicClient, token, feeTiers),
+    ])
+    return tokenPerBcx ? { weiPerGas, tokenPerBcx } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Current gas price and the USD price of BCX, from the first stablecoin with a route
+ */
+export async function getNetworkFee(publicClient: PublicClient, feeTiers: number[]): Promise<NetworkFee> {
+  const weiPerGas = await getGasPrice(publicClient)
+
+  for (const stable of getUsdTokens()) {
+    const rate = await getTokenPerBcx(publicClient, stable.address as Address, feeTiers)
+    if (rate) return { weiPerGas, bcxUsdPrice: Number(formatUnits(rate, stable.decimals)) }
+  }
+  return { weiPerGas }
+}
+
+/**
+ * Estimate the gas of a write as `account` would send it
+ * @returns null if the node can't estimate it, e.g. because the call would revert
+ */
+export async function estimateWriteGas(
+  publicClient: PublicClient,
+  account: Account | Address,
+  write: ContractWrite
+): Promise<bigint | null> {
+  try {
+    return await publicClient.estimateContractGas({
+      ...write,
+      account,
+    } as Parameters<PublicClient['estimateContractGas']>[0])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * A step with its estimated gas, or the typical gas for the step if estimation failed
+ */
+export function gasStep(label: string, estimate: bigint | null, fallback: bigint): GasStep {
+  return estimate !== null
+    ? { label, gas: estimate, estimated: true }
+    : { label, gas: fallback, estimated: false }
+}
+
+export function getGasCost(gas: bigint, fee: NetworkFee): GasCost {
+  const bcx = formatUnits(gas * fee.weiPerGas, 18)
+  return {
+    gas,
+    bcx,
+    usd: fee.bcxUsdPrice !== undefined ? String(Number(bcx) * fee.bcxUsdPrice) : undefined,
+  }
+}
+
+/**
+ * Price every step of an action and their total
+ */
+export function summarizeGas(steps: GasStep[], fee: NetworkFee): GasBreakdown {
+  const total = steps.reduce((acc, step) => acc + step.gas, BigInt(0))
+  return {
+    steps: steps.map(step => ({ ...step, ...getGasCost(step.gas, fee) })),
+    total: getGasCost(total, fee),
+  }
+}
+
+/**
+ * Price the steps of an action at the current network fee
+ * @returns null if the steps can't be estimated or the gas price can't be read
+ */
+export async function priceGasSteps(
+  publicClient: PublicClient,
+  steps: GasStep[] | Promise<GasStep[]>,
+  feeTiers: number[]
+): Promise<GasBreakdown | null> {
+  try {
+    const [resolved, fee] = await Promise.all([steps, getNetworkFee(publicClient, feeTiers)])
+    return summarizeGas(resolved, fee)
+  } catch (error) {
+    console.error('Failed to estimate network fee:', error)
+    return null
+  }
+}
+
+/**
+ * Format a network fee for display, e.g. "0.00042 BCX ($0.12)"
+ */
+export function formatGasCost(cost: GasCost): string {
+  const bcx = `${formatBalance(cost.bcx, 6)} BCX`
+  return cost.usd !== undefined ? `${bcx} (${formatUsd(cost.usd)})` : bcx
+}
@@ -0,0 +1,78 @@
+import { type Abi, type ContractFunctionParameters, type MulticallParameters, type PublicClient } from 'viem'
+
+// A view or pure function call on any contract
+export type ReadCall = ContractFunctionParameters<Abi, 'pure' | 'view'>
+
+export type ReadResult<T = unknown> =
+  | { status: 'success'; result: T }
+  | { status: 'failure'; error: Error }
+
+// Max calldata bytes per aggregate3 request; larger batches are chunked by viem
+const MULTICALL_BATCH_BYTES = 8192
+
+// Parallel reads per round when Multicall3 is not deployed
+const FALLBACK_CONCURRENCY = 20
+
+// Whether Multicall3 has bytecode on a chain, keyed by chain id (cleared on page refresh)
+const multicallAvailability = new Map<number, Promise<boolean>>()
+
+/**
+ * Check whether the chain's configured Multicall3 contract is deployed
+ */
+export function isMulticallAvailable(publicClient: PublicClient): Promise<boolean> {
+  const chain = publicClient.chain
+  const multicallAddress = chain?.contracts?.multicall3?.address
+  if (!chain || !multicallAddress) return Promise.resolve(false)
+
+  let available = multicallAvailability.get(chain.id)
+  if (!available) {
+    available = publicClient
+      .getCode({ address: multicallAddress })
+      .then(code => !!code && code !== '0x')
+      .catch(() => false)
+    multicallAvailability.set(chain.id, available)
+  }
+  return available
+}
+
+/**
+ * Read many contract functions at once. Uses Multicall3 (configured on the
+ * chain definition) when it is deployed, otherwise falls back to individual
+ * eth_calls in bounded parallel rounds. Failed calls never reject the batch.
+ * @returns One result per call, in call order
+ */
+export async function batchReadContracts(
+  publicClient: PublicClient,
+  calls: ReadCall[]
+): Promise<ReadResult[]> {
+  if (calls.length === 0) return []
+
+  if (await isMulticallAvailable(publicClient)) {
+    try {
+      const parameters: MulticallParameters<ReadCall[]> = {
+        contracts: calls,
+        allowFailure: true,
+        batchSize: MULTICALL_BATCH_BYTES,
+      }
+      return await publicClient.multicall(parameters)
+    } catch (error) {
+      console.error('Multicall failed, falling back to individual reads:', error)
+    }
+  }
+
+  const results: ReadResult[] = []
+  for (let i = 0; i < calls.length; i += FALLBACK_CONCURRENCY) {
+    const batch = calls.slice(i, i + FALLBACK_CONCURRENCY)
+    const settled = await Promise.allSettled(
+      batch.map(call => publicClient.readContract(call))
+    )
+    settled.forEach(result => {
+      results.push(
+        result.status === 'fulfilled'
+          ? { status: 'success', result: result.value }
+          : { status: 'failure', error: result.reason instanceof Error ? result.reason : new Error(String(result.reason)) }
+      )
+    })
+  }
+  return results
+}
@@ -0,0 +1,69 @@
+import type { PublicClient, WalletClient } from 'viem'
+import { blockxNetwork, getNetwork, type NetworkConfig } from '../config/networks'
+import { tokenList, tokens } from '../config/tokens'
+import { CONTRACT_ADDRESSES } from './contracts'
+import { WrongNetworkError } from './errors'
+
+let activeNetwork: NetworkConfig = blockxNetwork
+
+/**
+ * The network services currently read from and write to
+ */
+export function getActiveNetwork(): NetworkConfig {
+  return activeNetwork
+}
+
+/**
+ * The network a client is connected to, falling back to the active one.
+ * Work that outlives a network switch resolves its network through this
+ * once, so it keeps reading and storing data for the chain it started on.
+ */
+export function getClientNetwork(publicClient: PublicClient): NetworkConfig {
+  return getNetwork(publicClient.chain?.id) ?? activeNetwork
+}
+
+/**
+ * Point CONTRACT_ADDRESSES, tokens and tokenList at another network, in place
+ * so every module holding them follows along. Syncs already running keep
+ * the network they resolved through getClientNetwork.
+ * @returns false, changing nothing, if the chain isn't supported
+ */
+export function setActiveNetwork(chainId: number): boolean {
+  const network = getNetwork(chainId)
+  if (!network) return false
+  if (network === activeNetwork) return true
+
+  activeNetwork = network
+  Object.assign(CONTRACT_ADDRESSES, network.contracts)
+  Object.keys(tokens).forEach(key => delete tokens[key])
+  Object.assign(tokens, network.tokens)
+  tokenList.splice(0, tokenList.length, ...Object.values(network.tokens))
+  return true
+}
+
+/**
+ * Block explorer of a network, without a trailing slash
+ * @param chainId Network to link to; defaults to the active one
+ */
+export function getExplorerUrl(chainId?: number): string {
+  const network = (chainId !== undefined && getNetwork(chainId)) || activeNetwork
+  return network.chain.blockExplorers?.default.url.replace(/\/$/, '') ?? ''
+}
+
+/**
+ * localStorage key for tokens imported by address on the active network;
+ * mainnet keeps the key used before there were other networks
+ */
+export function getImportedTokensStorageKey(): string {
+  return activeNetwork === blockxNetwork ? 'importedTokens' : `importedTokens:${activeNetwork.chain.id}`
+}
+
+/**
+ * Make sure the wallet would send to the chain the app is reading from
+ * @throws WrongNetworkError if the wallet is on another chain
+ */
+export async function assertWalletNetwork(publicClient: PublicClient, walletClient: WalletClient): Promise<void> {
+  const expected = publicClient.chain ?? activeNetwork.chain
+  const walletChainId = await walletClient.getChainId()
+  if (walletChainId !== expected.id) throw new WrongNetworkError(expected.name)
+}
@@ -0,0 +1,202 @@
+import {
+  domainSeparator,
+  encodeFunctionData,
+  parseSignature,
+  zeroAddress,
+  type Address,
+  type EncodeFunctionDataParameters,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from 'viem'
+import { ERC20_ABI, ERC20_PERMIT_ABI, SELF_PERMIT_ABI } from './contracts'
+import { assertWalletNetwork } from './network'
+import { simulateAndWrite, type ContractWrite } from './simulation'
+import { resolveApprovalAmount } from './approvals'
+
+interface PermitDomain {
+  name: string
+  version: string
+  chainId: number
+}
+
+/**
+ * A signed EIP-2612 permit, in the shape SelfPermit.selfPermit takes it
+ */
+export interface SelfPermit {
+  token: Address
+  value: bigint
+  deadline: bigint
+  v: number
+  r: Hex
+  s: Hex
+}
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const
+
+// Tried after the token's own version(), which many permit tokens don't expose
+const COMMON_PERMIT_VERSIONS = ['1', '2']
+
+// EIP-712 domain of each token, or null if it has no usable permit
+const permitDomainCache = new Map<string, PermitDomain | null>()
+
+/**
+ * Work out the EIP-712 domain a token signs permits under. A token counts as
+ * supporting permit when it exposes DOMAIN_SEPARATOR and nonces and the
+ * separator can be rebuilt from its name and version, so a signature made
+ * here is one the token will accept.
+ */
+async function getPermitDomain(publicClient: PublicClient, token: Address): Promise<PermitDomain | null> {
+  const chainId = publicClient.chain?.id ?? await publicClient.getChainId()
+  const cacheKey = `${chainId}:${token.toLowerCase()}`
+  const cached = permitDomainCache.get(cacheKey)
+  if (cached !== undefined) return cached
+
+  let domain: PermitDomain | null = null
+  try {
+    const [separator, name] = await Promise.all([
+      publicClient.readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'DOMAIN_SEPARATOR' }),
+      publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'name' }),
+      publicClient.readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'nonces', args: [zeroAddress] }),
+    ])
+    const ownVersion = await publicClient
+      .readContract({ address: token, abi: ERC20_PERMIT_ABI, functionName: 'version' })
+      .catch(() => null)
+
+    const versions = ownVersion ? [ownVersion, ...COMMON_PERMIT_VERSIONS] : COMMON_PERMIT_VERSIONS
+    const version = versions.find(v =>
+      domainSeparator({ domain: { name, version: v, chainId, verifyingContract: token } }).toLowerCase() === separator.toLowerCase()
+    )
+    if (version) domain = { name, version, chainId }
+  } catch {
+    // Missing DOMAIN_SEPARATOR or nonces: no permit
+  }
+
+  permitDomainCache.set(cacheKey, domain)
+  return domain
+}
+
+/**
+ * Whether a token can be approved with an EIP-2612 signature
+ */
+export async function supportsPermit(publicClient: PublicClient, token: Address): Promise<boolean> {
+  return (await getPermitDomain(publicClient, token)) !== null
+}
+
+/**
+ * Ask the wallet to sign a permit letting `spender` pull `value` of `token`
+ * @returns null if the token doesn't support permit
+ */
+export async function signPermit(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  token: Address,
+  spender: Address,
+  value: bigint,
+  deadline: bigint
+): Promise<SelfPermit | null> {
+  const account = walletClient.account
+  if (!account) throw new Error('Wallet not connected')
+
+  const domain = await getPermitDomain(publicClient, token)
+  if (!domain) return null
+  await assertWalletNetwork(publicClient, walletClient)
+
+  const nonce = await publicClient.readContract({
+    address: token,
+    abi: ERC20_PERMIT_ABI,
+    functionName: 'nonces',
+    args: [account.address],
+  })
+  const signature = await walletClient.signTypedData({
+    account,
+    domain: { ...domain, verifyingContract: token },
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: { owner: account.address, spender, value, nonce, deadline },
+  })
+
+  const { r, s, v, yParity } = parseSignature(signature)
+  return { token, value, deadline, v: Number(v ?? BigInt(yParity + 27)), r, s }
+}
+
+/**
+ * Make sure `spender` can pull `amount` of `token` in the next transaction.
+ * Nothing happens when the allowance already covers it; tokens with permit
+ * are signed for, anything else is approved and the approval waited on.
+ * Either way the allowance granted follows the approval policy.
+ * The position manager pulls with a plain transferFrom, so Permit2 is no
+ * substitute here; swaps use it through the Universal Router instead.
+ * @param onApprove Called with the approve transaction hash, e.g. to track it
+ * @returns The permit to bundle into the action with withSelfPermits, if one was signed
+ */
+export async function permitOrApprove(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  token: Address,
+  spender: Address,
+  amount: bigint,
+  deadline: bigint,
+  onApprove?: (hash: Hash) => void
+): Promise<SelfPermit | null> {
+  const owner = walletClient.account?.address
+  if (!owner) throw new Error('Wallet not connected')
+
+  const allowance = await publicClient.readContract({
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [owner, spender],
+  })
+  if (allowance >= amount) return null
+
+  const approval = await resolveApprovalAmount(publicClient, token, amount)
+  const permit = await signPermit(walletClient, publicClient, token, spender, approval, deadline)
+  if (permit) return permit
+
+  const hash = await simulateAndWrite(publicClient, walletClient, {
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'approve',
+    args: [spender, approval],
+  })
+  onApprove?.(hash)
+  // The action is simulated against the new allowance
+  await publicClient.waitForTransactionReceipt({ hash })
+  return null
+}
+
+/**
+ * Redeem permits in the same transaction as a SwapRouter or position manager
+ * write, by prepending selfPermit calls to its multicall
+ */
+export function withSelfPermits(write: ContractWrite, permits: (SelfPermit | null)[]): ContractWrite {
+  const signed = permits.filter((p): p is SelfPermit => p !== null)
+  if (signed.length === 0) return write
+
+  const permitCalls = signed.map(p => encodeFunctionData({
+    abi: SELF_PERMIT_ABI,
+    functionName: 'selfPermit',
+    args: [p.token, p.value, p.deadline, p.v, p.r, p.s],
+  }))
+  const calls = write.functionName === 'multicall'
+    ? write.args?.[0] as readonly Hex[]
+    : [encodeFunctionData({ abi: write.abi, functionName: write.functionName, args: write.args } as EncodeFunctionDataParameters)]
+
+  return {
+    address: write.address,
+    abi: SELF_PERMIT_ABI,
+    functionName: 'multicall',
+    args: [[...permitCalls, ...calls]],
+    value: write.value,
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  concatHex,
+  encodeAbiParameters,
+  maxUint160,
+  numberToHex,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from 'viem'
+import { CONTRACT_ADDRESSES, ERC20_ABI, PERMIT2_ABI, UNIVERSAL_ROUTER_ABI } from './contracts'
+import { assertWalletNetwork } from './network'
+import type { ContractWrite } from './simulation'
+
+export interface Permit2Contracts {
+  permit2: Address
+  router: Address // Universal Router, the spender Permit2 allowances are signed for
+}
+
+/**
+ * A signed Permit2 PermitSingle, in the shape the Universal Router's PERMIT2_PERMIT command takes it
+ */
+export interface Permit2Permit {
+  details: {
+    token: Address
+    amount: bigint
+    expiration: number
+    nonce: number
+  }
+  spender: Address
+  sigDeadline: bigint
+  signature: Hex
+}
+
+/**
+ * One V3 swap through the Universal Router, pulling the input from the wallet through Permit2
+ */
+export interface UniversalRouterSwap {
+  path: Hex // Encoded as SwapRouter takes it: tokenIn first for exact input, tokenOut first for exact output
+  amount: bigint // amountIn for exact input, amountOut for exact output
+  limit: bigint // amountOutMinimum for exact input, amountInMaximum for exact output
+}
+
+// Universal Router command types
+const V3_SWAP_EXACT_IN = 0x00
+const V3_SWAP_EXACT_OUT = 0x01
+const PERMIT2_PERMIT = 0x0a
+
+// Signed allowances last this long, so swapping the token again within it needs no new signature
+const PERMIT2_EXPIRATION = 30 * 24 * 60 * 60 // 30 days
+
+const PERMIT_SINGLE_TYPES = {
+  PermitSingle: [
+    { name: 'details', type: 'PermitDetails' },
+    { name: 'spender', type: 'address' },
+    { name: 'sigDeadline', type: 'uint256' },
+  ],
+  PermitDetails: [
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint160' },
+    { name: 'expiration', type: 'uint48' },
+    { name: 'nonce', type: 'uint48' },
+  ],
+} as const
+
+const PERMIT_SINGLE_PARAMETER = {
+  type: 'tuple',
+  components: [
+    {
+      name: 'details',
+      type: 'tuple',
+      components: [
+        { name: 'token', type: 'address' },
+        { name: 'amount', type: 'uint160' },
+        { name: 'expiration', type: 'uint48' },
+        { name: 'nonce', type: 'uint48' },
+      ],
+    },
+    { name: 'spender', type: 'address' },
+    { name: 'sigDeadline', type: 'uint256' },
+  ],
+} as const
+
+// (recipient, amountIn or amountOut, amountOutMin or amountInMax, path, payerIsUser)
+const V3_SWAP_PARAMETERS = [
+  { type: 'address' },
+  { type: 'uint256' },
+  { type: 'uint256' },
+  { type: 'bytes' },
+  { type: 'bool' },
+] as const
+
+/**
+ * Permit2 and the Universal Router on the active network, or null unless both are configured
+ */
+export function getPermit2Contracts(): Permit2Contracts | null {
+  if (!CONTRACT_ADDRESSES.PERMIT2 || !CONTRACT_ADDRESSES.UNIVERSAL_ROUTER) return null
+  return { permit2: CONTRACT_ADDRESSES.PERMIT2 as Address, router: CONTRACT_ADDRESSES.UNIVERSAL_ROUTER as Address }
+}
+
+/**
+ * Whether Permit2 may pull `amount` of `token`: the one approve transaction a token needs before it can be signed for
+ */
+export async function hasPermit2Approval(
+  publicClient: PublicClient,
+  { permit2 }: Permit2Contracts,
+  token: Address,
+  owner: Address,
+  amount: bigint
+): Promise<boolean> {
+  const allowance = await publicClient.readContract({
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [owner, permit2],
+  })
+  return allowance >= amount
+}
+
+/**
+ * Whether an earlier signature still lets the Universal Router pull `amount` of `token` through Permit2
+ */
+export async function hasPermit2Allowance(
+  publicClient: PublicClient,
+  { permit2, router }: Permit2Contracts,
+  token: Address,
+  owner: Address,
+  amount: bigint
+): Promise<boolean> {
+  const [allowance, expiration] = await publicClient.readContract({
+    address: permit2,
+    abi: PERMIT2_ABI,
+    functionName: 'allowance',
+    args: [owner, token, router],
+  })
+  return allowance >= amount && expiration > Math.floor(Date.now() / 1000)
+}
+
+/**
+ * Ask the wallet to sign a Permit2 allowance letting the Universal Router pull `amount` of `token`
+ * @param sigDeadline Unix time after which the signature can no longer be redeemed
+ */
+export async function signPermit2(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  { permit2, router }: Permit2Contracts,
+  token: Address,
+  amount: bigint,
+  sigDeadline: bigint
+): Promise<Permit2Permit> {
+  const account = walletClient.account
+  if (!account) throw new Error('Wallet not connected')
+  await assertWalletNetwork(publicClient, walletClient)
+
+  const chainId = publicClient.chain?.id ?? await publicClient.getChainId()
+  const [, , nonce] = await publicClient.readContract({
+    address: permit2,
+    abi: PERMIT2_ABI,
+    functionName: 'allowance',
+    args: [account.address, token, router],
+  })
+  const details = {
+    token,
+    // Permit2 allowances are uint160; an unlimited approval policy signs for the largest one
+    amount: amount > maxUint160 ? maxUint160 : amount,
+    expiration: Math.floor(Date.now() / 1000) + PERMIT2_EXPIRATION,
+    nonce,
+  }
+
+  const signature = await walletClient.signTypedData({
+    account,
+    domain: { name: 'Permit2', chainId, verifyingContract: permit2 },
+    types: PERMIT_SINGLE_TYPES,
+    primaryType: 'PermitSingle',
+    message: { details, spender: router, sigDeadline },
+  })
+  return { details, spender: router, sigDeadline, signature }
+}
+
+/**
+ * The Universal Router call for V3 swaps paid from the wallet through Permit2,
+ * one command per swap so split quotes execute atomically
+ */
+export function buildUniversalRouterSwap(
+  router: Address,
+  tradeType: 'EXACT_INPUT' | 'EXACT_OUTPUT',
+  swaps: UniversalRouterSwap[],
+  recipient: Address,
+  deadline: bigint
+): ContractWrite {
+  const command = tradeType === 'EXACT_INPUT' ? V3_SWAP_EXACT_IN : V3_SWAP_EXACT_OUT
+  return {
+    address: router,
+    abi: UNIVERSAL_ROUTER_ABI,
+    functionName: 'execute',
+    args: [
+      concatHex(swaps.map(() => numberToHex(command, { size: 1 }))),
+      swaps.map(swap => encodeAbiParameters(V3_SWAP_PARAMETERS, [recipient, swap.amount, swap.limit, swap.path, true])),
+      deadline,
+    ],
+  }
+}
+
+/**
+ * Redeem a Permit2 signature in the same transaction as a Universal Router
+ * call, by prepending a PERMIT2_PERMIT command to it
+ */
+export function withPermit2Permit(write: ContractWrite, permit: Permit2Permit | null): ContractWrite {
+  if (!permit) return write
+
+  const [commands, inputs, deadline] = write.args as readonly [Hex, readonly Hex[], bigint]
+  const { details, spender, sigDeadline, signature } = permit
+  return {
+    ...write,
+    args: [
+      concatHex([numberToHex(PERMIT2_PERMIT, { size: 1 }), commands]),
+      [encodeAbiParameters([PERMIT_SINGLE_PARAMETER, { type: 'bytes' }], [{ details, spender, sigDeadline }, signature]), ...inputs],
+      deadline,
+    ],
+  }
+}
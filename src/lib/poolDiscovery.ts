@@ -0,0 +1,266 @@
+import { getAbiItem, type Address, type PublicClient } from 'viem'
+import { FACTORY_ABI, ERC20_ABI } from './contracts'
+import { batchReadContracts } from './multicall'
+import { getActiveNetwork, getClientNetwork } from './network'
+import { type NetworkConfig } from '../config/networks'
+import { type Token } from '../config/tokens'
+
+export interface DiscoveredPool {
+  address: Address
+  token0: Address
+  token1: Address
+  fee: number
+  tickSpacing: number
+  createdAtBlock: string // bigint serialized for localStorage
+}
+
+export interface PoolRegistry {
+  factory: string
+  deployBlock?: string // Factory deploy block found on-chain, for networks that don't configure one
+  lastScannedBlock: string // bigint serialized for localStorage
+  pools: DiscoveredPool[]
+  tokens: Token[] // Metadata for pool tokens not in the configured token list
+}
+
+export interface PoolSyncProgress {
+  fromBlock: bigint // First block this sync scans
+  scannedBlock: bigint // Last block scanned so far
+  latestBlock: bigint // Block the sync runs up to
+  registry: PoolRegistry // Pools found so far
+}
+
+const STORAGE_PREFIX = 'poolRegistry:'
+
+// Blocks per eth_getLogs request, kept under common RPC range limits
+export const LOG_BLOCK_RANGE = BigInt(5000)
+
+/**
+ * Block a network's factory was deployed at; scanning starts here on first load.
+ * Falls back to the block found on-chain by the first sync, then to genesis.
+ */
+export function getFactoryDeployBlock(network: NetworkConfig = getActiveNetwork()): bigint {
+  if (network.factoryDeployBlock !== undefined) return network.factoryDeployBlock
+  const found = loadPoolRegistry(network).deployBlock
+  return found ? BigInt(found) : BigInt(0)
+}
+
+const POOL_CREATED_EVENT = getAbiItem({ abi: FACTORY_ABI, name: 'PoolCreated' })
+
+// Shared across callers so the pools page and the router don't scan twice, keyed by chain id
+const syncInFlight = new Map<number, Promise<PoolRegistry>>()
+// Progress callbacks of everyone waiting on the sync in flight, keyed by chain id
+const syncListeners = new Map<number, Set<(progress: PoolSyncProgress) => void>>()
+
+function storageKey(network: NetworkConfig): string {
+  return STORAGE_PREFIX + network.chain.id
+}
+
+function emptyRegistry(network: NetworkConfig): PoolRegistry {
+  return {
+    factory: network.contracts.FACTORY.toLowerCase(),
+    lastScannedBlock: ((network.factoryDeployBlock ?? BigInt(0)) - BigInt(1)).toString(),
+    pools: [],
+    tokens: [],
+  }
+}
+
+/**
+ * Load a network's persisted registry, discarding it if the factory address changed
+ */
+export function loadPoolRegistry(network: NetworkConfig = getActiveNetwork()): PoolRegistry {
+  if (typeof window === 'undefined') return emptyRegistry(network)
+  try {
+    const raw = localStorage.getItem(storageKey(network))
+    if (!raw) return emptyRegistry(network)
+    const parsed = JSON.parse(raw) as PoolRegistry
+    if (parsed.factory !== network.contracts.FACTORY.toLowerCase()) return emptyRegistry(network)
+    return parsed
+  } catch {
+    return emptyRegistry(network)
+  }
+}
+
+function savePoolRegistry(network: NetworkConfig, registry: PoolRegistry) {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(storageKey(network), JSON.stringify(registry))
+  } catch {
+    // Storage full or unavailable; the next load simply rescans
+  }
+}
+
+/**
+ * Find token metadata in the network's token list, then among tokens resolved during discovery
+ */
+export function findKnownToken(
+  address: string,
+  registry?: PoolRegistry,
+  network: NetworkConfig = getActiveNetwork()
+): Token | undefined {
+  const lower = address.toLowerCase()
+  return (
+    Object.values(network.tokens).find(t => t.address.toLowerCase() === lower) ||
+    (registry ?? loadPoolRegistry(network)).tokens.find(t => t.address.toLowerCase() === lower)
+  )
+}
+
+/**
+ * Read symbol, name and decimals for tokens we have no metadata for
+ */
+export async function resolveTokenMetadata(
+  publicClient: PublicClient,
+  addresses: Address[]
+): Promise<Token[]> {
+  if (addresses.length === 0) return []
+
+  const FIELDS = ['symbol', 'name', 'decimals'] as const
+  const results = await batchReadContracts(
+    publicClient,
+    addresses.flatMap(address => FIELDS.map(functionName => ({ address, abi: ERC20_ABI, functionName })))
+  )
+
+  return addresses.map((address, i) => {
+    const [symbol, name, decimals] = results.slice(i * FIELDS.length, (i + 1) * FIELDS.length)
+    return {
+      address,
+      symbol: symbol.status === 'success' ? String(symbol.result) : 'UNKNOWN',
+      name: name.status === 'success' ? String(name.result) : 'Unknown Token',
+      decimals: decimals.status === 'success' ? Number(decimals.result) : 18,
+    }
+  })
+}
+
+/**
+ * Binary search for the first block with code at the factory address
+ * @returns undefined if the factory has no code or the RPC can't serve historical state
+ */
+async function findFactoryDeployBlock(
+  publicClient: PublicClient,
+  network: NetworkConfig,
+  latestBlock: bigint
+): Promise<bigint | undefined> {
+  const address = network.contracts.FACTORY as Address
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await publicClient.getCode({ address, blockNumber })
+    return !!code && code !== '0x'
+  }
+
+  try {
+    if (!await hasCode(latestBlock)) return undefined
+    let low = BigInt(0)
+    let high = latestBlock
+    while (low < high) {
+      const mid = (low + high) / BigInt(2)
+      if (await hasCode(mid)) {
+        high = mid
+      } else {
+        low = mid + BigInt(1)
+      }
+    }
+    return low
+  } catch (error) {
+    console.error('Could not look up the factory deploy block:', error)
+    return undefined
+  }
+}
+
+async function scanNewPools(
+  publicClient: PublicClient,
+  network: NetworkConfig,
+  onProgress: (progress: PoolSyncProgress) => void
+): Promise<PoolRegistry> {
+  const registry = loadPoolRegistry(network)
+  const latestBlock = await publicClient.getBlockNumber()
+
+  // Without a configured deploy block, find it once instead of scanning from genesis
+  if (network.factoryDeployBlock === undefined && registry.deployBlock === undefined) {
+    const deployBlock = await findFactoryDeployBlock(publicClient, network, latestBlock)
+    if (deployBlock !== undefined) {
+      registry.deployBlock = deployBlock.toString()
+      if (BigInt(registry.lastScannedBlock) < deployBlock) {
+        registry.lastScannedBlock = (deployBlock - BigInt(1)).toString()
+      }
+      savePoolRegistry(network, registry)
+    }
+  }
+
+  const startBlock = BigInt(registry.lastScannedBlock) + BigInt(1)
+  let fromBlock = startBlock
+
+  while (fromBlock <= latestBlock) {
+    const toBlock = fromBlock + LOG_BLOCK_RANGE - BigInt(1) < latestBlock
+      ? fromBlock + LOG_BLOCK_RANGE - BigInt(1)
+      : latestBlock
+
+    const logs = await publicClient.getLogs({
+      address: network.contracts.FACTORY as Address,
+      event: POOL_CREATED_EVENT,
+      fromBlock,
+      toBlock,
+    })
+
+    const newPools: DiscoveredPool[] = []
+    for (const log of logs) {
+      const { token0, token1, fee, tickSpacing, pool } = log.args
+      if (!token0 || !token1 || fee === undefined || tickSpacing === undefined || !pool) continue
+      if (registry.pools.some(p => p.address.toLowerCase() === pool.toLowerCase())) continue
+      newPools.push({
+        address: pool,
+        token0,
+        token1,
+        fee: Number(fee),
+        tickSpacing: Number(tickSpacing),
+        createdAtBlock: (log.blockNumber ?? toBlock).toString(),
+      })
+    }
+
+    // Resolve metadata for any token we haven't seen yet
+    const unknownTokens = Array.from(new Set(newPools.flatMap(p => [p.token0, p.token1])))
+      .filter(address => !findKnownToken(address, registry, network)) as Address[]
+    const resolved = await resolveTokenMetadata(publicClient, unknownTokens)
+
+    registry.pools.push(...newPools)
+    registry.tokens.push(...resolved)
+    registry.lastScannedBlock = toBlock.toString()
+
+    // Persist after every range so an interrupted scan resumes where it stopped
+    savePoolRegistry(network, registry)
+    onProgress({ fromBlock: startBlock, scannedBlock: toBlock, latestBlock, registry })
+
+    fromBlock = toBlock + BigInt(1)
+  }
+
+  return registry
+}
+
+/**
+ * Bring the pool registry of the client's network up to date with the
+ * factory's PoolCreated logs. The network is fixed when the sync starts, so
+ * switching networks meanwhile doesn't mix chains.
+ * @param onProgress Called after each scanned block range, also when joining a sync already running
+ * @returns Every pool the factory has created, with metadata for their tokens
+ */
+export async function syncPoolRegistry(
+  publicClient: PublicClient,
+  onProgress?: (progress: PoolSyncProgress) => void
+): Promise<PoolRegistry> {
+  const network = getClientNetwork(publicClient)
+  const chainId = network.chain.id
+  let listeners = syncListeners.get(chainId)
+  if (!listeners) {
+    listeners = new Set()
+    syncListeners.set(chainId, listeners)
+  }
+  if (onProgress) listeners.add(onProgress)
+
+  let inFlight = syncInFlight.get(chainId)
+  if (!inFlight) {
+    const notify = (progress: PoolSyncProgress) => syncListeners.get(chainId)?.forEach(listener => listener(progress))
+    inFlight = scanNewPools(publicClient, network, notify).finally(() => {
+      syncInFlight.delete(chainId)
+      syncListeners.delete(chainId)
+    })
+    syncInFlight.set(chainId, inFlight)
+  }
+  return inFlight
+}
@@ -0,0 +1,198 @@
+import { formatUnits, getAbiItem, type Address, type PublicClient } from 'viem'
+import { ERC20_ABI, POOL_ABI } from './contracts'
+import { batchReadContracts } from './multicall'
+import { LOG_BLOCK_RANGE } from './poolDiscovery'
+import { getBlocksForDuration } from './blocks'
+import { getUsdTokens } from '../config/tokens'
+import type { Pool, PoolStats } from '../types/pool'
+
+const SECONDS_PER_DAY = 86400
+
+const SWAP_EVENT = getAbiItem({ abi: POOL_ABI, name: 'Swap' })
+
+// Stats per chain and pool address (cleared on page refresh)
+const poolStatsCache = new Map<string, PoolStats>()
+const STATS_CACHE_TTL = 60000 // 60 seconds
+
+/**
+ * Derive USD prices for pool tokens, starting from stablecoins at exactly $1 and walking
+ * outwards through pools. At each step the deepest pool sets the price.
+ * @returns USD price per whole token, keyed by lowercase address
+ */
+export function getTokenUsdPrices(pools: Pool[]): Map<string, number> {
+  const prices = new Map<string, number>()
+  getUsdTokens().forEach(token => prices.set(token.address.toLowerCase(), 1))
+
+  const byDepth = pools
+    .filter(p => BigInt(p.liquidity) > BigInt(0) && p.currentPrice > 0 && isFinite(p.currentPrice))
+    .sort((a, b) => (BigInt(b.liquidity) > BigInt(a.liquidity) ? 1 : BigInt(b.liquidity) < BigInt(a.liquidity) ? -1 : 0))
+
+  let changed = true
+  while (changed) {
+    changed = false
+    for (const pool of byDepth) {
+      const address0 = pool.token0.address.toLowerCase()
+      const address1 = pool.token1.address.toLowerCase()
+      const price0 = prices.get(address0)
+      const price1 = prices.get(address1)
+
+      // currentPrice is token1 per token0
+      if (price0 === undefined && price1 !== undefined) {
+        prices.set(address0, price1 * pool.currentPrice)
+        changed = true
+        break
+      }
+      if (price1 === undefined && price0 !== undefined) {
+        prices.set(address1, price0 / pool.currentPrice)
+        changed = true
+        break
+      }
+    }
+  }
+
+  return prices
+}
+
+/**
+ * Sum the USD value of each pool's swap inputs over the last day of blocks
+ * @returns 24h volume in USD, keyed by lowercase pool address
+ */
+async function getPoolsVolume24h(
+  publicClient: PublicClient,
+  pools: Pool[],
+  prices: Map<string, number>
+): Promise<Map<string, number>> {
+  const volumes = new Map<string, number>()
+  pools.forEach(p => volumes.set(p.address.toLowerCase(), 0))
+  if (pools.length === 0) return volumes
+
+  const [latestBlock, blocksPerDay] = await Promise.all([
+    publicClient.getBlockNumber(),
+    getBlocksForDuration(publicClient, SECONDS_PER_DAY),
+  ])
+  let fromBlock = latestBlock > blocksPerDay ? latestBlock - blocksPerDay : BigInt(0)
+
+  const poolsByAddress = new Map(pools.map(p => [p.address.toLowerCase(), p]))
+
+  while (fromBlock <= latestBlock) {
+    const toBlock = fromBlock + LOG_BLOCK_RANGE - BigInt(1) < latestBlock
+      ? fromBlock + LOG_BLOCK_RANGE - BigInt(1)
+      : latestBlock
+
+    const logs = await publicClient.getLogs({
+      address: pools.map(p => p.address as Address),
+      event: SWAP_EVENT,
+      fromBlock,
+      toBlock,
+    })
+
+    for (const log of logs) {
+      const pool = poolsByAddress.get(log.address.toLowerCase())
+      const { amount0, amount1 } = log.args
+      if (!pool || amount0 === undefined || amount1 === undefined) continue
+
+      const value0 = Math.abs(Number(formatUnits(amount0, pool.token0.decimals)))
+      const value1 = Math.abs(Number(formatUnits(amount1, pool.token1.decimals)))
+      const price0 = prices.get(pool.token0.address.toLowerCase())
+      const price1 = prices.get(pool.token1.address.toLowerCase())
+
+      // Positive amounts flow into the pool; value the input side when it is priced
+      let volume: number | undefined
+      if (amount0 > BigInt(0)) {
+        volume = price0 !== undefined ? value0 * price0 : price1 !== undefined ? value1 * price1 : undefined
+      } else {
+        volume = price1 !== undefined ? value1 * price1 : price0 !== undefined ? value0 * price0 : undefined
+      }
+      if (volume === undefined) continue
+
+      const key = pool.address.toLowerCase()
+      volumes.set(key, (volumes.get(key) || 0) + volume)
+    }
+
+    fromBlock = toBlock + BigInt(1)
+  }
+
+  return volumes
+}
+
+/**
+ * Compute TVL, 24h volume, 24h fees, fee APR and token USD prices for each pool.
+ * TVL is the USD value of the pool's token balances; volume comes from the
+ * pool's Swap events and fees are that volume times the fee tier.
+ * Values stay undefined for pools with no USD price path.
+ * @param pools Pools to compute stats for
+ * @param pricingPools Pools used to derive USD prices (defaults to `pools`)
+ * @returns Stats keyed by lowercase pool address
+ */
+export async function getPoolsStats(
+  publicClient: PublicClient,
+  pools: Pool[],
+  pricingPools: Pool[] = pools
+): Promise<Map<string, PoolStats>> {
+  const stats = new Map<string, PoolStats>()
+  const cacheKey = (pool: Pool) => `${publicClient.chain?.id}:${pool.address.toLowerCase()}`
+  const uncached = pools.filter(p => {
+    const cached = poolStatsCache.get(cacheKey(p))
+    if (cached) stats.set(p.address.toLowerCase(), cached)
+    return !cached
+  })
+  if (uncached.length === 0) return stats
+
+  try {
+    const prices = getTokenUsdPrices(pricingPools)
+
+    const [balanceResults, volumes] = await Promise.all([
+      batchReadContracts(
+        publicClient,
+        uncached.flatMap(p => [p.token0, p.token1].map(token => ({
+          address: token.address as Address,
+          abi: ERC20_ABI,
+          functionName: 'balanceOf',
+          args: [p.address as Address],
+        })))
+      ),
+      getPoolsVolume24h(publicClient, uncached, prices),
+    ])
+
+    uncached.forEach((pool, idx) => {
+      const key = pool.address.toLowerCase()
+      const price0 = prices.get(pool.token0.address.toLowerCase())
+      const price1 = prices.get(pool.token1.address.toLowerCase())
+      const [balance0, balance1] = balanceResults.slice(idx * 2, idx * 2 + 2)
+
+      const poolStats: PoolStats = {}
+
+      if (price0 !== undefined || price1 !== undefined) {
+        // If only one side is priced, value the other side through the pool price
+        const usd0 = price0 ?? (price1 as number) * pool.currentPrice
+        const usd1 = price1 ?? (price0 as number) / pool.currentPrice
+        poolStats.token0PriceUsd = usd0
+        poolStats.token1PriceUsd = usd1
+
+        if (balance0.status === 'success' && balance1.status === 'success') {
+          const tvl =
+            Number(formatUnits(balance0.result as bigint, pool.token0.decimals)) * usd0 +
+            Number(formatUnits(balance1.result as bigint, pool.token1.decimals)) * usd1
+          if (isFinite(tvl)) poolStats.tvl = tvl.toString()
+        }
+
+        const volume = volumes.get(key) || 0
+        const fees = volume * (pool.fee / 1000000)
+        poolStats.volume24h = volume.toString()
+        poolStats.fees24h = fees.toString()
+
+        const tvl = Number(poolStats.tvl || '0')
+        poolStats.apr = tvl > 0 ? (fees * 365 / tvl) * 100 : 0
+      }
+
+      stats.set(key, poolStats)
+      poolStatsCache.set(cacheKey(pool), poolStats)
+      setTimeout(() => poolStatsCache.delete(cacheKey(pool)), STATS_CACHE_TTL)
+    })
+
+    return stats
+  } catch (error) {
+    console.error('Error computing pool stats:', error)
+    throw new Error(`Failed to compute pool stats: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { getPriceRangeDisplay } from './positionAnalysis'
+
+describe('getPriceRangeDisplay', () => {
+  // WETH (18 decimals) as token0 and USDC (6 decimals) as token1
+  it('prices a range on a pool with mismatched decimals in human units', () => {
+    const { min, max } = getPriceRangeDisplay(-207240, -193380, 18, 6)
+    expect(min).toBeCloseTo(1000, -1)
+    expect(max).toBeCloseTo(4000, -1)
+  })
+
+  // The same market with USDC as token0: WETH per USDC
+  it('prices the inverted pool in human units', () => {
+    const { min, max } = getPriceRangeDisplay(193380, 207240, 6, 18)
+    expect(min).toBeCloseTo(1 / 4000, 6)
+    expect(max).toBeCloseTo(1 / 1000, 6)
+  })
+})
@@ -1,4 +1,6 @@
-import { Position, PositionAmounts } from '@/types/position'
+import { formatUnits } from 'viem'
+import { Position, PositionAmounts, PositionAPR } from '../types/position'
+import { PoolDetails } from '../types/pool'
 import { tickToPrice, getSqrtRatioAtTick } from './tickMath'
 
 /**
@@ -20,15 +22,19 @@ export function isInRange(
  * Get human-readable price range from ticks
  * @param tickLower Lower tick
  * @param tickUpper Upper tick
- * @returns {min, max} prices
+ * @param decimals0 Decimals of the pool's token0
+ * @param decimals1 Decimals of the pool's token1
+ * @returns {min, max} prices, token1 per token0
  */
 export function getPriceRangeDisplay(
   tickLower: number,
-  tickUpper: number
+  tickUpper: number,
+  decimals0: number,
+  decimals1: number
 ): { min: number; max: number } {
   return {
-    min: tickToPrice(tickLower),
-    max: tickToPrice(tickUpper),
+    min: tickToPrice(tickLower, decimals0, decimals1),
+    max: tickToPrice(tickUpper, decimals0, decimals1),
   }
 }
 
@@ -93,50 +99,45 @@ export function getTokenAmounts(
 }
 
 /**
- * Estimate APR for a position based on fees earned
- * This is a simplified calculation - in production you'd want historical data
+ * Estimate a position's fee APR from the pool's observed 24h fee revenue.
+ * The position earns its share of active liquidity while the current tick is
+ * inside its range; yearly earnings are divided by the USD value of its tokens.
  * @param position Position data
- * @param poolFee Pool fee tier (in basis points, e.g., 500 = 0.05%)
- * @param volume24h 24h trading volume (optional)
- * @returns Estimated APR percentage
+ * @param pool Pool with 24h fees and USD token prices attached
+ * @param amounts Position token amounts in wei (from getTokenAmounts)
+ * @returns APR breakdown, or null if the pool has no fee or price data
  */
-export function estimateAPR(
+export function calculatePositionAPR(
   position: Position,
-  poolFee: number,
-  volume24h?: string
-): number {
-  // If no volume data, return 0
-  if (!volume24h || volume24h === '0') {
-    return 0
+  pool: PoolDetails,
+  amounts: PositionAmounts
+): PositionAPR | null {
+  if (pool.fees24h === undefined || pool.token0PriceUsd === undefined || pool.token1PriceUsd === undefined) {
+    return null
   }
 
-  try {
-    const volumeNum = parseFloat(volume24h)
-    const liquidityNum = parseFloat(position.liquidity)
-    
-    if (liquidityNum === 0) {
-      return 0
-    }
-
-    // Calculate daily fees earned by the pool
-    const dailyFees = volumeNum * (poolFee / 1000000) // Convert basis points to decimal
-
-    // Estimate this position's share (simplified - assumes uniform distribution)
-    const positionShare = liquidityNum / (liquidityNum * 100) // Rough estimate
-
-    // Daily fees for this position
-    const dailyPositionFees = dailyFees * positionShare
+  const positionValueUsd =
+    Number(formatUnits(BigInt(amounts.amount0), pool.token0.decimals)) * pool.token0PriceUsd +
+    Number(formatUnits(BigInt(amounts.amount1), pool.token1.decimals)) * pool.token1PriceUsd
 
-    // Annualize
-    const yearlyFees = dailyPositionFees * 365
+  // Fees accrue only while tickLower <= tick < tickUpper
+  const inRange = pool.currentTick >= position.tickLower && pool.currentTick < position.tickUpper
+  const activeLiquidity = BigInt(pool.liquidity)
+  const liquidityShare = inRange && activeLiquidity > BigInt(0)
+    ? Math.min(1, Number(BigInt(position.liquidity) * BigInt(1000000) / activeLiquidity) / 1000000)
+    : 0
 
-    // APR = yearly fees / liquidity value
-    const apr = (yearlyFees / liquidityNum) * 100
+  const poolFees24hUsd = Number(pool.fees24h)
+  const positionFees24hUsd = poolFees24hUsd * liquidityShare
+  const apr = positionValueUsd > 0 ? (positionFees24hUsd * 365 / positionValueUsd) * 100 : 0
 
-    return Math.min(Math.max(0, apr), 1000) // Cap at 1000%
-  } catch (error) {
-    console.error('Error calculating APR:', error)
-    return 0
+  return {
+    apr: isFinite(apr) ? apr : 0,
+    inRange,
+    liquidityShare,
+    poolFees24hUsd,
+    positionFees24hUsd,
+    positionValueUsd,
   }
 }
 
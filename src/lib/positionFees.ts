@@ -0,0 +1,172 @@
+import { type Address, type PublicClient } from 'viem'
+import { CONTRACT_ADDRESSES, FACTORY_ABI, NONFUNGIBLE_POSITION_MANAGER_ABI, POOL_ABI } from './contracts'
+import { batchReadContracts, type ReadResult } from './multicall'
+
+const Q128 = BigInt(1) << BigInt(128)
+const Q256 = BigInt(1) << BigInt(256)
+const MAX_UINT128 = Q128 - BigInt(1)
+
+/**
+ * Raw position fields from the position manager's positions() call
+ */
+export interface FeePosition {
+  tokenId: bigint
+  token0: Address
+  token1: Address
+  fee: number
+  tickLower: number
+  tickUpper: number
+  liquidity: bigint
+  feeGrowthInside0LastX128: bigint
+  feeGrowthInside1LastX128: bigint
+  tokensOwed0: bigint
+  tokensOwed1: bigint
+}
+
+/**
+ * Fees a position could collect right now, in token wei
+ */
+export interface UncollectedFees {
+  amount0: bigint
+  amount1: bigint
+}
+
+/**
+ * Subtract with uint256 wrap-around, matching the pool's unchecked math
+ */
+function subUint256(a: bigint, b: bigint): bigint {
+  return (((a - b) % Q256) + Q256) % Q256
+}
+
+/**
+ * Fee growth per unit of liquidity inside a tick range, as the pool computes it
+ * @param tickCurrent Current pool tick
+ * @param feeGrowthGlobalX128 Pool's feeGrowthGlobal for the token
+ * @param lowerOutsideX128 feeGrowthOutside of the lower tick
+ * @param upperOutsideX128 feeGrowthOutside of the upper tick
+ */
+export function getFeeGrowthInside(
+  tickCurrent: number,
+  tickLower: number,
+  tickUpper: number,
+  feeGrowthGlobalX128: bigint,
+  lowerOutsideX128: bigint,
+  upperOutsideX128: bigint
+): bigint {
+  const below = tickCurrent >= tickLower ? lowerOutsideX128 : subUint256(feeGrowthGlobalX128, lowerOutsideX128)
+  const above = tickCurrent < tickUpper ? upperOutsideX128 : subUint256(feeGrowthGlobalX128, upperOutsideX128)
+  return subUint256(subUint256(feeGrowthGlobalX128, below), above)
+}
+
+/**
+ * Fees earned by liquidity since the position last checkpointed fee growth
+ */
+export function getFeesAccrued(liquidity: bigint, feeGrowthInsideX128: bigint, feeGrowthInsideLastX128: bigint): bigint {
+  return (liquidity * subUint256(feeGrowthInsideX128, feeGrowthInsideLastX128)) / Q128
+}
+
+/**
+ * Ask the position manager what collect() would pay out, without sending a transaction
+ */
+async function simulateCollect(publicClient: PublicClient, tokenId: bigint, owner: Address): Promise<UncollectedFees> {
+  const { result } = await publicClient.simulateContract({
+    account: owner,
+    address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
+    abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+    functionName: 'collect',
+    args: [{ tokenId, recipient: owner, amount0Max: MAX_UINT128, amount1Max: MAX_UINT128 }],
+  })
+  const [amount0, amount1] = result as readonly [bigint, bigint]
+  return { amount0, amount1 }
+}
+
+function successValue<T>(result: ReadResult | undefined): T | undefined {
+  return result?.status === 'success' ? (result.result as T) : undefined
+}
+
+/**
+ * Compute each position's claimable fees: tokensOwed plus fees accrued since
+ * the last checkpoint, derived from the pool's fee growth and tick outside values.
+ * If the pool can't be read, falls back to a static collect() call as the owner,
+ * and finally to tokensOwed alone.
+ * @returns One entry per position, in input order
+ */
+export async function getUncollectedFees(
+  publicClient: PublicClient,
+  positions: FeePosition[],
+  owner?: Address
+): Promise<UncollectedFees[]> {
+  if (positions.length === 0) return []
+
+  const poolKeys = Array.from(new Set(positions.map(p => `${p.token0}-${p.token1}-${p.fee}`)))
+  const poolAddressResults = await batchReadContracts(
+    publicClient,
+    poolKeys.map(key => {
+      const [token0, token1, fee] = key.split('-')
+      return {
+        address: CONTRACT_ADDRESSES.FACTORY as Address,
+        abi: FACTORY_ABI,
+        functionName: 'getPool',
+        args: [token0 as Address, token1 as Address, Number(fee)],
+      }
+    })
+  )
+  const poolByKey = new Map<string, Address | undefined>()
+  poolKeys.forEach((key, i) => {
+    const pool = successValue<Address>(poolAddressResults[i])
+    poolByKey.set(key, pool && pool !== '0x0000000000000000000000000000000000000000' ? pool : undefined)
+  })
+
+  const POOL_FIELDS = ['slot0', 'feeGrowthGlobal0X128', 'feeGrowthGlobal1X128'] as const
+  const poolAddresses = Array.from(new Set(Array.from(poolByKey.values()).filter((a): a is Address => !!a)))
+  const poolOf = (p: FeePosition) => poolByKey.get(`${p.token0}-${p.token1}-${p.fee}`)
+
+  // Tick reads only for positions whose pool resolved; remember where each landed
+  const tickCallIndex = new Map<number, number>()
+  const tickCalls = positions.flatMap((p, idx) => {
+    const pool = poolOf(p)
+    if (!pool) return []
+    tickCallIndex.set(idx, tickCallIndex.size * 2)
+    return [p.tickLower, p.tickUpper].map(tick => ({ address: pool, abi: POOL_ABI, functionName: 'ticks', args: [tick] }))
+  })
+
+  const results = await batchReadContracts(publicClient, [
+    ...poolAddresses.flatMap(address => POOL_FIELDS.map(functionName => ({ address, abi: POOL_ABI, functionName }))),
+    ...tickCalls,
+  ])
+  const tickResultsOffset = poolAddresses.length * POOL_FIELDS.length
+
+  return Promise.all(positions.map(async (position, idx) => {
+    const owed = { amount0: position.tokensOwed0, amount1: position.tokensOwed1 }
+    if (position.liquidity === BigInt(0)) return owed
+
+    const pool = poolOf(position)
+    const poolIdx = pool ? poolAddresses.indexOf(pool) : -1
+    const poolFields = poolIdx >= 0 ? results.slice(poolIdx * POOL_FIELDS.length, (poolIdx + 1) * POOL_FIELDS.length) : []
+    const slot0 = successValue<readonly [bigint, number]>(poolFields[0])
+    const feeGrowthGlobal0 = successValue<bigint>(poolFields[1])
+    const feeGrowthGlobal1 = successValue<bigint>(poolFields[2])
+    const tickIdx = tickCallIndex.get(idx)
+    const lower = tickIdx !== undefined ? successValue<readonly [bigint, bigint, bigint, bigint]>(results[tickResultsOffset + tickIdx]) : undefined
+    const upper = tickIdx !== undefined ? successValue<readonly [bigint, bigint, bigint, bigint]>(results[tickResultsOffset + tickIdx + 1]) : undefined
+
+    if (slot0 && feeGrowthGlobal0 !== undefined && feeGrowthGlobal1 !== undefined && lower && upper) {
+      const tickCurrent = Number(slot0[1])
+      const inside0 = getFeeGrowthInside(tickCurrent, position.tickLower, position.tickUpper, feeGrowthGlobal0, lower[2], upper[2])
+      const inside1 = getFeeGrowthInside(tickCurrent, position.tickLower, position.tickUpper, feeGrowthGlobal1, lower[3], upper[3])
+      return {
+        amount0: owed.amount0 + getFeesAccrued(position.liquidity, inside0, position.feeGrowthInside0LastX128),
+        amount1: owed.amount1 + getFeesAccrued(position.liquidity, inside1, position.feeGrowthInside1LastX128),
+      }
+    }
+
+    if (owner) {
+      try {
+        return await simulateCollect(publicClient, position.tokenId, owner)
+      } catch (error) {
+        console.error(`Error simulating collect for position ${position.tokenId}:`, error)
+      }
+    }
+    return owed
+  }))
+}
@@ -0,0 +1,499 @@
+import { encodePacked, type Address, type Hex, type PublicClient } from 'viem'
+import { FACTORY_ABI, QUOTER_V2_ABI, POOL_ABI } from './contracts'
+import { type NetworkConfig } from '../config/networks'
+import { sqrtPriceX96ToPrice } from './tickMath'
+import { batchReadContracts } from './multicall'
+import { getActiveNetwork, getClientNetwork } from './network'
+import { loadPoolRegistry, syncPoolRegistry, findKnownToken } from './poolDiscovery'
+
+export interface RoutePool {
+  address: Address
+  tokenA: Address
+  tokenB: Address
+  fee: number
+}
+
+// Which side of the trade is fixed: the amount sold or the amount bought
+export type TradeType = 'EXACT_INPUT' | 'EXACT_OUTPUT'
+
+export interface SwapRoute {
+  tokens: Address[] // tokenIn, ...intermediaries, tokenOut
+  fees: number[] // fee tier of each hop, tokens.length - 1 entries
+}
+
+export interface RouteQuote {
+  amount: bigint // Amount out (EXACT_INPUT) or amount in (EXACT_OUTPUT)
+  sqrtPriceX96AfterList: bigint[] // Pool price after the swap, one per hop in path order
+  gasEstimate: bigint // Quoter's gas estimate for the swap itself, without the transaction base cost
+}
+
+export type QuotedRoute = { route: SwapRoute } & RouteQuote
+
+export interface SplitLeg extends RouteQuote {
+  route: SwapRoute
+  percent: number // Share of the input sent through this route
+  amountIn: bigint
+}
+
+export interface SplitQuote {
+  legs: SplitLeg[]
+  amountOut: bigint
+  gasEstimate: bigint // Sum over the legs
+}
+
+/**
+ * What gas is worth in the quoted token, so routes can be ranked by what the
+ * user ends up with after network fees
+ */
+export interface RouteGasPrice {
+  weiPerGas: bigint // Network fee per unit of gas, in BCX wei
+  tokenPerBcx: bigint // Raw units of the quoted token that 1 BCX buys
+}
+
+const WEI_PER_BCX = BigInt('1000000000000000000')
+
+// Granularity of split-route allocations (25 => quarters of the input)
+export const SPLIT_STEP_PERCENT = 25
+
+// Only the best few routes are considered for splitting to bound quoter calls
+const MAX_SPLIT_ROUTES = 4
+
+// Longest path the router will consider (tokenIn -> A -> B -> tokenOut)
+export const MAX_HOPS = 3
+
+// Upper bound on quoter calls per quote request, shortest routes first
+const MAX_ROUTES_TO_QUOTE = 24
+
+// Pools found through the factory, keyed by the set of tokens they were looked up for
+const poolGraphCache = new Map<string, RoutePool[]>()
+const POOL_GRAPH_CACHE_TTL = 60000 // 60 seconds
+
+/**
+ * Tokens that may be used as intermediate hops. Native BCX is excluded
+ * because pools only ever hold WBCX.
+ */
+export function getRouteBaseTokens(network: NetworkConfig = getActiveNetwork()): Address[] {
+  return Object.values(network.tokens)
+    .filter(t => t.address !== '0x0000000000000000000000000000000000000000')
+    .map(t => t.address as Address)
+}
+
+/**
+ * Encode a route into the packed `token (20) | fee (3) | token (20) ...`
+ * format expected by SwapRouter.exactInput and QuoterV2.quoteExactInput.
+ * Exact-output paths are encoded in reverse (tokenOut first).
+ */
+export function encodeRoutePath(route: SwapRoute, tradeType: TradeType = 'EXACT_INPUT'): Hex {
+  if (route.tokens.length !== route.fees.length + 1) {
+    throw new Error('Invalid route: token and fee counts do not match')
+  }
+
+  const pathTokens = tradeType === 'EXACT_OUTPUT' ? [...route.tokens].reverse() : route.tokens
+  const pathFees = tradeType === 'EXACT_OUTPUT' ? [...route.fees].reverse() : route.fees
+
+  const types: ('address' | 'uint24')[] = []
+  const values: (Address | number)[] = []
+  pathFees.forEach((fee, i) => {
+    types.push('address', 'uint24')
+    values.push(pathTokens[i], fee)
+  })
+  types.push('address')
+  values.push(pathTokens[pathTokens.length - 1])
+
+  return encodePacked(types, values)
+}
+
+/**
+ * Resolve display symbols for every token in a route
+ */
+export function getRouteSymbols(route: SwapRoute): string[] {
+  const registry = loadPoolRegistry()
+  return route.tokens.map(addr => {
+    const token = findKnownToken(addr, registry)
+    return token ? token.symbol : `${addr.slice(0, 6)}...${addr.slice(-4)}`
+  })
+}
+
+/**
+ * Look up every pool between the given tokens across the given fee tiers
+ */
+export async function discoverPools(
+  publicClient: PublicClient,
+  tokenAddresses: Address[],
+  feeTiers: number[],
+  network: NetworkConfig = getClientNetwork(publicClient)
+): Promise<RoutePool[]> {
+  const unique = Array.from(new Set(tokenAddresses.map(a => a.toLowerCase()))).sort() as Address[]
+  const cacheKey = `${network.chain.id}:${unique.join('-')}:${feeTiers.join('-')}`
+  const cached = poolGraphCache.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const pairs: Array<{ tokenA: Address; tokenB: Address; fee: number }> = []
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      for (const fee of feeTiers) {
+        pairs.push({ tokenA: unique[i], tokenB: unique[j], fee })
+      }
+    }
+  }
+
+  const results = await batchReadContracts(
+    publicClient,
+    pairs.map(({ tokenA, tokenB, fee }) => ({
+      address: network.contracts.FACTORY as Address,
+      abi: FACTORY_ABI,
+      functionName: 'getPool',
+      args: [tokenA, tokenB, fee],
+    }))
+  )
+
+  const pools: RoutePool[] = []
+  results.forEach((result, i) => {
+    if (result.status === 'success' && result.result !== '0x0000000000000000000000000000000000000000') {
+      pools.push({ ...pairs[i], address: result.result as Address })
+    }
+  })
+
+  poolGraphCache.set(cacheKey, pools)
+  setTimeout(() => poolGraphCache.delete(cacheKey), POOL_GRAPH_CACHE_TTL)
+
+  return pools
+}
+
+/**
+ * Collect the pools available for routing: known token pairs looked up on the
+ * factory, plus every pool found in the factory's PoolCreated logs (so pools
+ * of imported tokens are routable). The log registry is refreshed in the
+ * background so quoting never waits on a long scan.
+ */
+export async function getRoutePools(
+  publicClient: PublicClient,
+  tokenIn: Address,
+  tokenOut: Address,
+  feeTiers: number[]
+): Promise<RoutePool[]> {
+  const network = getClientNetwork(publicClient)
+  syncPoolRegistry(publicClient).catch(error => console.error('Pool registry sync failed:', error))
+
+  const known = await discoverPools(publicClient, [tokenIn, tokenOut, ...getRouteBaseTokens(network)], feeTiers, network)
+  const seen = new Set(known.map(p => p.address.toLowerCase()))
+
+  const discovered = loadPoolRegistry(network).pools
+    .filter(p => feeTiers.includes(p.fee) && !seen.has(p.address.toLowerCase()))
+    .map(p => ({ address: p.address, tokenA: p.token0, tokenB: p.token1, fee: p.fee }))
+
+  return [...known, ...discovered]
+}
+
+/**
+ * Enumerate every simple path from tokenIn to tokenOut through the given
+ * pools, up to maxHops hops. Each pool (fee tier) yields a distinct route.
+ */
+export function findRoutes(
+  pools: RoutePool[],
+  tokenIn: Address,
+  tokenOut: Address,
+  maxHops: number = MAX_HOPS
+): SwapRoute[] {
+  const target = tokenOut.toLowerCase()
+  const routes: SwapRoute[] = []
+
+  const walk = (current: Address, visited: Set<string>, path: Address[], fees: number[]) => {
+    if (fees.length >= maxHops) return
+
+    for (const pool of pools) {
+      let next: Address | null = null
+      if (pool.tokenA.toLowerCase() === current.toLowerCase()) next = pool.tokenB
+      else if (pool.tokenB.toLowerCase() === current.toLowerCase()) next = pool.tokenA
+      if (!next || visited.has(next.toLowerCase())) continue
+
+      const nextPath = [...path, next]
+      const nextFees = [...fees, pool.fee]
+
+      if (next.toLowerCase() === target) {
+        routes.push({ tokens: nextPath, fees: nextFees })
+        continue
+      }
+
+      visited.add(next.toLowerCase())
+      walk(next, visited, nextPath, nextFees)
+      visited.delete(next.toLowerCase())
+    }
+  }
+
+  walk(tokenIn, new Set([tokenIn.toLowerCase()]), [tokenIn], [])
+
+  return routes
+}
+
+/**
+ * Quote a swap along a (possibly multi-hop) route
+ * @param amountWei - Amount sold for EXACT_INPUT, amount bought for EXACT_OUTPUT
+ * @returns Quoted amount and post-swap pool prices, or null if any hop lacks liquidity
+ */
+export async function quoteRoute(
+  publicClient: PublicClient,
+  route: SwapRoute,
+  amountWei: bigint,
+  tradeType: TradeType = 'EXACT_INPUT'
+): Promise<RouteQuote | null> {
+  try {
+    const result = await publicClient.readContract({
+      address: getClientNetwork(publicClient).contracts.QUOTER_V2 as Address,
+      abi: QUOTER_V2_ABI,
+      functionName: tradeType === 'EXACT_OUTPUT' ? 'quoteExactOutput' : 'quoteExactInput',
+      args: [encodeRoutePath(route, tradeType), amountWei],
+    })
+
+    const [amount, sqrtPriceX96AfterList, , gasEstimate] = result as readonly [bigint, readonly bigint[], readonly number[], bigint]
+    // Exact-output paths are quoted in reverse, flip back to path order
+    const afterList = tradeType === 'EXACT_OUTPUT' ? [...sqrtPriceX96AfterList].reverse() : [...sqrtPriceX96AfterList]
+    return { amount, sqrtPriceX96AfterList: afterList, gasEstimate }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Find and quote routes between two tokens. Routes shorter than minHops are
+ * skipped so callers that already quoted the direct pools don't pay for
+ * them twice.
+ * @param gasPrice - Rank routes net of their gas cost; raw amounts when omitted
+ * @returns Every route that could be quoted, best first: highest output for
+ * EXACT_INPUT, lowest input for EXACT_OUTPUT
+ */
+export async function quoteRoutes(
+  publicClient: PublicClient,
+  tokenIn: Address,
+  tokenOut: Address,
+  amountWei: bigint,
+  feeTiers: number[],
+  minHops: number = 1,
+  tradeType: TradeType = 'EXACT_INPUT',
+  gasPrice?: RouteGasPrice | null
+): Promise<QuotedRoute[]> {
+  const pools = await getRoutePools(publicClient, tokenIn, tokenOut, feeTiers)
+  const routes = findRoutes(pools, tokenIn, tokenOut)
+    .filter(r => r.fees.length >= minHops)
+    .sort((a, b) => a.fees.length - b.fees.length)
+    .slice(0, MAX_ROUTES_TO_QUOTE)
+
+  const quotes = await Promise.all(routes.map(route => quoteRoute(publicClient, route, amountWei, tradeType)))
+
+  const quoted: QuotedRoute[] = []
+  routes.forEach((route, i) => {
+    const quote = quotes[i]
+    if (quote !== null && quote.amount > BigInt(0)) {
+      quoted.push({ route, ...quote })
+    }
+  })
+
+  return sortQuotedRoutes(quoted, tradeType, gasPrice)
+}
+
+/**
+ * Find and quote routes between two tokens and return the best one
+ * @returns The winning route and its quoted amount (out or in, per tradeType)
+ */
+export async function findBestRoute(
+  publicClient: PublicClient,
+  tokenIn: Address,
+  tokenOut: Address,
+  amountWei: bigint,
+  feeTiers: number[],
+  minHops: number = 1,
+  tradeType: TradeType = 'EXACT_INPUT',
+  gasPrice?: RouteGasPrice | null
+): Promise<QuotedRoute | null> {
+  const quoted = await quoteRoutes(publicClient, tokenIn, tokenOut, amountWei, feeTiers, minHops, tradeType, gasPrice)
+  return quoted[0] ?? null
+}
+
+/**
+ * Cost of a quoter gas estimate in raw units of the quoted token
+ * @returns 0 when no gas price is known
+ */
+export function getRouteGasCost(gasEstimate: bigint, gasPrice?: RouteGasPrice | null): bigint {
+  if (!gasPrice) return BigInt(0)
+  return (gasEstimate * gasPrice.weiPerGas * gasPrice.tokenPerBcx) / WEI_PER_BCX
+}
+
+/**
+ * Quoted amount with the route's gas cost applied: taken off the output for
+ * EXACT_INPUT, added to the input for EXACT_OUTPUT
+ */
+export function getNetRouteAmount(
+  amount: bigint,
+  gasEstimate: bigint,
+  tradeType: TradeType = 'EXACT_INPUT',
+  gasPrice?: RouteGasPrice | null
+): bigint {
+  const gasCost = getRouteGasCost(gasEstimate, gasPrice)
+  return tradeType === 'EXACT_OUTPUT' ? amount + gasCost : amount - gasCost
+}
+
+/**
+ * Order quoted routes best first, net of gas when a gas price is given
+ */
+export function sortQuotedRoutes(
+  quoted: QuotedRoute[],
+  tradeType: TradeType = 'EXACT_INPUT',
+  gasPrice?: RouteGasPrice | null
+): QuotedRoute[] {
+  const net = (q: QuotedRoute) => getNetRouteAmount(q.amount, q.gasEstimate, tradeType, gasPrice)
+  return [...quoted].sort((a, b) => {
+    const [aNet, bNet] = [net(a), net(b)]
+    if (aNet === bNet) return 0
+    const aIsBetter = tradeType === 'EXACT_OUTPUT' ? aNet < bNet : aNet > bNet
+    return aIsBetter ? -1 : 1
+  })
+}
+
+// Identify each pool a route touches, so split legs never share a pool
+function getRoutePoolKeys(route: SwapRoute): string[] {
+  return route.fees.map((fee, i) => {
+    const [a, b] = [route.tokens[i].toLowerCase(), route.tokens[i + 1].toLowerCase()].sort()
+    return `${a}-${b}-${fee}`
+  })
+}
+
+/**
+ * Split an exact-input trade across several routes. The input is divided into
+ * SPLIT_STEP_PERCENT slices, each candidate route is quoted for every slice
+ * count, and all allocations are compared. Routes that share a pool are never
+ * combined since their independent quotes would overstate the output.
+ * Every extra leg costs gas, so with a gas price allocations compete on
+ * output net of gas.
+ * @param candidates - Routes already quoted for the full amount, e.g. from quoteRoutes
+ * @returns The best allocation over two or more routes, or null if none beats nothing
+ */
+export async function findBestSplit(
+  publicClient: PublicClient,
+  candidates: QuotedRoute[],
+  amountInWei: bigint,
+  gasPrice?: RouteGasPrice | null
+): Promise<SplitQuote | null> {
+  const top = sortQuotedRoutes(candidates, 'EXACT_INPUT', gasPrice).slice(0, MAX_SPLIT_ROUTES)
+  if (top.length < 2) return null
+
+  const steps = Math.round(100 / SPLIT_STEP_PERCENT)
+  const sliceAmount = (k: number) => (amountInWei * BigInt(k)) / BigInt(steps)
+
+  // quotes[r][k] is the quote for k slices sent through route r
+  const quotes: (RouteQuote | null)[][] = await Promise.all(top.map(async candidate => {
+    const partial = await Promise.all(
+      Array.from({ length: steps - 1 }, (_, i) => quoteRoute(publicClient, candidate.route, sliceAmount(i + 1)))
+    )
+    return [null, ...partial, {
+      amount: candidate.amount,
+      sqrtPriceX96AfterList: candidate.sqrtPriceX96AfterList,
+      gasEstimate: candidate.gasEstimate,
+    }]
+  }))
+
+  const poolKeys = top.map(c => getRoutePoolKeys(c.route))
+  let best: SplitQuote | null = null
+
+  const allocation = new Array<number>(top.length).fill(0)
+  const evaluate = () => {
+    const used = allocation.map((k, r) => ({ k, r })).filter(({ k }) => k > 0)
+    if (used.length < 2) return
+
+    const seenPools = new Set<string>()
+    for (const { r } of used) {
+      for (const key of poolKeys[r]) {
+        if (seenPools.has(key)) return
+        seenPools.add(key)
+      }
+    }
+
+    const legs: SplitLeg[] = []
+    let amountOut = BigInt(0)
+    let gasEstimate = BigInt(0)
+    let allocated = BigInt(0)
+    for (const [i, { k, r }] of used.entries()) {
+      const quote = quotes[r][k]
+      if (!quote) return
+      // The last leg takes the rounding remainder so legs sum to the exact input
+      const legAmountIn = i === used.length - 1 ? amountInWei - allocated : sliceAmount(k)
+      allocated += legAmountIn
+      amountOut += quote.amount
+      gasEstimate += quote.gasEstimate
+      legs.push({ route: top[r].route, percent: k * SPLIT_STEP_PERCENT, amountIn: legAmountIn, ...quote })
+    }
+
+    const net = getNetRouteAmount(amountOut, gasEstimate, 'EXACT_INPUT', gasPrice)
+    if (!best || net > getNetRouteAmount(best.amountOut, best.gasEstimate, 'EXACT_INPUT', gasPrice)) {
+      best = { legs, amountOut, gasEstimate }
+    }
+  }
+
+  const allocate = (r: number, remaining: number) => {
+    if (r === top.length - 1) {
+      allocation[r] = remaining
+      evaluate()
+      return
+    }
+    for (let k = 0; k <= remaining; k++) {
+      allocation[r] = k
+      allocate(r + 1, remaining - k)
+    }
+  }
+  allocate(0, steps)
+
+  return best
+}
+
+/**
+ * Read the current slot0 sqrtPriceX96 of every pool along a route
+ * @returns One sqrtPriceX96 per hop in path order, or null if a pool is missing
+ */
+export async function getRouteSqrtPrices(
+  publicClient: PublicClient,
+  route: SwapRoute
+): Promise<bigint[] | null> {
+  const { contracts } = getClientNetwork(publicClient)
+  try {
+    return await Promise.all(route.fees.map(async (fee, i) => {
+      const poolAddress = await publicClient.readContract({
+        address: contracts.FACTORY as Address,
+        abi: FACTORY_ABI,
+        functionName: 'getPool',
+        args: [route.tokens[i], route.tokens[i + 1], fee],
+      })
+      if (poolAddress === '0x0000000000000000000000000000000000000000') {
+        throw new Error('Pool not found')
+      }
+
+      const slot0 = await publicClient.readContract({
+        address: poolAddress,
+        abi: POOL_ABI,
+        functionName: 'slot0',
+      })
+      return slot0[0]
+    }))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Multiply the per-hop prices (tokenOut per tokenIn, raw units) along a route
+ * @param sqrtPricesX96 - One sqrtPriceX96 per hop, as returned by slot0 or the quoter
+ * @param includeFees - Deduct each hop's LP fee from the price
+ * @returns Raw price; scale by 10^(decimalsIn - decimalsOut) for display units
+ */
+export function getRoutePrice(
+  route: SwapRoute,
+  sqrtPricesX96: bigint[],
+  includeFees: boolean = false
+): number {
+  return route.fees.reduce((acc, fee, i) => {
+    const price = sqrtPriceX96ToPrice(sqrtPricesX96[i]) // token1 per token0
+    const zeroForOne = route.tokens[i].toLowerCase() < route.tokens[i + 1].toLowerCase()
+    const hopPrice = zeroForOne ? price : 1 / price
+    return acc * hopPrice * (includeFees ? 1 - fee / 1e6 : 1)
+  }, 1)
+}
@@ -0,0 +1,109 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  type Abi,
+  type Account,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type WalletClient,
+} from 'viem'
+import { ContractRevertError, InsufficientFundsError, SimulationError, decodeDexError } from './errors'
+import { assertWalletNetwork } from './network'
+
+/**
+ * A contract write in the shape walletClient.writeContract takes it
+ */
+export interface ContractWrite {
+  address: Address
+  abi: Abi | readonly unknown[]
+  functionName: string
+  args?: readonly unknown[]
+  value?: bigint
+}
+
+/**
+ * Result of simulating a write for a preview. 'unavailable' means the call
+ * can't be simulated yet, e.g. because an approval has to be mined first.
+ */
+export type SimulationOutcome<T> =
+  | { status: 'success'; result: T }
+  | { status: 'reverted'; message: string }
+  | { status: 'unavailable'; message: string }
+
+/**
+ * Whether a failed eth_call means the transaction itself would fail, as
+ * opposed to the node being unable to run the call
+ */
+function isPredictedFailure(error: unknown): boolean {
+  if (error instanceof BaseError && error.walk(e => e instanceof ContractFunctionRevertedError)) return true
+  const decoded = decodeDexError(error)
+  return decoded instanceof ContractRevertError || decoded instanceof InsufficientFundsError
+}
+
+async function callWrite<T>(publicClient: PublicClient, account: Account | Address, write: ContractWrite): Promise<T> {
+  const { result } = await publicClient.simulateContract({
+    ...write,
+    account,
+  } as Parameters<PublicClient['simulateContract']>[0])
+  return result as T
+}
+
+/**
+ * Run a write as an eth_call from `account` with the exact arguments it will be sent with
+ * @returns What the contract function would return
+ * @throws SimulationError if the transaction would revert; other errors as thrown by the node
+ */
+export async function simulateWrite<T = unknown>(
+  publicClient: PublicClient,
+  account: Account | Address,
+  write: ContractWrite
+): Promise<T> {
+  try {
+    return await callWrite<T>(publicClient, account, write)
+  } catch (error) {
+    if (isPredictedFailure(error)) throw new SimulationError(decodeDexError(error))
+    throw error
+  }
+}
+
+/**
+ * Simulate a write and send it only if the simulation succeeds.
+ * When the node can't simulate at all, the write is sent and the wallet's
+ * own gas estimation has the final say.
+ * @throws WrongNetworkError if the wallet is on another chain
+ * @throws SimulationError if the transaction would revert
+ */
+export async function simulateAndWrite(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  write: ContractWrite
+): Promise<Hash> {
+  await assertWalletNetwork(publicClient, walletClient)
+  if (walletClient.account) {
+    try {
+      await simulateWrite(publicClient, walletClient.account, write)
+    } catch (error) {
+      if (error instanceof SimulationError) throw error
+      console.warn(`Could not simulate ${write.functionName}, sending without a pre-flight check:`, error)
+    }
+  }
+  return walletClient.writeContract(write as Parameters<WalletClient['writeContract']>[0])
+}
+
+/**
+ * Simulate a write for display, folding failures into the outcome
+ */
+export async function previewWrite<T>(
+  publicClient: PublicClient,
+  account: Account | Address,
+  write: ContractWrite
+): Promise<SimulationOutcome<T>> {
+  try {
+    return { status: 'success', result: await callWrite<T>(publicClient, account, write) }
+  } catch (error) {
+    return isPredictedFailure(error)
+      ? { status: 'reverted', message: decodeDexError(error).message }
+      : { status: 'unavailable', message: 'The transaction could not be simulated' }
+  }
+}
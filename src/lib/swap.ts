@@ -1,6 +1,34 @@
-import { parseUnits, formatUnits, type Address } from 'viem'
+import { parseUnits, formatUnits, encodeFunctionData, decodeAbiParameters, type Address, type Hex, type PublicClient, type WalletClient, type Transport, type Chain, type Account } from 'viem'
 import { CONTRACT_ADDRESSES, ROUTER_ABI, SWAP_ROUTER_ABI, QUOTER_V2_ABI, ERC20_ABI, WETH_ABI, FACTORY_ABI } from './contracts'
 import { tokens, type Token } from '../config/tokens'
+import { FEE_TIER_OPTIONS } from '../types/pool'
+import {
+  quoteRoutes,
+  findBestSplit,
+  sortQuotedRoutes,
+  getNetRouteAmount,
+  encodeRoutePath,
+  getRouteSqrtPrices,
+  getRoutePrice,
+  type SwapRoute,
+  type QuotedRoute,
+  type SplitQuote,
+} from './routing'
+import { decodeDexError } from './errors'
+import { previewWrite, simulateAndWrite, type ContractWrite, type SimulationOutcome } from './simulation'
+import { signPermit, supportsPermit, withSelfPermits } from './permit'
+import {
+  buildUniversalRouterSwap,
+  getPermit2Contracts,
+  hasPermit2Allowance,
+  hasPermit2Approval,
+  signPermit2,
+  withPermit2Permit,
+  type Permit2Permit,
+} from './permit2'
+import { getApprovalAmount } from './approvals'
+import { findKnownToken, loadPoolRegistry } from './poolDiscovery'
+import { FALLBACK_GAS, TX_BASE_GAS, estimateWriteGas, gasStep, getRouteGasPrice, type GasStep } from './gas'
 
 export interface SwapParams {
   tokenIn: string
@@ -9,26 +37,117 @@ export interface SwapParams {
   slippage: number
   deadline: number
   recipient: Address
-  fee?: number // Optional fee tier, will be determined from quote if not provided
 }
 
 export interface SwapQuote {
   amountOut: string
   priceImpact: number
-  minimumReceived: string
-  fee: number // Fee tier used for this quote
+  poolPriceChange?: number // How far the pool price(s) move, from slot0 to QuoterV2's sqrtPriceX96After (%)
+  minimumReceived: string // amountOut less the slippage passed to getQuote
+  fee: number // Fee tier used for this quote (first hop for multi-hop routes)
+  route?: SwapRoute // Path the quote was taken along (absent for V2 fallback quotes)
+  split?: SwapSplitLeg[] // Set when the input is divided across several routes
+  gasEstimate?: bigint // Quoter's gas estimate for the swap, without TX_BASE_GAS (absent for V2 fallback quotes)
+}
+
+export interface SwapSplitLeg {
+  route: SwapRoute
+  percent: number // Share of amountIn sent through this route
+  amountIn: string
+  amountOut: string
+}
+
+export interface ExactOutputSwapParams {
+  tokenIn: string
+  tokenOut: string
+  amountOut: string // Exact amount the recipient should receive
+  slippage: number
+  deadline: number
+  recipient: Address
+  decimalsIn?: number
+  decimalsOut?: number
+}
+
+export interface ExactOutputQuote {
+  amountIn: string
+  priceImpact: number
+  poolPriceChange?: number
+  maximumSold: string
+  fee: number // Fee tier used for this quote (first hop for multi-hop routes)
+  route?: SwapRoute
+  gasEstimate?: bigint // Quoter's gas estimate for the swap, without TX_BASE_GAS
+}
+
+// Determine decimals for a token, preferring the configured token list
+async function resolveTokenDecimals(publicClient: PublicClient, addr: string): Promise<number> {
+  if (addr === 'BCX') return 18
+  const cfg = Object.values(tokens).find(t => t.address.toLowerCase() === addr.toLowerCase())
+  if (cfg) return cfg.decimals
+  try {
+    const d = await publicClient.readContract({
+      address: addr as Address,
+      abi: ERC20_ABI,
+      functionName: 'decimals',
+    })
+    return Number(d)
+  } catch {
+    return 18
+  }
+}
+
+// Scale an amount up by the slippage tolerance (e.g. 0.5 => +0.5%)
+function applySlippageUp(amount: bigint, slippage: number): bigint {
+  return (amount * BigInt(Math.round((100 + slippage) * 100))) / BigInt(10000)
+}
+
+// Scale an amount down by the slippage tolerance (e.g. 0.5 => -0.5%)
+export function applySlippageDown(amount: bigint, slippage: number): bigint {
+  return (amount * BigInt(Math.round((100 - slippage) * 100))) / BigInt(10000)
+}
+
+/**
+ * Compare the execution price against the slot0 mid price of every pool on
+ * the route, and the slot0 prices against QuoterV2's sqrtPriceX96After
+ */
+export async function getRoutePriceImpact(
+  publicClient: PublicClient,
+  route: SwapRoute,
+  amountIn: string,
+  amountOut: string,
+  inDecimals: number,
+  outDecimals: number,
+  sqrtPricesAfter: bigint[]
+): Promise<{ priceImpact: number; poolPriceChange?: number }> {
+  const sqrtPricesBefore = await getRouteSqrtPrices(publicClient, route)
+  if (!sqrtPricesBefore) {
+    return { priceImpact: 0 }
+  }
+
+  const decimalsScale = Math.pow(10, inDecimals - outDecimals)
+  // LP fees are excluded so the figure reflects only the price moved by the trade
+  const midPrice = getRoutePrice(route, sqrtPricesBefore, true) * decimalsScale
+  const priceImpact = calculatePriceImpact(amountIn, amountOut, midPrice)
+
+  let poolPriceChange: number | undefined
+  if (sqrtPricesAfter.length === route.fees.length) {
+    const priceBefore = getRoutePrice(route, sqrtPricesBefore)
+    const priceAfter = getRoutePrice(route, sqrtPricesAfter)
+    poolPriceChange = Math.abs((priceAfter - priceBefore) / priceBefore) * 100
+  }
+
+  return { priceImpact, poolPriceChange }
 }
 
 export async function checkPoolExists(
-  publicClient: any,
+  publicClient: PublicClient,
   token0: string,
   token1: string,
   fee: number
 ): Promise<boolean> {
   try {
-    const [a, b] = token0.toLowerCase() < token1.toLowerCase() ? [token0, token1] : [token1, token0]
+    const [a, b] = (token0.toLowerCase() < token1.toLowerCase() ? [token0, token1] : [token1, token0]) as [Address, Address]
     const poolAddress = await publicClient.readContract({
-      address: CONTRACT_ADDRESSES.FACTORY,
+      address: CONTRACT_ADDRESSES.FACTORY as Address,
       abi: FACTORY_ABI,
       functionName: 'getPool',
       args: [a, b, fee],
@@ -42,15 +161,15 @@ export async function checkPoolExists(
 }
 
 export async function checkPoolLiquidity(
-  publicClient: any,
+  publicClient: PublicClient,
   token0: string,
   token1: string,
   fee: number
 ): Promise<{ hasLiquidity: boolean; liquidity: string }> {
   try {
-    const [a, b] = token0.toLowerCase() < token1.toLowerCase() ? [token0, token1] : [token1, token0]
+    const [a, b] = (token0.toLowerCase() < token1.toLowerCase() ? [token0, token1] : [token1, token0]) as [Address, Address]
     const poolAddress = await publicClient.readContract({
-      address: CONTRACT_ADDRESSES.FACTORY,
+      address: CONTRACT_ADDRESSES.FACTORY as Address,
       abi: FACTORY_ABI,
       functionName: 'getPool',
       args: [a, b, fee],
@@ -87,13 +206,14 @@ export async function checkPoolLiquidity(
 
 
 // Available fee tiers (in basis points)
-export const FEE_TIERS = [100, 500, 2500, 10000] // 0.01%, 0.05%, 0.25%, 1%
+export const FEE_TIERS = FEE_TIER_OPTIONS.map(tier => tier.fee)
 
 export async function getQuote(
-  publicClient: any,
+  publicClient: PublicClient,
   tokenIn: string,
   tokenOut: string,
-  amountIn: string
+  amountIn: string,
+  slippage: number = 0
 ): Promise<SwapQuote> {
   try {
     const tokenInAddress = tokenIn === 'BCX' ? tokens.WBCX.address : tokenIn
@@ -110,35 +230,19 @@ export async function getQuote(
     }
     
     // Determine decimals for in/out tokens
-    const resolveDecimals = async (addr: string): Promise<number> => {
-      if (addr === 'BCX') return 18
-      const cfg = Object.values(tokens).find(t => t.address.toLowerCase() === addr.toLowerCase())
-      if (cfg) return cfg.decimals
-      try {
-        const d = await publicClient.readContract({
-          address: addr as Address,
-          abi: ERC20_ABI,
-          functionName: 'decimals',
-        })
-        return Number(d)
-      } catch {
-        return 18
-      }
-    }
-    const inDecimals = await resolveDecimals(tokenInAddress)
-    const outDecimals = await resolveDecimals(tokenOutAddress)
+    const inDecimals = await resolveTokenDecimals(publicClient, tokenInAddress)
+    const outDecimals = await resolveTokenDecimals(publicClient, tokenOutAddress)
 
     const amountInWei = parseUnits(amountIn, inDecimals)
     
-    // Try all fee tiers and find the best quote (highest amountOut)
-    let bestQuote: SwapQuote | null = null
-    let bestFee = 500 // Default to 0.05%
+    // Quote the direct pool at every fee tier
+    const candidates: QuotedRoute[] = []
     
     // Try V3 QuoterV2 for each fee tier
     for (const fee of FEE_TIERS) {
       try {
         const quote = await publicClient.readContract({
-          address: CONTRACT_ADDRESSES.QUOTER_V2,
+          address: CONTRACT_ADDRESSES.QUOTER_V2 as Address,
           abi: QUOTER_V2_ABI,
           functionName: 'quoteExactInputSingle',
           args: [{
@@ -150,48 +254,152 @@ export async function getQuote(
           }],
         })
         
-        const [amountOut] = quote as [bigint, bigint, number, bigint]
-        const amountOutFormatted = formatUnits(amountOut, outDecimals)
-        
-        const quoteResult: SwapQuote = {
-          amountOut: amountOutFormatted,
-          priceImpact: 0.1, // Simplified calculation
-          minimumReceived: amountOutFormatted,
-          fee: fee,
-        }
-        
-        // Keep the quote with the highest output amount
-        if (!bestQuote || parseFloat(amountOutFormatted) > parseFloat(bestQuote.amountOut)) {
-          bestQuote = quoteResult
-          bestFee = fee
+        const [amountOut, sqrtPriceX96After, , gasEstimate] = quote as [bigint, bigint, number, bigint]
+        if (amountOut > BigInt(0)) {
+          candidates.push({
+            route: { tokens: [tokenInAddress as Address, tokenOutAddress as Address], fees: [fee] },
+            amount: amountOut,
+            sqrtPriceX96AfterList: [sqrtPriceX96After],
+            gasEstimate,
+          })
         }
-      } catch (quoterError) {
+      } catch {
         // This fee tier doesn't have a pool or liquidity, continue to next
         continue
       }
     }
     
-    // If we found a quote from V3, return it
-    if (bestQuote) {
-      return bestQuote
+    // Routes compete on output net of gas, so a longer route has to make up for its extra hops
+    const gasPrice = await getRouteGasPrice(publicClient, tokenOutAddress as Address, FEE_TIERS)
+
+    // Try multi-hop routes through intermediate tokens (e.g. TEST -> WBCX -> USDC)
+    try {
+      const multiHop = await quoteRoutes(
+        publicClient,
+        tokenInAddress as Address,
+        tokenOutAddress as Address,
+        amountInWei,
+        FEE_TIERS,
+        2,
+        'EXACT_INPUT',
+        gasPrice
+      )
+      candidates.push(...multiHop)
+    } catch (routeError) {
+      console.error('Multi-hop route search failed:', routeError)
+    }
+
+    // If we found a quote from V3, return the best single route or split
+    const [best] = sortQuotedRoutes(candidates, 'EXACT_INPUT', gasPrice)
+    if (best) {
+      let split: SplitQuote | null = null
+      try {
+        split = await findBestSplit(publicClient, candidates, amountInWei, gasPrice)
+      } catch (splitError) {
+        console.error('Split route search failed:', splitError)
+      }
+
+      if (
+        split &&
+        getNetRouteAmount(split.amountOut, split.gasEstimate, 'EXACT_INPUT', gasPrice) >
+          getNetRouteAmount(best.amount, best.gasEstimate, 'EXACT_INPUT', gasPrice)
+      ) {
+        const amountOut = formatUnits(split.amountOut, outDecimals)
+        const legs = await Promise.all(split.legs.map(async leg => {
+          const legAmountIn = formatUnits(leg.amountIn, inDecimals)
+          const legAmountOut = formatUnits(leg.amount, outDecimals)
+          const impact = await getRoutePriceImpact(
+            publicClient,
+            leg.route,
+            legAmountIn,
+            legAmountOut,
+            inDecimals,
+            outDecimals,
+            leg.sqrtPriceX96AfterList
+          )
+          return { leg, legAmountIn, legAmountOut, impact }
+        }))
+
+        // Weight each leg's impact by its share of the input
+        const priceImpact = legs.reduce((acc, { leg, impact }) => acc + impact.priceImpact * leg.percent / 100, 0)
+        const poolPriceChanges = legs
+          .map(({ impact }) => impact.poolPriceChange)
+          .filter((c): c is number => c !== undefined)
+        const mainLeg = split.legs.reduce((a, b) => (b.percent > a.percent ? b : a))
+
+        return {
+          amountOut,
+          priceImpact,
+          poolPriceChange: poolPriceChanges.length > 0 ? Math.max(...poolPriceChanges) : undefined,
+          minimumReceived: formatUnits(applySlippageDown(split.amountOut, slippage), outDecimals),
+          fee: mainLeg.route.fees[0],
+          route: mainLeg.route,
+          split: legs.map(({ leg, legAmountIn, legAmountOut }) => ({
+            route: leg.route,
+            percent: leg.percent,
+            amountIn: legAmountIn,
+            amountOut: legAmountOut,
+          })),
+          gasEstimate: split.gasEstimate,
+        }
+      }
+
+      const amountOut = formatUnits(best.amount, outDecimals)
+      const { priceImpact, poolPriceChange } = await getRoutePriceImpact(
+        publicClient,
+        best.route,
+        amountIn,
+        amountOut,
+        inDecimals,
+        outDecimals,
+        best.sqrtPriceX96AfterList
+      )
+
+      return {
+        amountOut,
+        priceImpact,
+        poolPriceChange,
+        minimumReceived: formatUnits(applySlippageDown(best.amount, slippage), outDecimals),
+        fee: best.route.fees[0],
+        route: best.route,
+        gasEstimate: best.gasEstimate,
+      }
     }
     
     // Fallback to V2 router if no V3 pools found
     try {
-      const path = [tokenInAddress, tokenOutAddress]
+      const path = [tokenInAddress, tokenOutAddress] as Address[]
       const amounts = await publicClient.readContract({
-        address: CONTRACT_ADDRESSES.ROUTER,
+        address: CONTRACT_ADDRESSES.ROUTER as Address,
         abi: ROUTER_ABI,
         functionName: 'getAmountsOut',
         args: [amountInWei, path],
       })
       
       const amountOut = formatUnits(amounts[1], outDecimals)
+
+      // V2 has no slot0, approximate the mid price with a quote for a tiny fraction of the trade
+      let priceImpact = 0
+      const probeAmountWei = amountInWei / BigInt(1000)
+      if (probeAmountWei > BigInt(0)) {
+        try {
+          const probe = await publicClient.readContract({
+            address: CONTRACT_ADDRESSES.ROUTER as Address,
+            abi: ROUTER_ABI,
+            functionName: 'getAmountsOut',
+            args: [probeAmountWei, path],
+          })
+          const midPrice = parseFloat(formatUnits(probe[1], outDecimals)) / parseFloat(formatUnits(probeAmountWei, inDecimals))
+          priceImpact = calculatePriceImpact(amountIn, amountOut, midPrice)
+        } catch {
+          // Keep 0 if the probe quote fails
+        }
+      }
       
       return {
         amountOut,
-        priceImpact: 0.1,
-        minimumReceived: amountOut,
+        priceImpact,
+        minimumReceived: formatUnits(applySlippageDown(amounts[1], slippage), outDecimals),
         fee: 500, // V2 doesn't have fee tiers, use default
       }
     } catch (v2Error) {
@@ -204,83 +412,560 @@ export async function getQuote(
   }
 }
 
+export async function getExactOutputQuote(
+  publicClient: PublicClient,
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: string,
+  slippage: number
+): Promise<ExactOutputQuote> {
+  try {
+    const tokenInAddress = tokenIn === 'BCX' ? tokens.WBCX.address : tokenIn
+    const tokenOutAddress = tokenOut === 'BCX' ? tokens.WBCX.address : tokenOut
+
+    if (tokenInAddress === tokenOutAddress) {
+      return {
+        amountIn: amountOut,
+        priceImpact: 0,
+        maximumSold: amountOut,
+        fee: 500,
+      }
+    }
+
+    const inDecimals = await resolveTokenDecimals(publicClient, tokenInAddress)
+    const outDecimals = await resolveTokenDecimals(publicClient, tokenOutAddress)
+
+    const amountOutWei = parseUnits(amountOut, outDecimals)
+
+    // Quote every fee tier of the direct pair
+    const candidates: QuotedRoute[] = []
+
+    for (const fee of FEE_TIERS) {
+      try {
+        const quote = await publicClient.readContract({
+          address: CONTRACT_ADDRESSES.QUOTER_V2 as Address,
+          abi: QUOTER_V2_ABI,
+          functionName: 'quoteExactOutputSingle',
+          args: [{
+            tokenIn: tokenInAddress as Address,
+            tokenOut: tokenOutAddress as Address,
+            amount: amountOutWei,
+            fee: fee,
+            sqrtPriceLimitX96: BigInt(0),
+          }],
+        })
+
+        const [amountIn, sqrtPriceX96After, , gasEstimate] = quote as [bigint, bigint, number, bigint]
+        candidates.push({
+          route: { tokens: [tokenInAddress as Address, tokenOutAddress as Address], fees: [fee] },
+          amount: amountIn,
+          sqrtPriceX96AfterList: [sqrtPriceX96After],
+          gasEstimate,
+        })
+      } catch {
+        // No pool or not enough liquidity to fill the output at this tier
+        continue
+      }
+    }
+
+    // Gas is paid on top of the input, so it is priced in the input token
+    const gasPrice = await getRouteGasPrice(publicClient, tokenInAddress as Address, FEE_TIERS)
+
+    // Multi-hop routes through intermediate tokens
+    try {
+      const multiHop = await quoteRoutes(
+        publicClient,
+        tokenInAddress as Address,
+        tokenOutAddress as Address,
+        amountOutWei,
+        FEE_TIERS,
+        2,
+        'EXACT_OUTPUT',
+        gasPrice
+      )
+      candidates.push(...multiHop)
+    } catch (routeError) {
+      console.error('Multi-hop route search failed:', routeError)
+    }
+
+    // Keep the cheapest input once gas is added
+    const [best] = sortQuotedRoutes(candidates, 'EXACT_OUTPUT', gasPrice)
+    if (!best) {
+      throw new Error('No liquidity pool can fill this output amount.')
+    }
+
+    const amountIn = formatUnits(best.amount, inDecimals)
+    const { priceImpact, poolPriceChange } = await getRoutePriceImpact(
+      publicClient,
+      best.route,
+      amountIn,
+      amountOut,
+      inDecimals,
+      outDecimals,
+      best.sqrtPriceX96AfterList
+    )
+
+    return {
+      amountIn,
+      priceImpact,
+      poolPriceChange,
+      maximumSold: formatUnits(applySlippageUp(best.amount, slippage), inDecimals),
+      fee: best.route.fees[0],
+      route: best.route,
+      gasEstimate: best.gasEstimate,
+    }
+  } catch (error) {
+    console.error('Error getting exact output quote:', error)
+    throw new Error(`Failed to get swap quote: ${error instanceof Error ? error.message : 'No liquidity pool found'}`)
+  }
+}
+
+/**
+ * Approve `amount` of a token, or more under the approval policy
+ * @param spender Contract to approve; getSwapApprovalSpender says which one a swap needs
+ */
 export async function approveToken(
-  walletClient: any,
+  walletClient: WalletClient,
+  publicClient: PublicClient,
   tokenAddress: string,
   amount: string,
-  decimals?: number
+  decimals?: number,
+  spender: Address = CONTRACT_ADDRESSES.ROUTER as Address
 ): Promise<string> {
   try {
     const amountWei = parseUnits(amount, decimals ?? 18)
     
-    const hash = await walletClient.writeContract({
+    const hash = await simulateAndWrite(publicClient, walletClient, {
       address: tokenAddress as Address,
       abi: ERC20_ABI,
       functionName: 'approve',
-      args: [CONTRACT_ADDRESSES.ROUTER, amountWei],
+      args: [spender, getApprovalAmount(amountWei, decimals ?? 18)],
     })
     
     return hash
   } catch (error) {
     console.error('Error approving token:', error)
-    throw new Error(`Failed to approve token: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw decodeDexError(error, 'Failed to approve token')
   }
 }
 
-export async function executeSwap(
-  walletClient: any,
-  publicClient: any,
-  params: SwapParams & { decimalsIn?: number; decimalsOut?: number }
-): Promise<string> {
-  try {
-    const { tokenIn, tokenOut, amountIn, slippage, deadline, recipient, decimalsIn, decimalsOut } = params
-    
-    // Convert BCX zero address to 'BCX' string for getQuote (which then converts to WBCX)
-    const tokenInForQuote = (tokenIn === '0x0000000000000000000000000000000000000000' || tokenIn === 'BCX') 
-      ? 'BCX' 
-      : tokenIn
-    const tokenOutForQuote = (tokenOut === '0x0000000000000000000000000000000000000000' || tokenOut === 'BCX') 
-      ? 'BCX' 
-      : tokenOut
-    
-    const tokenInAddress = tokenInForQuote === 'BCX' ? tokens.WBCX.address : tokenIn
-    const tokenOutAddress = tokenOutForQuote === 'BCX' ? tokens.WBCX.address : tokenOut
-    
-    // Get quote first (pass 'BCX' string so getQuote can convert to WBCX)
-    const quote = await getQuote(publicClient, tokenInForQuote, tokenOutForQuote, amountIn)
-
-    // Determine decimals for in/out tokens if not provided
-    let inDecimals = decimalsIn
-    let outDecimals = decimalsOut
-    const resolveDecimals = async (addr: string): Promise<number> => {
-      if (addr === 'BCX') return 18
-      try {
-        const d = await publicClient.readContract({
-          address: addr as Address,
-          abi: ERC20_ABI,
-          functionName: 'decimals',
-        })
-        return Number(d)
-      } catch {
-        return 18
+interface PreparedSwap {
+  tokenInForQuote: string
+  tokenOutForQuote: string
+  tokenInAddress: Address
+  inDecimals: number
+  outDecimals: number
+  amountInWei: bigint
+  deadline: bigint
+  approval: SwapApproval | null // How the router pulls the input; null for BCX, which is wrapped first
+  call: ContractWrite // Router call, with WBCX standing in for BCX on either side
+}
+
+/**
+ * Resolve tokens, decimals and the exact router call for an exact-input swap
+ * @param quote Quote the user is looking at; fetched fresh when omitted
+ */
+async function prepareSwap(
+  publicClient: PublicClient,
+  params: SwapParams & { decimalsIn?: number; decimalsOut?: number },
+  quote?: SwapQuote
+): Promise<PreparedSwap> {
+  const { tokenIn, tokenOut, amountIn, slippage, deadline, recipient, decimalsIn, decimalsOut } = params
+
+  // Convert BCX zero address to 'BCX' string for getQuote (which then converts to WBCX)
+  const tokenInForQuote = (tokenIn === '0x0000000000000000000000000000000000000000' || tokenIn === 'BCX') 
+    ? 'BCX' 
+    : tokenIn
+  const tokenOutForQuote = (tokenOut === '0x0000000000000000000000000000000000000000' || tokenOut === 'BCX') 
+    ? 'BCX' 
+    : tokenOut
+  
+  const tokenInAddress = (tokenInForQuote === 'BCX' ? tokens.WBCX.address : tokenIn) as Address
+  const tokenOutAddress = (tokenOutForQuote === 'BCX' ? tokens.WBCX.address : tokenOut) as Address
+  
+  // Get quote first (pass 'BCX' string so getQuote can convert to WBCX)
+  const swapQuote = quote ?? await getQuote(publicClient, tokenInForQuote, tokenOutForQuote, amountIn, slippage)
+
+  // Determine decimals for in/out tokens if not provided
+  const inDecimals = decimalsIn ?? await resolveTokenDecimals(publicClient, tokenInAddress)
+  const outDecimals = decimalsOut ?? await resolveTokenDecimals(publicClient, tokenOutAddress)
+
+  // Execute exactly the pools the quote was taken along
+  const route = swapQuote.route
+  if (!route) {
+    throw new Error('No route found for this swap')
+  }
+
+  const amountInWei = parseUnits(amountIn, inDecimals)
+  // Equals the quote's minimumReceived when the quote was taken at this slippage
+  const amountOutMin = applySlippageDown(parseUnits(swapQuote.amountOut, outDecimals), slippage)
+  
+  const deadlineTimestamp = Math.floor(Date.now() / 1000) + deadline * 60
+  // Multi-hop routes go through exactInput so amountOutMin matches the quoted path
+  const isMultiHop = route.fees.length > 1
+
+  const approval = tokenInForQuote === 'BCX' ? null : await getSwapApproval(publicClient, tokenInAddress, recipient, amountInWei)
+  const permit2 = approval === 'permit2' ? getPermit2Contracts() : null
+
+  // Split quotes execute every leg atomically through the router's multicall
+  const splitLegs = swapQuote.split?.map((leg, i, legs) => ({
+    route: leg.route,
+    amountIn: i === legs.length - 1
+      ? amountInWei - legs.slice(0, -1).reduce((acc, l) => acc + parseUnits(l.amountIn, inDecimals), BigInt(0))
+      : parseUnits(leg.amountIn, inDecimals),
+    amountOutMin: applySlippageDown(parseUnits(leg.amountOut, outDecimals), slippage),
+  }))
+  const splitCalls = splitLegs?.map(leg => leg.route.fees.length > 1
+    ? encodeFunctionData({
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'exactInput',
+        args: [{
+          path: encodeRoutePath(leg.route),
+          recipient: recipient,
+          deadline: BigInt(deadlineTimestamp),
+          amountIn: leg.amountIn,
+          amountOutMinimum: leg.amountOutMin,
+        }],
+      })
+    : encodeFunctionData({
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'exactInputSingle',
+        args: [{
+          tokenIn: leg.route.tokens[0],
+          tokenOut: leg.route.tokens[1],
+          fee: leg.route.fees[0],
+          recipient: recipient,
+          deadline: BigInt(deadlineTimestamp),
+          amountIn: leg.amountIn,
+          amountOutMinimum: leg.amountOutMin,
+          sqrtPriceLimitX96: BigInt(0),
+        }],
+      })
+  )
+
+  // Swap tokens (WBCX if BCX was selected, otherwise the selected token)
+  const call: ContractWrite = permit2
+    ? buildUniversalRouterSwap(
+        permit2.router,
+        'EXACT_INPUT',
+        (splitLegs && splitLegs.length > 1 ? splitLegs : [{ route, amountIn: amountInWei, amountOutMin }]).map(leg => ({
+          path: encodeRoutePath(leg.route),
+          amount: leg.amountIn,
+          limit: leg.amountOutMin,
+        })),
+        recipient,
+        BigInt(deadlineTimestamp)
+      )
+    : splitCalls && splitCalls.length > 1
+    ? {
+        address: CONTRACT_ADDRESSES.SWAP_ROUTER as Address,
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'multicall',
+        args: [splitCalls],
+      }
+    : isMultiHop
+    ? {
+        address: CONTRACT_ADDRESSES.SWAP_ROUTER as Address,
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'exactInput',
+        args: [{
+          path: encodeRoutePath(route), // Starts/ends with WBCX if BCX was selected
+          recipient: recipient, // Will receive WBCX if swapping to BCX
+          deadline: BigInt(deadlineTimestamp),
+          amountIn: amountInWei,
+          amountOutMinimum: amountOutMin,
+        }],
       }
+    : {
+        address: CONTRACT_ADDRESSES.SWAP_ROUTER as Address,
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'exactInputSingle',
+        args: [{
+          tokenIn: tokenInAddress, // Already WBCX if BCX was selected
+          tokenOut: tokenOutAddress, // Already WBCX if BCX was selected
+          fee: route.fees[0],
+          recipient: recipient, // Will receive WBCX if swapping to BCX
+          deadline: BigInt(deadlineTimestamp),
+          amountIn: amountInWei,
+          amountOutMinimum: amountOutMin,
+          sqrtPriceLimitX96: BigInt(0),
+        }],
+      }
+
+  return {
+    tokenInForQuote,
+    tokenOutForQuote,
+    tokenInAddress,
+    inDecimals,
+    outDecimals,
+    amountInWei,
+    deadline: BigInt(deadlineTimestamp),
+    approval,
+    call,
+  }
+}
+
+// Sum the uint256 every exact* router function returns, across multicall legs
+function decodeSwapAmount(result: bigint | readonly Hex[]): bigint {
+  if (typeof result === 'bigint') return result
+  return result.reduce((acc, data) => acc + decodeAbiParameters([{ type: 'uint256' }], data)[0], BigInt(0))
+}
+
+async function hasRouterAllowance(publicClient: PublicClient, token: Address, owner: Address, amount: bigint): Promise<boolean> {
+  const allowance = await publicClient.readContract({
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'allowance',
+    args: [owner, CONTRACT_ADDRESSES.SWAP_ROUTER as Address],
+  })
+  return allowance >= amount
+}
+
+/**
+ * How the router gets to pull an ERC-20 input: SwapRouter already has an
+ * allowance, the token supports EIP-2612 and a permit is redeemed with
+ * selfPermit, the Universal Router pulls it with a Permit2 signature, or an
+ * approve transaction to SwapRouter has to go first
+ */
+type SwapApproval = 'allowance' | 'permit' | 'permit2' | 'approve'
+
+async function getSwapApproval(publicClient: PublicClient, token: Address, owner: Address, amount: bigint): Promise<SwapApproval> {
+  if (await hasRouterAllowance(publicClient, token, owner, amount)) return 'allowance'
+  if (await supportsPermit(publicClient, token)) return 'permit'
+  return getPermit2Contracts() ? 'permit2' : 'approve'
+}
+
+/**
+ * The contract an approve transaction has to go to before swapping `amount` of
+ * `token`, or null if the swap needs none. With Permit2 that is Permit2 itself,
+ * once per token; the swap then carries a signature instead.
+ */
+export async function getSwapApprovalSpender(
+  publicClient: PublicClient,
+  token: Address,
+  owner: Address,
+  amount: bigint
+): Promise<Address | null> {
+  const approval = await getSwapApproval(publicClient, token, owner, amount)
+  if (approval === 'approve') return CONTRACT_ADDRESSES.SWAP_ROUTER as Address
+  const permit2 = approval === 'permit2' ? getPermit2Contracts() : null
+  if (permit2 && !await hasPermit2Approval(publicClient, permit2, token, owner, amount)) return permit2.permit2
+  return null
+}
+
+/**
+ * Sign whatever the swap needs to pull its input and bundle it into the router call
+ * @throws When an approve transaction has to be sent first
+ */
+async function authorizeSwap(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  approval: SwapApproval,
+  call: ContractWrite,
+  token: Address,
+  amount: bigint,
+  decimals: number,
+  deadline: bigint,
+  approveMessage: string
+): Promise<ContractWrite> {
+  const owner = walletClient.account?.address
+  if (!owner) throw new Error('Wallet not connected')
+
+  switch (approval) {
+    case 'allowance':
+      return call
+    case 'permit': {
+      // Tokens with EIP-2612 are approved by a signature redeemed in the swap itself
+      const approvalAmount = getApprovalAmount(amount, decimals)
+      const permit = await signPermit(walletClient, publicClient, token, CONTRACT_ADDRESSES.SWAP_ROUTER as Address, approvalAmount, deadline)
+      if (permit) return withSelfPermits(call, [permit])
+      break
+    }
+    case 'permit2': {
+      // Once Permit2 is approved, the Universal Router needs a signed allowance unless an earlier one still covers the swap
+      const permit2 = getPermit2Contracts()
+      if (!permit2 || !await hasPermit2Approval(publicClient, permit2, token, owner, amount)) break
+      const permit: Permit2Permit | null = await hasPermit2Allowance(publicClient, permit2, token, owner, amount)
+        ? null
+        : await signPermit2(walletClient, publicClient, permit2, token, getApprovalAmount(amount, decimals), deadline)
+      return withPermit2Permit(call, permit)
     }
-    if (inDecimals === undefined) inDecimals = await resolveDecimals(tokenInAddress)
-    if (outDecimals === undefined) outDecimals = await resolveDecimals(tokenOutAddress)
+  }
+  // Anything else has to be approved first, which SwapCard does
+  throw new Error(approveMessage)
+}
 
-    const amountInWei = parseUnits(amountIn, inDecimals as number)
-    const amountOutMin = parseUnits(
-      (parseFloat(quote.amountOut) * (1 - slippage / 100)).toString(),
-      outDecimals as number
-    )
-    
-    const deadlineTimestamp = Math.floor(Date.now() / 1000) + deadline * 60
-    // Use fee from quote if available, otherwise default to 500
-    const fee = params.fee || quote.fee || 500
+/**
+ * Run a Universal Router swap that needs no new signature, to catch reverts.
+ * execute returns nothing, so even a swap that goes through has no amount to report.
+ */
+async function previewPermit2Swap(
+  publicClient: PublicClient,
+  owner: Address,
+  token: Address,
+  amount: bigint,
+  call: ContractWrite
+): Promise<SimulationOutcome<string>> {
+  const permit2 = getPermit2Contracts()
+  if (
+    !permit2 ||
+    !await hasPermit2Approval(publicClient, permit2, token, owner, amount) ||
+    !await hasPermit2Allowance(publicClient, permit2, token, owner, amount)
+  ) {
+    return { status: 'unavailable', message: 'The swap is simulated once it is signed for' }
+  }
+  const outcome = await previewWrite(publicClient, owner, call)
+  if (outcome.status !== 'success') return outcome
+  return { status: 'unavailable', message: 'The Universal Router reports no amounts; the swap is expected to succeed' }
+}
+
+/**
+ * Simulate the router call executeSwap would send for this quote
+ * @returns Predicted amount out of tokenOut, formatted
+ */
+export async function simulateSwap(
+  publicClient: PublicClient,
+  params: SwapParams & { decimalsIn?: number; decimalsOut?: number },
+  quote?: SwapQuote
+): Promise<SimulationOutcome<string>> {
+  const { tokenInForQuote, tokenInAddress, outDecimals, amountInWei, approval, call } = await prepareSwap(publicClient, params, quote)
+
+  if (tokenInForQuote === 'BCX') {
+    // The router wraps BCX sent as value, standing in for executeSwap's wrap and approval
+    call.value = amountInWei
+  } else if (approval === 'permit2') {
+    return previewPermit2Swap(publicClient, params.recipient, tokenInAddress, amountInWei, call)
+  } else if (approval !== 'allowance') {
+    return { status: 'unavailable', message: 'The swap is simulated once the token is approved' }
+  }
+
+  const outcome = await previewWrite<bigint | readonly Hex[]>(publicClient, params.recipient, call)
+  if (outcome.status !== 'success') return outcome
+  return { status: 'success', result: formatUnits(decodeSwapAmount(outcome.result), outDecimals) }
+}
+
+// Approving the router or Permit2, priced at the amount the swap will pull
+async function approvalGasStep(publicClient: PublicClient, token: Address, owner: Address, amount: bigint, spender: Address): Promise<GasStep> {
+  const symbol = findKnownToken(token, loadPoolRegistry())?.symbol ?? 'token'
+  const estimate = await estimateWriteGas(publicClient, owner, {
+    address: token,
+    abi: ERC20_ABI,
+    functionName: 'approve',
+    args: [spender, amount],
+  })
+  return gasStep(`Approve ${symbol}`, estimate, FALLBACK_GAS.approve)
+}
+
+/**
+ * The approve transaction a swap needs first, if any, and the gas of the
+ * permit bundled into it
+ * @returns ready: whether the swap can already be estimated by the node
+ */
+async function swapApprovalGas(
+  publicClient: PublicClient,
+  approval: SwapApproval,
+  token: Address,
+  owner: Address,
+  amount: bigint
+): Promise<{ steps: GasStep[]; permitGas: bigint; ready: boolean }> {
+  const permit2 = approval === 'permit2' ? getPermit2Contracts() : null
+  if (permit2) {
+    const approved = await hasPermit2Approval(publicClient, permit2, token, owner, amount)
+    const permitted = approved && await hasPermit2Allowance(publicClient, permit2, token, owner, amount)
+    return {
+      steps: approved ? [] : [await approvalGasStep(publicClient, token, owner, amount, permit2.permit2)],
+      permitGas: permitted ? BigInt(0) : FALLBACK_GAS.permit2Permit,
+      ready: permitted,
+    }
+  }
+  if (approval === 'permit') return { steps: [], permitGas: FALLBACK_GAS.selfPermit, ready: false }
+  if (approval === 'approve') {
+    const step = await approvalGasStep(publicClient, token, owner, amount, CONTRACT_ADDRESSES.SWAP_ROUTER as Address)
+    return { steps: [step], permitGas: BigInt(0), ready: false }
+  }
+  return { steps: [], permitGas: BigInt(0), ready: true }
+}
+
+/**
+ * The swap transaction itself: estimated by the node when it can run now,
+ * otherwise taken from the quoter, plus the permit when one is bundled
+ */
+async function swapGasStep(
+  publicClient: PublicClient,
+  account: Address,
+  call: ContractWrite,
+  ready: boolean,
+  permitGas: bigint,
+  quotedGas?: bigint
+): Promise<GasStep> {
+  const estimate = (ready ? await estimateWriteGas(publicClient, account, call) : null)
+    ?? (quotedGas !== undefined ? quotedGas + TX_BASE_GAS : null)
+  return gasStep(
+    permitGas > BigInt(0) ? 'Swap with permit' : 'Swap',
+    estimate !== null ? estimate + permitGas : null,
+    FALLBACK_GAS.swap + permitGas
+  )
+}
+
+/**
+ * Gas for every transaction executeSwap sends for this quote: the wrap and
+ * approval when needed, the swap itself and the unwrap when buying BCX
+ */
+export async function estimateSwapGas(
+  publicClient: PublicClient,
+  params: SwapParams & { decimalsIn?: number; decimalsOut?: number },
+  quote?: SwapQuote
+): Promise<GasStep[]> {
+  const { recipient } = params
+  const { tokenInForQuote, tokenOutForQuote, tokenInAddress, amountInWei, approval, call } = await prepareSwap(publicClient, params, quote)
+  const steps: GasStep[] = []
+
+  // The swap can only be estimated once the router may pull WBCX the wallet already holds
+  let swapReady = true
+  if (tokenInForQuote === 'BCX') {
+    const wrapGas = await estimateWriteGas(publicClient, recipient, {
+      address: tokens.WBCX.address as Address,
+      abi: WETH_ABI,
+      functionName: 'deposit',
+      value: amountInWei,
+    })
+    steps.push(gasStep('Wrap BCX', wrapGas, FALLBACK_GAS.wrap))
+    swapReady = false
+  }
+  // Wrapped BCX is approved to SwapRouter; tokens with permit or Permit2 are signed for inside the swap
+  const inputApproval = approval ?? (await hasRouterAllowance(publicClient, tokenInAddress, recipient, amountInWei) ? 'allowance' : 'approve')
+  const { steps: approvalSteps, permitGas, ready } = await swapApprovalGas(publicClient, inputApproval, tokenInAddress, recipient, amountInWei)
+  steps.push(...approvalSteps)
+  swapReady = swapReady && ready
+
+  steps.push(await swapGasStep(publicClient, recipient, call, swapReady, permitGas, quote?.gasEstimate))
+
+  if (tokenOutForQuote === 'BCX') {
+    steps.push(gasStep('Unwrap WBCX', null, FALLBACK_GAS.unwrap))
+  }
+  return steps
+}
+
+/**
+ * Send the swap for this quote: the wrap, approval or permit it needs, the
+ * router call and the unwrap when buying BCX
+ * @param quote Quote the user previewed; the router call is built from it so the
+ * route and minimum match what was shown. Fetched fresh when omitted.
+ */
+export async function executeSwap(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  params: SwapParams & { decimalsIn?: number; decimalsOut?: number },
+  quote?: SwapQuote
+): Promise<string> {
+  try {
+    const { recipient } = params
+    const { tokenInForQuote, tokenOutForQuote, tokenInAddress, inDecimals, amountInWei, deadline, approval, call } = await prepareSwap(publicClient, params, quote)
+    let swapCall = call
     
     // Wrap BCX to WBCX if needed (automatic wrapping like Uniswap)
     if (tokenInForQuote === 'BCX') {
-      const wrapHash = await walletClient.writeContract({
+      const wrapHash = await simulateAndWrite(publicClient, walletClient, {
         address: tokens.WBCX.address as Address,
         abi: WETH_ABI,
         functionName: 'deposit',
@@ -289,34 +974,27 @@ export async function executeSwap(
       await publicClient.waitForTransactionReceipt({ hash: wrapHash })
       
       // After wrapping, we need to approve WBCX for the swap router
-      const wbcxAllowance = await publicClient.readContract({
-        address: tokens.WBCX.address as Address,
-        abi: ERC20_ABI,
-        functionName: 'allowance',
-        args: [recipient, CONTRACT_ADDRESSES.SWAP_ROUTER],
-      })
-      
-      if (wbcxAllowance < amountInWei) {
-        const approveHash = await walletClient.writeContract({
+      if (!await hasRouterAllowance(publicClient, tokens.WBCX.address as Address, recipient, amountInWei)) {
+        const approveHash = await simulateAndWrite(publicClient, walletClient, {
           address: tokens.WBCX.address as Address,
           abi: ERC20_ABI,
           functionName: 'approve',
-          args: [CONTRACT_ADDRESSES.SWAP_ROUTER, amountInWei],
+          args: [CONTRACT_ADDRESSES.SWAP_ROUTER, getApprovalAmount(amountInWei, tokens.WBCX.decimals)],
         })
         await publicClient.waitForTransactionReceipt({ hash: approveHash })
       }
-    } else {
-      // For non-BCX tokens, check approval (approval should be done in SwapCard, but double-check here)
-      const tokenAllowance = await publicClient.readContract({
-        address: tokenInAddress as Address,
-        abi: ERC20_ABI,
-        functionName: 'allowance',
-        args: [recipient, CONTRACT_ADDRESSES.SWAP_ROUTER],
-      })
-      
-      if (tokenAllowance < amountInWei) {
-        throw new Error(`Insufficient token approval. Please approve ${tokenInForQuote} first.`)
-      }
+    } else if (approval) {
+      swapCall = await authorizeSwap(
+        walletClient,
+        publicClient,
+        approval,
+        call,
+        tokenInAddress,
+        amountInWei,
+        inDecimals,
+        deadline,
+        `Insufficient token approval. Please approve ${tokenInForQuote} first.`
+      )
     }
     
     // If swapping to BCX, get WBCX balance before swap to calculate exact amount received
@@ -330,25 +1008,10 @@ export async function executeSwap(
       })
     }
     
-    // Swap tokens (WBCX if BCX was selected, otherwise the selected token)
-    const hash = await walletClient.writeContract({
-      address: CONTRACT_ADDRESSES.SWAP_ROUTER,
-      abi: SWAP_ROUTER_ABI,
-      functionName: 'exactInputSingle',
-      args: [{
-        tokenIn: tokenInAddress, // Already WBCX if BCX was selected
-        tokenOut: tokenOutAddress, // Already WBCX if BCX was selected
-        fee: fee,
-        recipient: recipient, // Will receive WBCX if swapping to BCX
-        deadline: BigInt(deadlineTimestamp),
-        amountIn: amountInWei,
-        amountOutMinimum: amountOutMin,
-        sqrtPriceLimitX96: BigInt(0),
-      }],
-    })
+    const hash = await simulateAndWrite(publicClient, walletClient, swapCall)
     
     // Wait for swap to complete
-    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+    await publicClient.waitForTransactionReceipt({ hash })
     
     // If swapping to BCX, automatically unwrap WBCX to BCX
     if (tokenOutForQuote === 'BCX') {
@@ -365,7 +1028,7 @@ export async function executeSwap(
       
       // Unwrap only the WBCX received from the swap (user receives native BCX)
       if (wbcxReceived > BigInt(0)) {
-        const unwrapHash = await walletClient.writeContract({
+        const unwrapHash = await simulateAndWrite(publicClient, walletClient, {
           address: tokens.WBCX.address as Address,
           abi: WETH_ABI,
           functionName: 'withdraw',
@@ -383,12 +1046,243 @@ export async function executeSwap(
     return hash
   } catch (error) {
     console.error('Error executing swap:', error)
-    throw new Error(`Failed to execute swap: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw decodeDexError(error, 'Failed to execute swap')
+  }
+}
+
+interface PreparedExactOutputSwap {
+  tokenInForQuote: string
+  tokenOutForQuote: string
+  tokenInAddress: Address
+  inDecimals: number
+  amountInMaximum: bigint
+  deadline: bigint
+  approval: SwapApproval | null // How the router pulls the input; null for BCX, sent as value
+  call: ContractWrite
+}
+
+/**
+ * Resolve tokens, decimals and the exact router call for an exact-output swap
+ * @param quote Quote the user is looking at; fetched fresh when omitted
+ */
+async function prepareExactOutputSwap(
+  publicClient: PublicClient,
+  params: ExactOutputSwapParams,
+  quote?: ExactOutputQuote
+): Promise<PreparedExactOutputSwap> {
+  const { tokenIn, tokenOut, amountOut, slippage, deadline, recipient } = params
+
+  const tokenInForQuote = (tokenIn === '0x0000000000000000000000000000000000000000' || tokenIn === 'BCX')
+    ? 'BCX'
+    : tokenIn
+  const tokenOutForQuote = (tokenOut === '0x0000000000000000000000000000000000000000' || tokenOut === 'BCX')
+    ? 'BCX'
+    : tokenOut
+
+  const tokenInAddress = (tokenInForQuote === 'BCX' ? tokens.WBCX.address : tokenIn) as Address
+  const tokenOutAddress = (tokenOutForQuote === 'BCX' ? tokens.WBCX.address : tokenOut) as Address
+
+  const swapQuote = quote ?? await getExactOutputQuote(publicClient, tokenInForQuote, tokenOutForQuote, amountOut, slippage)
+  if (!swapQuote.route) {
+    throw new Error('No route found for this swap')
+  }
+
+  const inDecimals = params.decimalsIn ?? await resolveTokenDecimals(publicClient, tokenInAddress)
+  const outDecimals = params.decimalsOut ?? await resolveTokenDecimals(publicClient, tokenOutAddress)
+
+  const amountOutWei = parseUnits(amountOut, outDecimals)
+  const amountInMaximum = applySlippageUp(parseUnits(swapQuote.amountIn, inDecimals), slippage)
+  const deadlineTimestamp = BigInt(Math.floor(Date.now() / 1000) + deadline * 60)
+  const isMultiHop = swapQuote.route.fees.length > 1
+
+  const approval = tokenInForQuote === 'BCX' ? null : await getSwapApproval(publicClient, tokenInAddress, recipient, amountInMaximum)
+  const permit2 = approval === 'permit2' ? getPermit2Contracts() : null
+  if (permit2) {
+    const call = buildUniversalRouterSwap(
+      permit2.router,
+      'EXACT_OUTPUT',
+      [{ path: encodeRoutePath(swapQuote.route, 'EXACT_OUTPUT'), amount: amountOutWei, limit: amountInMaximum }],
+      recipient, // Will receive WBCX if swapping to BCX
+      deadlineTimestamp
+    )
+    return { tokenInForQuote, tokenOutForQuote, tokenInAddress, inDecimals, amountInMaximum, deadline: deadlineTimestamp, approval, call }
+  }
+
+  const swapCall = isMultiHop
+    ? encodeFunctionData({
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'exactOutput',
+        args: [{
+          path: encodeRoutePath(swapQuote.route, 'EXACT_OUTPUT'),
+          recipient: recipient, // Will receive WBCX if swapping to BCX
+          deadline: deadlineTimestamp,
+          amountOut: amountOutWei,
+          amountInMaximum,
+        }],
+      })
+    : encodeFunctionData({
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'exactOutputSingle',
+        args: [{
+          tokenIn: tokenInAddress,
+          tokenOut: tokenOutAddress,
+          fee: swapQuote.route.fees[0],
+          recipient: recipient, // Will receive WBCX if swapping to BCX
+          deadline: deadlineTimestamp,
+          amountOut: amountOutWei,
+          amountInMaximum,
+          sqrtPriceLimitX96: BigInt(0),
+        }],
+      })
+
+  // Native BCX input: send amountInMaximum as value, the router wraps what the
+  // swap needs and refundETH returns the unspent BCX in the same transaction
+  const call: ContractWrite = tokenInForQuote === 'BCX'
+    ? {
+        address: CONTRACT_ADDRESSES.SWAP_ROUTER as Address,
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'multicall',
+        args: [[swapCall, encodeFunctionData({ abi: SWAP_ROUTER_ABI, functionName: 'refundETH' })]],
+        value: amountInMaximum,
+      }
+    : {
+        address: CONTRACT_ADDRESSES.SWAP_ROUTER as Address,
+        abi: SWAP_ROUTER_ABI,
+        functionName: 'multicall',
+        args: [[swapCall]],
+      }
+
+  return { tokenInForQuote, tokenOutForQuote, tokenInAddress, inDecimals, amountInMaximum, deadline: deadlineTimestamp, approval, call }
+}
+
+/**
+ * Simulate the router call executeExactOutputSwap would send for this quote
+ * @returns Predicted amount of tokenIn spent, formatted
+ */
+export async function simulateExactOutputSwap(
+  publicClient: PublicClient,
+  params: ExactOutputSwapParams,
+  quote?: ExactOutputQuote
+): Promise<SimulationOutcome<string>> {
+  const { tokenInAddress, inDecimals, amountInMaximum, approval, call } = await prepareExactOutputSwap(publicClient, params, quote)
+
+  if (approval === 'permit2') {
+    return previewPermit2Swap(publicClient, params.recipient, tokenInAddress, amountInMaximum, call)
+  } else if (approval !== null && approval !== 'allowance') {
+    return { status: 'unavailable', message: 'The swap is simulated once the token is approved' }
+  }
+
+  const outcome = await previewWrite<readonly Hex[]>(publicClient, params.recipient, call)
+  if (outcome.status !== 'success') return outcome
+  // Only the swap leg returns an amount; refundETH returns nothing
+  return { status: 'success', result: formatUnits(decodeSwapAmount(outcome.result.slice(0, 1)), inDecimals) }
+}
+
+/**
+ * Gas for every transaction executeExactOutputSwap sends for this quote.
+ * BCX input is wrapped by the router within the swap, so it needs no extra step.
+ */
+export async function estimateExactOutputSwapGas(
+  publicClient: PublicClient,
+  params: ExactOutputSwapParams,
+  quote?: ExactOutputQuote
+): Promise<GasStep[]> {
+  const { recipient } = params
+  const { tokenOutForQuote, tokenInAddress, amountInMaximum, approval, call } =
+    await prepareExactOutputSwap(publicClient, params, quote)
+  const steps: GasStep[] = []
+
+  const { steps: approvalSteps, permitGas, ready } =
+    await swapApprovalGas(publicClient, approval ?? 'allowance', tokenInAddress, recipient, amountInMaximum)
+  steps.push(...approvalSteps)
+
+  steps.push(await swapGasStep(publicClient, recipient, call, ready, permitGas, quote?.gasEstimate))
+
+  if (tokenOutForQuote === 'BCX') {
+    steps.push(gasStep('Unwrap WBCX', null, FALLBACK_GAS.unwrap))
+  }
+  return steps
+}
+
+/**
+ * Send the exact-output swap for this quote
+ * @param quote Quote the user previewed; amountInMaximum is derived from it so
+ * the amount spent is capped at the maximumSold shown. Fetched fresh when omitted.
+ */
+export async function executeExactOutputSwap(
+  walletClient: WalletClient<Transport, Chain, Account>,
+  publicClient: PublicClient,
+  params: ExactOutputSwapParams,
+  quote?: ExactOutputQuote
+): Promise<string> {
+  try {
+    const { recipient } = params
+    const { tokenInForQuote, tokenOutForQuote, tokenInAddress, inDecimals, amountInMaximum, deadline, approval, call } =
+      await prepareExactOutputSwap(publicClient, params, quote)
+
+    // Approval must cover the slippage-adjusted maximum, not just the quoted input
+    const swapCall = approval
+      ? await authorizeSwap(
+          walletClient,
+          publicClient,
+          approval,
+          call,
+          tokenInAddress,
+          amountInMaximum,
+          inDecimals,
+          deadline,
+          `Insufficient token approval. Please approve ${formatUnits(amountInMaximum, inDecimals)} ${tokenInForQuote} first.`
+        )
+      : call
+
+    // If swapping to BCX, get WBCX balance before swap to calculate exact amount received
+    let wbcxBalanceBefore = BigInt(0)
+    if (tokenOutForQuote === 'BCX') {
+      wbcxBalanceBefore = await publicClient.readContract({
+        address: tokens.WBCX.address as Address,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [recipient],
+      })
+    }
+
+    const hash = await simulateAndWrite(publicClient, walletClient, swapCall)
+
+    await publicClient.waitForTransactionReceipt({ hash })
+
+    // If swapping to BCX, unwrap exactly the WBCX received from the swap
+    if (tokenOutForQuote === 'BCX') {
+      const wbcxBalanceAfter = await publicClient.readContract({
+        address: tokens.WBCX.address as Address,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [recipient],
+      })
+
+      const wbcxReceived = wbcxBalanceAfter - wbcxBalanceBefore
+      if (wbcxReceived > BigInt(0)) {
+        const unwrapHash = await simulateAndWrite(publicClient, walletClient, {
+          address: tokens.WBCX.address as Address,
+          abi: WETH_ABI,
+          functionName: 'withdraw',
+          args: [wbcxReceived],
+        })
+
+        await publicClient.waitForTransactionReceipt({ hash: unwrapHash })
+
+        return unwrapHash
+      }
+    }
+
+    return hash
+  } catch (error) {
+    console.error('Error executing exact output swap:', error)
+    throw decodeDexError(error, 'Failed to execute swap')
   }
 }
 
 export async function getTokenBalance(
-  publicClient: any,
+  publicClient: PublicClient,
   tokenAddress: string,
   userAddress: Address,
   decimals?: number
@@ -434,7 +1328,7 @@ export async function getTokenBalance(
 }
 
 export async function getTokenAllowance(
-  publicClient: any,
+  publicClient: PublicClient,
   tokenAddress: string,
   userAddress: Address,
   decimals?: number
@@ -444,7 +1338,7 @@ export async function getTokenAllowance(
       address: tokenAddress as Address,
       abi: ERC20_ABI,
       functionName: 'allowance',
-      args: [userAddress, CONTRACT_ADDRESSES.ROUTER],
+      args: [userAddress, CONTRACT_ADDRESSES.ROUTER as Address],
     })
 
     // Determine token decimals if not provided
@@ -468,32 +1362,36 @@ export async function getTokenAllowance(
   }
 }
 
+/**
+ * Price impact of a trade as a percentage, comparing its execution price
+ * against the pool mid price before the trade.
+ * @param midPrice - tokenOut per tokenIn before the trade, in display units (fees already deducted)
+ */
 export function calculatePriceImpact(
   amountIn: string,
   amountOut: string,
-  poolReserves: { reserveIn: string; reserveOut: string }
+  midPrice: number
 ): number {
-  // Simplified price impact calculation
-  // In a real implementation, this would use the actual pool reserves
   const inputValue = parseFloat(amountIn)
   const outputValue = parseFloat(amountOut)
-  const reserveIn = parseFloat(poolReserves.reserveIn)
-  const reserveOut = parseFloat(poolReserves.reserveOut)
-  
-  const priceBefore = reserveOut / reserveIn
-  const priceAfter = outputValue / inputValue
-  
-  return ((priceAfter - priceBefore) / priceBefore) * 100
+
+  if (!inputValue || !midPrice || !isFinite(midPrice)) return 0
+
+  const executionPrice = outputValue / inputValue
+
+  // Execution can only be worse than mid; clamp float noise below zero
+  return Math.max(0, ((midPrice - executionPrice) / midPrice) * 100)
 }
 
 export async function wrapBCX(
-  walletClient: any,
+  walletClient: WalletClient,
+  publicClient: PublicClient,
   amount: string
 ): Promise<string> {
   try {
     const amountWei = parseUnits(amount, 18)
     
-    const hash = await walletClient.writeContract({
+    const hash = await simulateAndWrite(publicClient, walletClient, {
       address: tokens.WBCX.address as Address,
       abi: WETH_ABI,
       functionName: 'deposit',
@@ -503,18 +1401,19 @@ export async function wrapBCX(
     return hash
   } catch (error) {
     console.error('Error wrapping BCX:', error)
-    throw new Error(`Failed to wrap BCX: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw decodeDexError(error, 'Failed to wrap BCX')
   }
 }
 
 export async function unwrapWBCX(
-  walletClient: any,
+  walletClient: WalletClient,
+  publicClient: PublicClient,
   amount: string
 ): Promise<string> {
   try {
     const amountWei = parseUnits(amount, 18)
     
-    const hash = await walletClient.writeContract({
+    const hash = await simulateAndWrite(publicClient, walletClient, {
       address: tokens.WBCX.address as Address,
       abi: WETH_ABI,
       functionName: 'withdraw',
@@ -524,8 +1423,36 @@ export async function unwrapWBCX(
     return hash
   } catch (error) {
     console.error('Error unwrapping WBCX:', error)
-    throw new Error(`Failed to unwrap WBCX: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    throw decodeDexError(error, 'Failed to unwrap WBCX')
+  }
+}
+
+/**
+ * Gas for a plain wrap or unwrap between BCX and WBCX
+ */
+export async function estimateWrapGas(
+  publicClient: PublicClient,
+  account: Address,
+  operation: 'wrap' | 'unwrap',
+  amount: string
+): Promise<GasStep[]> {
+  const amountWei = parseUnits(amount, 18)
+  if (operation === 'wrap') {
+    const estimate = await estimateWriteGas(publicClient, account, {
+      address: tokens.WBCX.address as Address,
+      abi: WETH_ABI,
+      functionName: 'deposit',
+      value: amountWei,
+    })
+    return [gasStep('Wrap BCX', estimate, FALLBACK_GAS.wrap)]
   }
+  const estimate = await estimateWriteGas(publicClient, account, {
+    address: tokens.WBCX.address as Address,
+    abi: WETH_ABI,
+    functionName: 'withdraw',
+    args: [amountWei],
+  })
+  return [gasStep('Unwrap WBCX', estimate, FALLBACK_GAS.unwrap)]
 }
 
 export function isWrapUnwrapOperation(tokenIn: Token | null, tokenOut: Token | null): 'wrap' | 'unwrap' | null {
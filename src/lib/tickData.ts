@@ -0,0 +1,193 @@
+import { type Address, type PublicClient } from 'viem'
+import { POOL_ABI } from './contracts'
+import { batchReadContracts } from './multicall'
+import { tickToPrice } from './tickMath'
+import type { Pool } from '../types/pool'
+
+/**
+ * An initialized tick and the liquidity change when crossing it upwards
+ */
+export interface InitializedTick {
+  tick: number
+  liquidityNet: bigint
+  liquidityGross: bigint
+}
+
+/**
+ * Active liquidity over a tick interval [tickLower, tickUpper)
+ */
+export interface LiquidityBucket {
+  tickLower: number
+  tickUpper: number
+  priceLower: number // token1 per token0, human units
+  priceUpper: number
+  liquidity: bigint
+}
+
+export interface LiquidityDepth {
+  currentTick: number
+  tickSpacing: number
+  buckets: LiquidityBucket[]
+}
+
+// Bitmap words read on each side of the current tick; each word covers 256 * tickSpacing ticks
+const DEFAULT_WORD_RANGE = 2
+const DEFAULT_BUCKET_COUNT = 40
+
+const MIN_TICK = -887272
+const MAX_TICK = 887272
+
+// Initialized ticks per chain and pool (cleared on page refresh)
+const tickCache = new Map<string, InitializedTick[]>()
+const TICK_CACHE_TTL = 30000 // 30 seconds
+
+/**
+ * Compressed tick -> bitmap word, flooring towards negative infinity like the pool
+ */
+function getWordPosition(tick: number, tickSpacing: number): number {
+  return Math.floor(Math.floor(tick / tickSpacing) / 256)
+}
+
+/**
+ * Read initialized ticks around the current tick from the pool's tickBitmap and ticks()
+ * @param wordRange Bitmap words to scan on each side of the current word
+ * @returns Initialized ticks in ascending order
+ */
+export async function loadInitializedTicks(
+  publicClient: PublicClient,
+  poolAddress: string,
+  currentTick: number,
+  tickSpacing: number,
+  wordRange: number = DEFAULT_WORD_RANGE
+): Promise<InitializedTick[]> {
+  const cacheKey = `${publicClient.chain?.id}:${poolAddress.toLowerCase()}-${getWordPosition(currentTick, tickSpacing)}-${wordRange}`
+  const cached = tickCache.get(cacheKey)
+  if (cached) return cached
+
+  try {
+    const centerWord = getWordPosition(currentTick, tickSpacing)
+    const minWord = getWordPosition(MIN_TICK, tickSpacing)
+    const maxWord = getWordPosition(MAX_TICK, tickSpacing)
+    const words: number[] = []
+    for (let w = Math.max(minWord, centerWord - wordRange); w <= Math.min(maxWord, centerWord + wordRange); w++) {
+      words.push(w)
+    }
+
+    const bitmapResults = await batchReadContracts(
+      publicClient,
+      words.map(word => ({
+        address: poolAddress as Address,
+        abi: POOL_ABI,
+        functionName: 'tickBitmap',
+        args: [word],
+      }))
+    )
+
+    // Every set bit is an initialized (compressed) tick
+    const ticks: number[] = []
+    bitmapResults.forEach((result, i) => {
+      if (result.status !== 'success') return
+      const bitmap = result.result as bigint
+      if (bitmap === BigInt(0)) return
+      for (let bit = 0; bit < 256; bit++) {
+        if ((bitmap >> BigInt(bit)) & BigInt(1)) {
+          ticks.push((words[i] * 256 + bit) * tickSpacing)
+        }
+      }
+    })
+
+    const tickResults = await batchReadContracts(
+      publicClient,
+      ticks.map(tick => ({
+        address: poolAddress as Address,
+        abi: POOL_ABI,
+        functionName: 'ticks',
+        args: [tick],
+      }))
+    )
+
+    const initialized: InitializedTick[] = []
+    tickResults.forEach((result, i) => {
+      if (result.status !== 'success') return
+      const [liquidityGross, liquidityNet] = result.result as readonly [bigint, bigint]
+      initialized.push({ tick: ticks[i], liquidityNet, liquidityGross })
+    })
+    initialized.sort((a, b) => a.tick - b.tick)
+
+    tickCache.set(cacheKey, initialized)
+    setTimeout(() => tickCache.delete(cacheKey), TICK_CACHE_TTL)
+
+    return initialized
+  } catch (error) {
+    console.error('Error loading initialized ticks:', error)
+    throw new Error(`Failed to load tick data: ${error instanceof Error ? error.message : 'Unknown error'}`)
+  }
+}
+
+/**
+ * Reconstruct active liquidity on each side of the current tick.
+ * Starting from the pool's in-range liquidity, crossing a tick upwards adds its
+ * liquidityNet and crossing downwards subtracts it.
+ * @returns Active liquidity at the given tick
+ */
+function getActiveLiquidityAt(
+  tick: number,
+  currentTick: number,
+  currentLiquidity: bigint,
+  initializedTicks: InitializedTick[]
+): bigint {
+  let liquidity = currentLiquidity
+  if (tick >= currentTick) {
+    for (const t of initializedTicks) {
+      if (t.tick > currentTick && t.tick <= tick) liquidity += t.liquidityNet
+    }
+  } else {
+    for (const t of initializedTicks) {
+      if (t.tick > tick && t.tick <= currentTick) liquidity -= t.liquidityNet
+    }
+  }
+  return liquidity > BigInt(0) ? liquidity : BigInt(0)
+}
+
+/**
+ * Build a liquidity depth histogram around the pool's current price.
+ * Buckets are whole multiples of the pool's tickSpacing and cover the span of
+ * bitmap words that were scanned.
+ * @param pool Pool with current tick, liquidity and token decimals
+ * @param bucketCount Number of histogram buckets
+ */
+export async function getLiquidityDepth(
+  publicClient: PublicClient,
+  pool: Pool,
+  bucketCount: number = DEFAULT_BUCKET_COUNT,
+  wordRange: number = DEFAULT_WORD_RANGE
+): Promise<LiquidityDepth> {
+  const { tickSpacing, currentTick } = pool
+  const initializedTicks = await loadInitializedTicks(publicClient, pool.address, currentTick, tickSpacing, wordRange)
+
+  // Span the scanned words, clamped to the usable tick range
+  const wordTicks = 256 * tickSpacing
+  const centerWord = getWordPosition(currentTick, tickSpacing)
+  const spanLower = Math.max(Math.ceil(MIN_TICK / tickSpacing) * tickSpacing, (centerWord - wordRange) * wordTicks)
+  const spanUpper = Math.min(Math.floor(MAX_TICK / tickSpacing) * tickSpacing, (centerWord + wordRange + 1) * wordTicks)
+
+  const bucketWidth = Math.max(1, Math.ceil((spanUpper - spanLower) / tickSpacing / bucketCount)) * tickSpacing
+  const currentLiquidity = BigInt(pool.liquidity)
+
+  const buckets: LiquidityBucket[] = []
+  for (let tickLower = spanLower; tickLower < spanUpper; tickLower += bucketWidth) {
+    const tickUpper = Math.min(tickLower + bucketWidth, spanUpper)
+    buckets.push({
+      tickLower,
+      tickUpper,
+      priceLower: tickToPrice(tickLower, pool.token0.decimals, pool.token1.decimals),
+      priceUpper: tickToPrice(tickUpper, pool.token0.decimals, pool.token1.decimals),
+      // The bucket holding the current tick shows in-range liquidity; others sample their midpoint
+      liquidity: currentTick >= tickLower && currentTick < tickUpper
+        ? currentLiquidity
+        : getActiveLiquidityAt(Math.floor((tickLower + tickUpper) / 2), currentTick, currentLiquidity, initializedTicks),
+    })
+  }
+
+  return { currentTick, tickSpacing, buckets }
+}
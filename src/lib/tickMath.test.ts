@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest'
+import fc from 'fast-check'
+import {
+  MAX_SQRT_RATIO,
+  MIN_SQRT_RATIO,
+  encodeSqrtRatioX96,
+  getPriceRangeFromPercentage,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  isValidTickSpacing,
+  priceToSqrtPriceX96,
+  priceToTick,
+  sqrtPriceX96ToPrice,
+  tickToPrice,
+} from './tickMath'
+
+const MIN_TICK = -887272
+const MAX_TICK = 887272
+
+const tickArb = fc.integer({ min: MIN_TICK, max: MAX_TICK })
+const sqrtRatioArb = fc.bigInt({ min: MIN_SQRT_RATIO, max: MAX_SQRT_RATIO - BigInt(1) })
+
+// TickMath.getSqrtRatioAtTick results from Uniswap v3-core's TickMath test snapshot
+const SQRT_RATIO_VECTORS: Array<[number, string]> = [
+  [MIN_TICK, '4295128739'],
+  [MIN_TICK + 1, '4295343490'],
+  [-738203, '7409801140451'],
+  [-500000, '1101692437043807371'],
+  [-250000, '295440463448801648376846'],
+  [-150000, '43836292794701720435367485'],
+  [-50000, '6504256538020985011912221507'],
+  [-5000, '61703726247759831737814779831'],
+  [-4000, '64867181785621769311890333195'],
+  [-3000, '68192822843687888778582228483'],
+  [-2500, '69919044979842180277688105136'],
+  [-1000, '75364347830767020784054125655'],
+  [-500, '77272108795590369356373805297'],
+  [-250, '78244023372248365697264290337'],
+  [-100, '78833030112140176575862854579'],
+  [-50, '79030349367926598376800521322'],
+  [0, '79228162514264337593543950336'],
+  [50, '79426470787362580746886972461'],
+  [100, '79625275426524748796330556128'],
+  [250, '80224679980005306637834519095'],
+  [500, '81233731461783161732293370115'],
+  [1000, '83290069058676223003182343270'],
+  [2500, '89776708723587163891445672585'],
+  [3000, '92049301871182272007977902845'],
+  [4000, '96768528593268422080558758223'],
+  [5000, '101729702841318637793976746270'],
+  [50000, '965075977353221155028623082916'],
+  [150000, '143194173941309278083010301478497'],
+  [250000, '21246587762933397357449903968194344'],
+  [500000, '5697689776495288729098254600827762987878'],
+  [738203, '847134979253254120489401328389043031315994541'],
+  [MAX_TICK - 1, '1461373636630004318706518188784493106690254656249'],
+  [MAX_TICK, '1461446703485210103287273052203988822378723970342'],
+]
+
+describe('getSqrtRatioAtTick', () => {
+  it.each(SQRT_RATIO_VECTORS)('matches the contract at tick %i', (tick, sqrtPriceX96) => {
+    expect(getSqrtRatioAtTick(tick)).toBe(BigInt(sqrtPriceX96))
+  })
+
+  it('hits the sqrt ratio bounds at MIN_TICK and MAX_TICK', () => {
+    expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO)
+    expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO)
+  })
+
+  it('rejects ticks outside the valid range', () => {
+    expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow('Tick out of range')
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow('Tick out of range')
+    expect(() => getSqrtRatioAtTick(1.5)).toThrow('Tick out of range')
+  })
+
+  it('is strictly increasing', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: MIN_TICK, max: MAX_TICK - 1 }), tick => {
+        expect(getSqrtRatioAtTick(tick)).toBeLessThan(getSqrtRatioAtTick(tick + 1))
+      })
+    )
+  })
+})
+
+describe('getTickAtSqrtRatio', () => {
+  it('matches the contract at the range bounds', () => {
+    expect(getTickAtSqrtRatio(MIN_SQRT_RATIO)).toBe(MIN_TICK)
+    expect(getTickAtSqrtRatio(MIN_SQRT_RATIO + BigInt(1))).toBe(MIN_TICK)
+    expect(getTickAtSqrtRatio(MAX_SQRT_RATIO - BigInt(1))).toBe(MAX_TICK - 1)
+    expect(getTickAtSqrtRatio(BigInt('79228162514264337593543950336'))).toBe(0)
+    expect(getTickAtSqrtRatio(BigInt('79228162514264337593543950335'))).toBe(-1)
+  })
+
+  it('rejects ratios outside [MIN_SQRT_RATIO, MAX_SQRT_RATIO)', () => {
+    expect(() => getTickAtSqrtRatio(MIN_SQRT_RATIO - BigInt(1))).toThrow('sqrtPriceX96 out of range')
+    expect(() => getTickAtSqrtRatio(MAX_SQRT_RATIO)).toThrow('sqrtPriceX96 out of range')
+  })
+
+  it.each(SQRT_RATIO_VECTORS.filter(([tick]) => tick < MAX_TICK))('round-trips tick %i', tick => {
+    expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick))).toBe(tick)
+  })
+
+  it('round-trips random ticks', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: MIN_TICK, max: MAX_TICK - 1 }), tick => {
+        expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick))).toBe(tick)
+      }),
+      { numRuns: 2000 }
+    )
+  })
+
+  it('returns the greatest tick whose ratio is at most the given ratio', () => {
+    fc.assert(
+      fc.property(sqrtRatioArb, sqrtPriceX96 => {
+        const tick = getTickAtSqrtRatio(sqrtPriceX96)
+        expect(getSqrtRatioAtTick(tick)).toBeLessThanOrEqual(sqrtPriceX96)
+        if (tick < MAX_TICK) expect(getSqrtRatioAtTick(tick + 1)).toBeGreaterThan(sqrtPriceX96)
+      }),
+      { numRuns: 2000 }
+    )
+  })
+
+  it('stays on the lower tick just below each tick boundary', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: MIN_TICK + 1, max: MAX_TICK - 1 }), tick => {
+        expect(getTickAtSqrtRatio(getSqrtRatioAtTick(tick) - BigInt(1))).toBe(tick - 1)
+      })
+    )
+  })
+})
+
+describe('encodeSqrtRatioX96', () => {
+  it('matches the encodePriceSqrt values used in the v3-core tests', () => {
+    expect(encodeSqrtRatioX96(BigInt(1), BigInt(1))).toBe(BigInt('79228162514264337593543950336'))
+    expect(encodeSqrtRatioX96(BigInt(1), BigInt(2))).toBe(BigInt('56022770974786139918731938227'))
+    expect(encodeSqrtRatioX96(BigInt(2), BigInt(1))).toBe(BigInt('112045541949572279837463876454'))
+    expect(encodeSqrtRatioX96(BigInt(121), BigInt(100))).toBe(BigInt('87150978765690771352898345369'))
+  })
+})
+
+describe('decimals-aware price conversion', () => {
+  // 2000 USDC (6 decimals) per WETH (18 decimals), with WETH as token0
+  it('converts a WETH/USDC price to the pool tick', () => {
+    expect(priceToSqrtPriceX96(2000, 18, 6)).toBe(BigInt('3543191142285914205922034'))
+    expect(priceToTick(2000, 18, 6)).toBe(-200312)
+  })
+
+  // The same market with USDC as token0: 0.0005 WETH per USDC
+  it('converts the inverted USDC/WETH price to the pool tick', () => {
+    expect(priceToSqrtPriceX96('0.0005', 6, 18)).toBe(BigInt('1771595571142957102961017161607260'))
+    expect(priceToTick('0.0005', 6, 18)).toBe(200311)
+  })
+
+  it('reads human prices back from the tick', () => {
+    expect(tickToPrice(-200312, 18, 6)).toBeCloseTo(2000, -1)
+    expect(tickToPrice(-200312, 18, 6)).toBeLessThanOrEqual(2000)
+    expect(tickToPrice(-200311, 18, 6)).toBeGreaterThan(2000)
+  })
+
+  it('builds a percentage range around a WETH/USDC price in human units', () => {
+    const { minTick, maxTick, minPrice, maxPrice } = getPriceRangeFromPercentage(2000, 10, 10, 18, 6)
+    expect(isValidTickSpacing(minTick, 10)).toBe(true)
+    expect(isValidTickSpacing(maxTick, 10)).toBe(true)
+    expect(minTick).toBeLessThan(-200312)
+    expect(maxTick).toBeGreaterThan(-200312)
+    expect(minPrice).toBeCloseTo(2000 / 1.1, -1)
+    expect(maxPrice).toBeCloseTo(2200, -1)
+  })
+
+  it('brackets the price between the returned tick and the next one', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -400000, max: 400000 }),
+        fc.integer({ min: 0, max: 18 }),
+        fc.integer({ min: 0, max: 18 }),
+        (tick, decimals0, decimals1) => {
+          // Halfway between two ticks, well clear of float rounding at either edge
+          const price = Math.sqrt(tickToPrice(tick, decimals0, decimals1) * tickToPrice(tick + 1, decimals0, decimals1))
+          expect(priceToTick(price, decimals0, decimals1)).toBe(tick)
+        }
+      )
+    )
+  })
+
+  it('shifts the tick by the decimals difference', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -18, max: 18 }), shift => {
+        const decimals0 = Math.max(0, shift)
+        const decimals1 = Math.max(0, -shift)
+        // 10^(decimals1 - decimals0) raw units per human unit
+        expect(priceToTick(1, decimals0, decimals1)).toBe(getTickAtSqrtRatio(encodeSqrtRatioX96(
+          BigInt(10) ** BigInt(decimals1),
+          BigInt(10) ** BigInt(decimals0)
+        )))
+      })
+    )
+  })
+
+  it('clamps prices outside the tick range', () => {
+    expect(priceToTick('1e-40')).toBe(MIN_TICK)
+    expect(priceToTick('1e40')).toBe(MAX_TICK)
+    expect(() => priceToTick(0)).toThrow('Price must be positive')
+  })
+
+  it('prices every tick at 1.0001^tick', () => {
+    fc.assert(
+      fc.property(tickArb, tick => {
+        const price = sqrtPriceX96ToPrice(getSqrtRatioAtTick(tick))
+        expect(Math.abs(price / Math.pow(1.0001, tick) - 1)).toBeLessThan(1e-8)
+      })
+    )
+  })
+})
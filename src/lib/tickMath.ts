@@ -7,6 +7,85 @@
 const MIN_TICK = -887272
 const MAX_TICK = 887272
 const Q96 = BigInt(2) ** BigInt(96)
+const Q192 = Q96 * Q96
+const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1)
+
+// sqrtPriceX96 bounds, equal to getSqrtRatioAtTick(MIN_TICK) and getSqrtRatioAtTick(MAX_TICK)
+export const MIN_SQRT_RATIO = BigInt('4295128739')
+export const MAX_SQRT_RATIO = BigInt('1461446703485210103287273052203988822378723970342')
+
+// 1/sqrt(1.0001)^(2^i) in Q128.128, from Uniswap's TickMath.sol
+const TICK_RATIO_MULTIPLIERS: Array<[number, bigint]> = [
+  [0x2, BigInt('0xfff97272373d413259a46990580e213a')],
+  [0x4, BigInt('0xfff2e50f5f656932ef12357cf3c7fdcc')],
+  [0x8, BigInt('0xffe5caca7e10e4e61c3624eaa0941cd0')],
+  [0x10, BigInt('0xffcb9843d60f6159c9db58835c926644')],
+  [0x20, BigInt('0xff973b41fa98c081472e6896dfb254c0')],
+  [0x40, BigInt('0xff2ea16466c96a3843ec78b326b52861')],
+  [0x80, BigInt('0xfe5dee046a99a2a811c461f1969c3053')],
+  [0x100, BigInt('0xfcbe86c7900a88aedcffc83b479aa3a4')],
+  [0x200, BigInt('0xf987a7253ac413176f2b074cf7815e54')],
+  [0x400, BigInt('0xf3392b0822b70005940c7a398e4b70f3')],
+  [0x800, BigInt('0xe7159475a2c29b7443b29c7fa6e889d9')],
+  [0x1000, BigInt('0xd097f3bdfd2022b8845ad8f792aa5825')],
+  [0x2000, BigInt('0xa9f746462d870fdf8a65dc1f90e061e5')],
+  [0x4000, BigInt('0x70d869a156d2a1b890bb3df62baf32f7')],
+  [0x8000, BigInt('0x31be135f97d08fd981231505542fcfa6')],
+  [0x10000, BigInt('0x9aa508b5b7a84e1c677de54f3e99bc9')],
+  [0x20000, BigInt('0x5d6af8dedb81196699c329225ee604')],
+  [0x40000, BigInt('0x2216e584f5fa1ea926041bedfe98')],
+  [0x80000, BigInt('0x48a170391f7dc42444e8fa2')],
+]
+
+/**
+ * Exact fraction used for price conversions
+ */
+interface Fraction {
+  numerator: bigint
+  denominator: bigint
+}
+
+/**
+ * Parse a decimal price (e.g. 1234.5, "0.000001", 1e-7) into an exact fraction
+ */
+function toFraction(price: number | string): Fraction {
+  const text = typeof price === 'number' ? price.toString() : price.trim()
+  const match = /^(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text)
+  if (!match || (match[1] === '' && !match[2])) {
+    throw new Error(`Invalid price: ${text}`)
+  }
+
+  const [, whole, fractionDigits = '', exponentText = '0'] = match
+  const exponent = Number(exponentText) - fractionDigits.length
+  let numerator = BigInt(`${whole || '0'}${fractionDigits}`)
+  let denominator = BigInt(1)
+  if (exponent >= 0) {
+    numerator *= BigInt(10) ** BigInt(exponent)
+  } else {
+    denominator = BigInt(10) ** BigInt(-exponent)
+  }
+  return { numerator, denominator }
+}
+
+/**
+ * Integer square root (floor) via Newton's method
+ */
+function sqrtBigInt(value: bigint): bigint {
+  if (value < BigInt(0)) throw new Error('Square root of negative number')
+  if (value < BigInt(2)) return value
+
+  let x = value
+  let y = (x + BigInt(1)) >> BigInt(1)
+  while (y < x) {
+    x = y
+    y = (x + value / x) >> BigInt(1)
+  }
+  return x
+}
+
+function mostSignificantBit(value: bigint): number {
+  return value.toString(2).length - 1
+}
 
 /**
  * Get tick spacing for a given fee tier
@@ -29,32 +108,34 @@ export function getTickSpacing(fee: number): number {
 }
 
 /**
- * Convert price to tick
- * Price = 1.0001^tick
- * tick = log(price) / log(1.0001)
- * @param price Price ratio (token1/token0)
- * @returns Tick value
+ * Convert price to tick: the greatest tick whose price is <= the given price.
+ * Computed exactly via getTickAtSqrtRatio, so it matches the pool's tick math.
+ * @param price Price ratio (token1/token0), in human units when decimals are given
+ * @param decimals0 Decimals of token0 (omit for a raw price)
+ * @param decimals1 Decimals of token1 (omit for a raw price)
+ * @returns Tick value, clamped to the valid range
  */
-export function priceToTick(price: number): number {
-  if (price <= 0) {
+export function priceToTick(price: number | string, decimals0 = 0, decimals1 = 0): number {
+  if (Number(price) <= 0) {
     throw new Error('Price must be positive')
   }
-  
-  // tick = log(price) / log(1.0001)
-  const tick = Math.log(price) / Math.log(1.0001)
-  
-  // Clamp to valid range
-  return Math.max(MIN_TICK, Math.min(MAX_TICK, Math.floor(tick)))
+
+  const sqrtPriceX96 = priceToSqrtPriceX96(price, decimals0, decimals1)
+  if (sqrtPriceX96 < MIN_SQRT_RATIO) return MIN_TICK
+  if (sqrtPriceX96 >= MAX_SQRT_RATIO) return MAX_TICK
+  return getTickAtSqrtRatio(sqrtPriceX96)
 }
 
 /**
  * Convert tick to price
- * Price = 1.0001^tick
+ * Price = 1.0001^tick, scaled by 10^(decimals0 - decimals1) for human units
  * @param tick Tick value
+ * @param decimals0 Decimals of token0 (omit for a raw price)
+ * @param decimals1 Decimals of token1 (omit for a raw price)
  * @returns Price ratio (token1/token0)
  */
-export function tickToPrice(tick: number): number {
-  return Math.pow(1.0001, tick)
+export function tickToPrice(tick: number, decimals0 = 0, decimals1 = 0): number {
+  return sqrtPriceX96ToPrice(getSqrtRatioAtTick(tick), decimals0, decimals1)
 }
 
 /**
@@ -69,46 +150,114 @@ export function getNearestValidTick(tick: number, tickSpacing: number): number {
 }
 
 /**
- * Get sqrt ratio at tick for pool initialization
+ * Get sqrt ratio at tick, a bit-exact port of TickMath.getSqrtRatioAtTick
  * sqrtPriceX96 = sqrt(1.0001^tick) * 2^96
+ * e.g. tick 0 -> 2^96, MIN_TICK -> MIN_SQRT_RATIO, MAX_TICK -> MAX_SQRT_RATIO
  * @param tick Tick value
  * @returns sqrtPriceX96 as bigint
  */
 export function getSqrtRatioAtTick(tick: number): bigint {
-  if (tick < MIN_TICK || tick > MAX_TICK) {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
     throw new Error('Tick out of range')
   }
 
   const absTick = Math.abs(tick)
-  
-  // Calculate sqrt(1.0001^tick) using logarithms for precision
-  // sqrt(1.0001^tick) = 1.0001^(tick/2)
-  const sqrtPrice = Math.pow(1.0001, tick / 2)
-  
-  // Multiply by 2^96 and convert to bigint
-  const sqrtPriceX96 = BigInt(Math.floor(sqrtPrice * Number(Q96)))
-  
-  return sqrtPriceX96
+
+  let ratio = (absTick & 0x1) !== 0
+    ? BigInt('0xfffcb933bd6fad37aa2d162d1a594001')
+    : BigInt('0x100000000000000000000000000000000')
+  for (const [bit, multiplier] of TICK_RATIO_MULTIPLIERS) {
+    if ((absTick & bit) !== 0) ratio = (ratio * multiplier) >> BigInt(128)
+  }
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio
+
+  // Q128.128 -> Q64.96, rounding up so getTickAtSqrtRatio round-trips
+  const remainder = ratio % (BigInt(1) << BigInt(32))
+  return (ratio >> BigInt(32)) + (remainder === BigInt(0) ? BigInt(0) : BigInt(1))
+}
+
+/**
+ * Get the greatest tick whose sqrt ratio is <= sqrtPriceX96, a bit-exact port
+ * of TickMath.getTickAtSqrtRatio
+ * @param sqrtPriceX96 Square root price in X96 format, in [MIN_SQRT_RATIO, MAX_SQRT_RATIO)
+ * @returns Tick value
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error('sqrtPriceX96 out of range')
+  }
+
+  const sqrtRatioX128 = sqrtPriceX96 << BigInt(32)
+  const msb = mostSignificantBit(sqrtRatioX128)
+
+  let r = msb >= 128 ? sqrtRatioX128 >> BigInt(msb - 127) : sqrtRatioX128 << BigInt(127 - msb)
+  let log2 = BigInt(msb - 128) << BigInt(64)
+
+  // 14 bits of fractional log2 precision, as in the contract
+  for (let i = 0; i < 14; i++) {
+    r = (r * r) >> BigInt(127)
+    const f = r >> BigInt(128)
+    log2 = log2 | (f << BigInt(63 - i))
+    r = r >> f
+  }
+
+  const logSqrt10001 = log2 * BigInt('255738958999603826347141') // 128.128 number
+  const tickLow = Number((logSqrt10001 - BigInt('3402992956809132418596140100660247210')) >> BigInt(128))
+  const tickHigh = Number((logSqrt10001 + BigInt('291339464771989622907027621153398088495')) >> BigInt(128))
+
+  if (tickLow === tickHigh) return tickLow
+  return getSqrtRatioAtTick(tickHigh) <= sqrtPriceX96 ? tickHigh : tickLow
+}
+
+/**
+ * Encode an exact price ratio as sqrtPriceX96: sqrt(amount1 / amount0) * 2^96
+ * @param amount1 Numerator (token1 amount in raw units)
+ * @param amount0 Denominator (token0 amount in raw units)
+ * @returns sqrtPriceX96 as bigint (floor)
+ */
+export function encodeSqrtRatioX96(amount1: bigint, amount0: bigint): bigint {
+  if (amount0 <= BigInt(0) || amount1 < BigInt(0)) {
+    throw new Error('Invalid price ratio')
+  }
+  return sqrtBigInt((amount1 << BigInt(192)) / amount0)
+}
+
+/**
+ * Convert a price to sqrtPriceX96 without going through floating point
+ * @param price Price ratio (token1/token0), in human units when decimals are given
+ * @param decimals0 Decimals of token0 (omit for a raw price)
+ * @param decimals1 Decimals of token1 (omit for a raw price)
+ * @returns sqrtPriceX96 as bigint
+ */
+export function priceToSqrtPriceX96(price: number | string, decimals0 = 0, decimals1 = 0): bigint {
+  const { numerator, denominator } = toFraction(price)
+  // raw price = human price * 10^decimals1 / 10^decimals0
+  return encodeSqrtRatioX96(
+    numerator * BigInt(10) ** BigInt(decimals1),
+    denominator * BigInt(10) ** BigInt(decimals0)
+  )
 }
 
 /**
  * Get sqrt price from regular price
- * @param price Price ratio
+ * @param price Price ratio (raw units)
  * @returns sqrtPriceX96 as bigint
  */
 export function getSqrtPriceX96(price: number): bigint {
-  const sqrtPrice = Math.sqrt(price)
-  return BigInt(Math.floor(sqrtPrice * Number(Q96)))
+  return priceToSqrtPriceX96(price)
 }
 
 /**
  * Convert sqrtPriceX96 to regular price
  * @param sqrtPriceX96 Square root price in X96 format
- * @returns Regular price
+ * @param decimals0 Decimals of token0 (omit for a raw price)
+ * @param decimals1 Decimals of token1 (omit for a raw price)
+ * @returns Price ratio (token1/token0)
  */
-export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint): number {
-  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96)
-  return sqrtPrice * sqrtPrice
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0 = 0, decimals1 = 0): number {
+  // Square exactly, then convert once; 2^192 and the decimal scale stay exact as doubles
+  return (Number(sqrtPriceX96 * sqrtPriceX96) / Number(Q192)) * Math.pow(10, decimals0 - decimals1)
 }
 
 /**
@@ -117,21 +266,26 @@ export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint): number {
  * @returns Tick value
  */
 export function sqrtPriceX96ToTick(sqrtPriceX96: bigint): number {
-  const price = sqrtPriceX96ToPrice(sqrtPriceX96)
-  return priceToTick(price)
+  if (sqrtPriceX96 < MIN_SQRT_RATIO) return MIN_TICK
+  if (sqrtPriceX96 >= MAX_SQRT_RATIO) return MAX_TICK
+  return getTickAtSqrtRatio(sqrtPriceX96)
 }
 
 /**
  * Calculate price range from percentage around current price
- * @param currentPrice Current price
+ * @param currentPrice Current price (token1/token0), in human units when decimals are given
  * @param percentageRange Percentage range (e.g., 10 for ±10%)
  * @param tickSpacing Tick spacing to align to
+ * @param decimals0 Decimals of token0 (omit for a raw price)
+ * @param decimals1 Decimals of token1 (omit for a raw price)
  * @returns {minTick, maxTick, minPrice, maxPrice}
  */
 export function getPriceRangeFromPercentage(
   currentPrice: number,
   percentageRange: number,
-  tickSpacing: number
+  tickSpacing: number,
+  decimals0 = 0,
+  decimals1 = 0
 ): {
   minTick: number
   maxTick: number
@@ -142,8 +296,8 @@ export function getPriceRangeFromPercentage(
   const minPrice = currentPrice / multiplier
   const maxPrice = currentPrice * multiplier
   
-  const rawMinTick = priceToTick(minPrice)
-  const rawMaxTick = priceToTick(maxPrice)
+  const rawMinTick = priceToTick(minPrice, decimals0, decimals1)
+  const rawMaxTick = priceToTick(maxPrice, decimals0, decimals1)
   
   const minTick = getNearestValidTick(rawMinTick, tickSpacing)
   const maxTick = getNearestValidTick(rawMaxTick, tickSpacing)
@@ -151,8 +305,8 @@ export function getPriceRangeFromPercentage(
   return {
     minTick,
     maxTick,
-    minPrice: tickToPrice(minTick),
-    maxPrice: tickToPrice(maxTick),
+    minPrice: tickToPrice(minTick, decimals0, decimals1),
+    maxPrice: tickToPrice(maxTick, decimals0, decimals1),
   }
 }
 
@@ -0,0 +1,299 @@
+import type {
+  ListedToken,
+  TokenList,
+  TokenListDiff,
+  TokenListSource,
+  TokenListToken,
+  TokenListVersion,
+} from '../types/tokenList'
+
+const STORAGE_KEY = 'tokenLists'
+
+// URL lists are fetched again once they are older than this
+const TOKEN_LIST_TTL = 60 * 60 * 1000 // 1 hour
+
+// Lists offered to every user, comma-separated; they start enabled and can be turned off
+const DEFAULT_TOKEN_LIST_URLS = (process.env.NEXT_PUBLIC_TOKEN_LIST_URLS || '')
+  .split(',')
+  .map(url => url.trim())
+  .filter(Boolean)
+
+// Limits and patterns of the token list JSON schema (https://uniswap.org/tokenlist.schema.json)
+const LIST_NAME_PATTERN = /^[\w ]{1,30}$/
+const TOKEN_NAME_PATTERN = /^[ \w.'+\-%/À-ÖØ-öø-ÿ:&[\]()]{0,60}$/
+const TOKEN_SYMBOL_PATTERN = /^\S{0,20}$/
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/
+const MAX_TOKENS = 10000
+const MAX_TOKEN_TAGS = 10
+const MAX_KEYWORDS = 20
+const LIST_KEYS = new Set(['name', 'timestamp', 'version', 'tokens', 'logoURI', 'keywords', 'tags'])
+const TOKEN_KEYS = new Set(['chainId', 'address', 'name', 'symbol', 'decimals', 'logoURI', 'tags', 'extensions'])
+
+/**
+ * Whether a list is one of the defaults every user gets; those can be disabled but not removed
+ */
+export function isDefaultTokenList(id: string): boolean {
+  return DEFAULT_TOKEN_LIST_URLS.includes(id)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isUint(value: unknown, max = Number.MAX_SAFE_INTEGER): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max
+}
+
+function isUri(value: unknown): boolean {
+  if (typeof value !== 'string') return false
+  try {
+    new URL(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function validateToken(token: unknown, path: string): string[] {
+  if (!isObject(token)) return [`${path} must be an object`]
+  const errors = Object.keys(token).filter(key => !TOKEN_KEYS.has(key)).map(key => `${path}.${key} is not allowed`)
+  if (!isUint(token.chainId) || token.chainId < 1) errors.push(`${path}.chainId must be a positive integer`)
+  if (typeof token.address !== 'string' || !ADDRESS_PATTERN.test(token.address)) errors.push(`${path}.address must be a 0x-prefixed 20-byte hex address`)
+  if (typeof token.name !== 'string' || !TOKEN_NAME_PATTERN.test(token.name)) errors.push(`${path}.name must be at most 60 letters, digits and punctuation`)
+  if (typeof token.symbol !== 'string' || !TOKEN_SYMBOL_PATTERN.test(token.symbol)) errors.push(`${path}.symbol must be at most 20 characters without spaces`)
+  if (!isUint(token.decimals, 255)) errors.push(`${path}.decimals must be an integer from 0 to 255`)
+  if (token.logoURI !== undefined && !isUri(token.logoURI)) errors.push(`${path}.logoURI must be a URI`)
+  if (token.tags !== undefined && (!Array.isArray(token.tags) || token.tags.length > MAX_TOKEN_TAGS || !token.tags.every(tag => typeof tag === 'string'))) {
+    errors.push(`${path}.tags must be at most ${MAX_TOKEN_TAGS} strings`)
+  }
+  if (token.extensions !== undefined && !isObject(token.extensions)) errors.push(`${path}.extensions must be an object`)
+  return errors
+}
+
+/**
+ * Check a parsed JSON value against the token list schema
+ * @returns One message per violation; empty if the list is valid
+ */
+export function validateTokenList(value: unknown): string[] {
+  if (!isObject(value)) return ['The token list must be a JSON object']
+  const errors = Object.keys(value).filter(key => !LIST_KEYS.has(key)).map(key => `${key} is not allowed`)
+
+  if (typeof value.name !== 'string' || !LIST_NAME_PATTERN.test(value.name)) errors.push('name must be 1 to 30 letters, digits or spaces')
+  if (typeof value.timestamp !== 'string' || isNaN(Date.parse(value.timestamp))) errors.push('timestamp must be an ISO 8601 date-time')
+  const version = value.version
+  if (!isObject(version) || !isUint(version.major) || !isUint(version.minor) || !isUint(version.patch)) {
+    errors.push('version must have non-negative integer major, minor and patch')
+  }
+  if (value.logoURI !== undefined && !isUri(value.logoURI)) errors.push('logoURI must be a URI')
+  if (value.keywords !== undefined && (!Array.isArray(value.keywords) || value.keywords.length > MAX_KEYWORDS || !value.keywords.every(k => typeof k === 'string' && LIST_NAME_PATTERN.test(k)))) {
+    errors.push(`keywords must be at most ${MAX_KEYWORDS} short strings`)
+  }
+  if (value.tags !== undefined && !isObject(value.tags)) errors.push('tags must be an object')
+
+  if (!Array.isArray(value.tokens) || value.tokens.length === 0 || value.tokens.length > MAX_TOKENS) {
+    errors.push(`tokens must be a list of 1 to ${MAX_TOKENS} tokens`)
+  } else {
+    value.tokens.forEach((token, i) => errors.push(...validateToken(token, `tokens[${i}]`)))
+  }
+  return errors
+}
+
+/**
+ * @throws Error listing the first schema violations if the value isn't a valid token list
+ */
+export function parseTokenList(value: unknown): TokenList {
+  const errors = validateTokenList(value)
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''
+    throw new Error(`Invalid token list: ${errors.slice(0, 3).join('; ')}${more}`)
+  }
+  return value as TokenList
+}
+
+/**
+ * Download and validate a token list from an http(s) URL
+ */
+export async function fetchTokenList(url: string): Promise<TokenList> {
+  let protocol: string
+  try {
+    protocol = new URL(url).protocol
+  } catch {
+    throw new Error(`"${url}" is not a valid URL`)
+  }
+  if (protocol !== 'https:' && protocol !== 'http:') throw new Error('Only http(s) token list URLs are supported')
+
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Failed to fetch token list: HTTP ${response.status}`)
+  let json: unknown
+  try {
+    json = await response.json()
+  } catch {
+    throw new Error('The token list is not valid JSON')
+  }
+  return parseTokenList(json)
+}
+
+/**
+ * Read and validate a token list from a local file
+ */
+export async function readTokenListFile(file: File): Promise<TokenList> {
+  let json: unknown
+  try {
+    json = JSON.parse(await file.text())
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`)
+  }
+  return parseTokenList(json)
+}
+
+export function formatTokenListVersion(version: TokenListVersion): string {
+  return `v${version.major}.${version.minor}.${version.patch}`
+}
+
+/**
+ * @returns Negative if a is older than b, positive if newer, 0 if equal
+ */
+export function compareTokenListVersions(a: TokenListVersion, b: TokenListVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch
+}
+
+const tokenKey = (token: TokenListToken) => `${token.chainId}:${token.address.toLowerCase()}`
+
+const DIFF_FIELDS: (keyof TokenListToken)[] = ['name', 'symbol', 'decimals', 'logoURI']
+
+/**
+ * Tokens added, removed and changed between two versions of a list, across all chains
+ */
+export function diffTokenLists(base: TokenList, update: TokenList): TokenListDiff {
+  const before = new Map(base.tokens.map(token => [tokenKey(token), token]))
+  const after = new Map(update.tokens.map(token => [tokenKey(token), token]))
+
+  const diff: TokenListDiff = { added: [], removed: [], changed: [] }
+  after.forEach((token, key) => {
+    const previous = before.get(key)
+    if (!previous) {
+      diff.added.push(token)
+      return
+    }
+    const fields = DIFF_FIELDS.filter(field => previous[field] !== token[field])
+    if (fields.length > 0) diff.changed.push({ token, fields })
+  })
+  before.forEach((token, key) => {
+    if (!after.has(key)) diff.removed.push(token)
+  })
+  return diff
+}
+
+export function loadTokenListSources(): TokenListSource[] {
+  if (typeof window === 'undefined') return []
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as TokenListSource[]
+  } catch {
+    return []
+  }
+}
+
+export function saveTokenListSources(sources: TokenListSource[]) {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sources))
+  } catch {
+    // Storage full or unavailable; lists are fetched again on the next load
+  }
+}
+
+/**
+ * Add a list, or replace the one with the same id
+ */
+export function addTokenListSource(sources: TokenListSource[], id: string, list: TokenList): TokenListSource[] {
+  const source: TokenListSource = { id, enabled: true, list, fetchedAt: Date.now() }
+  const index = sources.findIndex(s => s.id === id)
+  return index === -1 ? [...sources, source] : sources.map((s, i) => (i === index ? source : s))
+}
+
+/**
+ * Apply a newer version of a source's list, remembering what changed
+ */
+function applyUpdate(source: TokenListSource, update: TokenList): TokenListSource {
+  return {
+    ...source,
+    list: update,
+    pending: undefined,
+    lastUpdate: { from: source.list.version, diff: diffTokenLists(source.list, update) },
+  }
+}
+
+/**
+ * Fetch a URL list again. Patch and minor updates are applied right away;
+ * a major update can remove tokens, so it waits in `pending` until accepted.
+ * Failures are recorded on the source instead of thrown.
+ */
+export async function refreshTokenListSource(source: TokenListSource): Promise<TokenListSource> {
+  if (source.id.startsWith('file:')) return source
+  try {
+    const update = await fetchTokenList(source.id)
+    const refreshed = { ...source, fetchedAt: Date.now(), error: undefined }
+    if (compareTokenListVersions(update.version, source.list.version) <= 0) return refreshed
+    return update.version.major > source.list.version.major
+      ? { ...refreshed, pending: update }
+      : applyUpdate(refreshed, update)
+  } catch (error) {
+    return { ...source, fetchedAt: Date.now(), error: error instanceof Error ? error.message : 'Failed to refresh list' }
+  }
+}
+
+export function acceptTokenListUpdate(source: TokenListSource): TokenListSource {
+  return source.pending ? applyUpdate(source, source.pending) : source
+}
+
+/**
+ * Add the default lists the user doesn't have yet and refresh URL lists
+ * older than an hour. Default lists that fail to load are left out until
+ * the next sync.
+ */
+export async function syncTokenListSources(sources: TokenListSource[]): Promise<TokenListSource[]> {
+  const missing = DEFAULT_TOKEN_LIST_URLS.filter(url => !sources.some(s => s.id === url))
+  const added = await Promise.all(missing.map(async url => {
+    try {
+      return { id: url, enabled: true, list: await fetchTokenList(url), fetchedAt: Date.now() } as TokenListSource
+    } catch (error) {
+      console.error(`Failed to load token list ${url}:`, error)
+      return null
+    }
+  }))
+
+  const now = Date.now()
+  const refreshed = await Promise.all(sources.map(source =>
+    now - source.fetchedAt > TOKEN_LIST_TTL ? refreshTokenListSource(source) : source
+  ))
+  return [...refreshed, ...added.filter((s): s is TokenListSource => s !== null)]
+}
+
+/**
+ * Merge the tokens of all enabled lists on one chain. A token on several
+ * lists takes its details from the first and names every list it came from.
+ */
+export function getListedTokens(sources: TokenListSource[], chainId: number): ListedToken[] {
+  const merged = new Map<string, ListedToken>()
+  sources.filter(source => source.enabled).forEach(source => {
+    source.list.tokens.forEach(token => {
+      if (token.chainId !== chainId) return
+      const key = token.address.toLowerCase()
+      const existing = merged.get(key)
+      if (existing) {
+        if (!existing.lists.includes(source.list.name)) existing.lists.push(source.list.name)
+        return
+      }
+      merged.set(key, {
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        // Only web URLs render in an <img>; ipfs:// and similar are dropped
+        logoURI: token.logoURI && /^https?:\/\//.test(token.logoURI) ? token.logoURI : undefined,
+        lists: [source.list.name],
+      })
+    })
+  })
+  return Array.from(merged.values())
+}
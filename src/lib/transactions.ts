@@ -0,0 +1,144 @@
+import {
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type ReplacementReason,
+} from 'viem'
+import { getErrorMessage } from './errors'
+
+export type TxStatus = 'pending' | 'confirmed' | 'reverted' | 'replaced' | 'dropped'
+
+/**
+ * Sender and nonce of a submitted transaction, kept so a replacement can be
+ * detected after the original disappears from the node
+ */
+export interface TxSender {
+  from: Address
+  nonce: number
+}
+
+export interface TxOutcome {
+  status: Exclude<TxStatus, 'pending'>
+  minedHash?: Hash // Set when a replacement was mined instead of the original
+  replacement?: ReplacementReason // 'repriced' (sped up), 'cancelled' or 'replaced'
+  reason?: string // Revert reason for reverted transactions
+}
+
+// How long to poll for a receipt before re-checking whether the tx still exists
+const RECEIPT_TIMEOUT = 10 * 60 * 1000 // 10 minutes
+
+/**
+ * Look up who sent a transaction and with which nonce
+ * @returns null if the node doesn't know the transaction (yet)
+ */
+export async function getTxSender(publicClient: PublicClient, hash: Hash): Promise<TxSender | null> {
+  try {
+    const tx = await publicClient.getTransaction({ hash })
+    return { from: tx.from, nonce: tx.nonce }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Replay a reverted transaction against the state before its block to recover
+ * the revert reason
+ */
+export async function getRevertReason(publicClient: PublicClient, hash: Hash, blockNumber: bigint): Promise<string> {
+  try {
+    const tx = await publicClient.getTransaction({ hash })
+    await publicClient.call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.input,
+      value: tx.value,
+      gas: tx.gas,
+      blockNumber: blockNumber > BigInt(0) ? blockNumber - BigInt(1) : blockNumber,
+    })
+    // The replay succeeded, so the revert depended on earlier txs in the same block
+    return 'Transaction reverted'
+  } catch (error) {
+    return getErrorMessage(error, 'Transaction reverted')
+  }
+}
+
+/**
+ * Wait until a transaction is mined, replaced or dropped.
+ * A replacement mined while nobody was polling (e.g. before a page reload) is
+ * caught by comparing the sender's nonce with the account's transaction count.
+ * @returns null if the transaction is still pending when polling times out
+ */
+export async function waitForTxOutcome(
+  publicClient: PublicClient,
+  hash: Hash,
+  sender?: TxSender | null
+): Promise<TxOutcome | null> {
+  // Already resolved, e.g. when resuming after a reload
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash })
+    return receipt.status === 'success'
+      ? { status: 'confirmed' }
+      : { status: 'reverted', reason: await getRevertReason(publicClient, hash, receipt.blockNumber) }
+  } catch (error) {
+    if (!(error instanceof TransactionReceiptNotFoundError)) throw error
+  }
+  if (sender && await isReplaced(publicClient, hash, sender)) {
+    return { status: 'replaced', replacement: 'replaced' }
+  }
+
+  let replacement: ReplacementReason | undefined
+  try {
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash,
+      timeout: RECEIPT_TIMEOUT,
+      onReplaced: (replaced) => {
+        replacement = replaced.reason
+      },
+    })
+    const minedHash = receipt.transactionHash !== hash ? receipt.transactionHash : undefined
+
+    // A sped-up transaction still does what the user asked for
+    if (replacement && replacement !== 'repriced') {
+      return { status: 'replaced', replacement, minedHash }
+    }
+    return receipt.status === 'success'
+      ? { status: 'confirmed', replacement, minedHash }
+      : {
+          status: 'reverted',
+          replacement,
+          minedHash,
+          reason: await getRevertReason(publicClient, receipt.transactionHash, receipt.blockNumber),
+        }
+  } catch (error) {
+    if (!(error instanceof WaitForTransactionReceiptTimeoutError)) throw error
+
+    if (sender && await isReplaced(publicClient, hash, sender)) {
+      return { status: 'replaced', replacement: 'replaced' }
+    }
+    try {
+      await publicClient.getTransaction({ hash })
+      return null
+    } catch (lookupError) {
+      if (lookupError instanceof TransactionNotFoundError) return { status: 'dropped' }
+      throw lookupError
+    }
+  }
+}
+
+/**
+ * Whether the sender's nonce was consumed by some other transaction
+ */
+async function isReplaced(publicClient: PublicClient, hash: Hash, sender: TxSender): Promise<boolean> {
+  const count = await publicClient.getTransactionCount({ address: sender.from, blockTag: 'latest' })
+  if (count <= sender.nonce) return false
+  // The nonce may have been used by this very transaction since the last check
+  try {
+    await publicClient.getTransactionReceipt({ hash })
+    return false
+  } catch {
+    return true
+  }
+}
@@ -0,0 +1,225 @@
+import {
+  fallback,
+  http,
+  stringify,
+  BaseError,
+  HttpRequestError,
+  InternalRpcError,
+  LimitExceededRpcError,
+  TimeoutError,
+  type EIP1193RequestFn,
+  type Transport,
+} from 'viem'
+
+export interface RpcTransportOptions {
+  timeout?: number // Per request, in ms
+  retryCount?: number // Retries across the whole endpoint list after the first attempt
+  retryDelay?: number // Base backoff in ms, doubled on each retry; a rate limit's Retry-After takes precedence
+  maxConcurrent?: number // Requests in flight per endpoint; the rest wait their turn
+  healthCheckInterval?: number // ms between eth_blockNumber pings that demote failing endpoints; 0 disables
+}
+
+export interface RpcEndpointMetrics {
+  url: string
+  requests: number
+  successes: number
+  failures: number // Timeouts, HTTP errors and rate limits, not reverts
+  rateLimited: number
+  inFlight: number
+  averageLatency: number // ms, over successful requests
+  lastError?: string
+  lastFailureAt?: number // Unix ms
+}
+
+const DEFAULT_OPTIONS: Required<RpcTransportOptions> = {
+  timeout: 10000,
+  retryCount: 3,
+  retryDelay: 250,
+  maxConcurrent: 8,
+  healthCheckInterval: 30000,
+}
+
+// Reads whose result can be shared by identical requests in flight at the same time
+const DEDUPED_METHODS = new Set([
+  'eth_blockNumber',
+  'eth_call',
+  'eth_chainId',
+  'eth_estimateGas',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByNumber',
+  'eth_getCode',
+  'eth_getLogs',
+  'eth_getTransactionByHash',
+  'eth_getTransactionReceipt',
+])
+
+// Lookups that return null until the node has seen the tx. A null from a request that
+// was already in flight may predate the tx, so callers that joined it ask again.
+const NULL_UNTIL_KNOWN_METHODS = new Set(['eth_getTransactionByHash', 'eth_getTransactionReceipt'])
+
+// Longest Retry-After we wait out; beyond it the rate limit error is returned to the caller
+const MAX_RETRY_AFTER = 30000
+
+// Per endpoint URL, shared by every client using it
+const endpointMetrics = new Map<string, RpcEndpointMetrics>()
+const endpointLimiters = new Map<string, <T>(task: () => Promise<T>) => Promise<T>>()
+
+/**
+ * Latency and failure counts for every RPC endpoint used so far
+ */
+export function getRpcMetrics(): RpcEndpointMetrics[] {
+  return Array.from(endpointMetrics.values(), metrics => ({ ...metrics }))
+}
+
+function getEndpointMetrics(url: string): RpcEndpointMetrics {
+  let metrics = endpointMetrics.get(url)
+  if (!metrics) {
+    metrics = { url, requests: 0, successes: 0, failures: 0, rateLimited: 0, inFlight: 0, averageLatency: 0 }
+    endpointMetrics.set(url, metrics)
+  }
+  return metrics
+}
+
+/**
+ * Run at most `max` tasks at once; a finishing task hands its slot to the next in line
+ */
+function createLimiter(max: number) {
+  let active = 0
+  const waiting: (() => void)[] = []
+  return async function limit<T>(task: () => Promise<T>): Promise<T> {
+    if (active < max) active++
+    else await new Promise<void>(resolve => waiting.push(resolve))
+    try {
+      return await task()
+    } finally {
+      const next = waiting.shift()
+      if (next) next()
+      else active--
+    }
+  }
+}
+
+function isRateLimited(error: unknown): boolean {
+  return (error instanceof HttpRequestError && error.status === 429) || error instanceof LimitExceededRpcError
+}
+
+/**
+ * Delay in ms asked for by a rate-limited response's Retry-After header, in seconds or as a date
+ */
+function getRetryAfter(error: unknown): number | undefined {
+  const httpError = error instanceof BaseError ? error.walk(e => e instanceof HttpRequestError) : null
+  const header = httpError instanceof HttpRequestError ? httpError.headers?.get('Retry-After') : null
+  if (!header) return undefined
+  const delay = /^\d+$/.test(header.trim()) ? Number(header) * 1000 : Date.parse(header) - Date.now()
+  return Number.isNaN(delay) ? undefined : Math.max(0, delay)
+}
+
+// Errors that say something about the endpoint rather than the request, e.g. not a revert
+function isEndpointFailure(error: unknown): boolean {
+  return (
+    error instanceof HttpRequestError ||
+    error instanceof TimeoutError ||
+    error instanceof InternalRpcError ||
+    isRateLimited(error)
+  )
+}
+
+/**
+ * One RPC endpoint over HTTP, with a concurrency limit and metrics
+ */
+function endpointTransport(url: string, timeout: number, maxConcurrent: number): Transport {
+  const base = http(url, { timeout })
+  const metrics = getEndpointMetrics(url)
+  let limit = endpointLimiters.get(url)
+  if (!limit) {
+    limit = createLimiter(maxConcurrent)
+    endpointLimiters.set(url, limit)
+  }
+  const run = limit
+
+  return params => {
+    const transport = base(params)
+    const request = (args => run(async () => {
+      const start = Date.now()
+      metrics.requests++
+      metrics.inFlight++
+      try {
+        const result = await transport.request(args)
+        metrics.successes++
+        metrics.averageLatency += (Date.now() - start - metrics.averageLatency) / metrics.successes
+        return result
+      } catch (error) {
+        if (isEndpointFailure(error)) {
+          metrics.failures++
+          if (isRateLimited(error)) metrics.rateLimited++
+          metrics.lastError = error instanceof Error ? error.message.split('\n')[0] : String(error)
+          metrics.lastFailureAt = Date.now()
+        }
+        throw error
+      } finally {
+        metrics.inFlight--
+      }
+    })) as EIP1193RequestFn
+    return { ...transport, request }
+  }
+}
+
+/**
+ * Transport over an ordered list of RPC endpoints. Requests go to the first
+ * healthy endpoint and move down the list when one fails; failed requests
+ * are retried with exponential backoff, or after the Retry-After a rate
+ * limited endpoint asks for, identical reads in flight share one request,
+ * and each endpoint caps how many requests it has open.
+ */
+export function createRpcTransport(urls: readonly string[], options: RpcTransportOptions = {}): Transport {
+  if (urls.length === 0) throw new Error('At least one RPC URL is required')
+  const { timeout, retryCount, retryDelay, maxConcurrent, healthCheckInterval } = { ...DEFAULT_OPTIONS, ...options }
+
+  // Retries happen below, where the failing endpoint's Retry-After is still at hand
+  const base = fallback(urls.map(url => endpointTransport(url, timeout, maxConcurrent)), {
+    retryCount: 0,
+    // Stability only, so healthy endpoints keep their configured order
+    rank: healthCheckInterval > 0 && urls.length > 1
+      ? {
+          interval: healthCheckInterval,
+          timeout,
+          ping: ({ transport }) => transport.request({ method: 'eth_blockNumber' }),
+          weights: { latency: 0, stability: 1 },
+        }
+      : false,
+  })
+  const inFlight = new Map<string, Promise<unknown>>()
+
+  return params => {
+    const transport = base(params)
+
+    const requestWithRetry = async (args: Parameters<EIP1193RequestFn>[0]): Promise<unknown> => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await transport.request(args)
+        } catch (error) {
+          if (attempt >= retryCount || !isEndpointFailure(error)) throw error
+          const retryAfter = isRateLimited(error) ? getRetryAfter(error) : undefined
+          if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER) throw error
+          await new Promise(resolve => setTimeout(resolve, retryAfter ?? retryDelay * 2 ** attempt))
+        }
+      }
+    }
+
+    const request = (args => {
+      if (!DEDUPED_METHODS.has(args.method)) return requestWithRetry(args)
+      const key = stringify([args.method, args.params])
+      const pending = inFlight.get(key)
+      if (pending) {
+        return NULL_UNTIL_KNOWN_METHODS.has(args.method)
+          ? pending.then(result => result ?? requestWithRetry(args))
+          : pending
+      }
+      const started = requestWithRetry(args).finally(() => inFlight.delete(key))
+      inFlight.set(key, started)
+      return started
+    }) as EIP1193RequestFn
+    return { ...transport, request }
+  }
+}
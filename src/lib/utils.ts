@@ -36,6 +36,20 @@ export function formatBalance(balance: string | number, decimals: number = 4): s
   }).format(num)
 }
 
+/**
+ * Format a USD amount for display, e.g. "$1,234.56"
+ */
+export function formatUsd(value?: string): string {
+  if (value === undefined) return '-'
+  const num = Number(value)
+  if (!isFinite(num) || num === 0) return '$0'
+  if (num < 0.01) return '< $0.01'
+  return `$${new Intl.NumberFormat('en-US', {
+    notation: num >= 1e9 ? 'compact' : 'standard',
+    maximumFractionDigits: 2,
+  }).format(num)}`
+}
+
 export function formatPriceImpact(priceImpact: number): string {
   if (priceImpact < 0.01) return '< 0.01%'
   return `${priceImpact.toFixed(2)}%`
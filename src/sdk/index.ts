@@ -0,0 +1,38 @@
+export * from '../config/chains'
+export * from '../config/networks'
+export * from '../config/tokens'
+
+export * from '../types/activity'
+export * from '../types/pool'
+export * from '../types/position'
+export * from '../types/tokenList'
+
+export * from '../lib/approvals'
+export * from '../lib/blocks'
+export * from '../lib/configValidation'
+export * from '../lib/contracts'
+export * from '../lib/errors'
+export * from '../lib/gas'
+export * from '../lib/liquidity'
+export * from '../lib/multicall'
+export * from '../lib/network'
+export * from '../lib/permit'
+export * from '../lib/permit2'
+export * from '../lib/poolDiscovery'
+export * from '../lib/poolStats'
+export * from '../lib/positionAnalysis'
+export * from '../lib/positionFees'
+export * from '../lib/routing'
+export * from '../lib/simulation'
+export * from '../lib/swap'
+export * from '../lib/tickData'
+export * from '../lib/tickMath'
+export * from '../lib/tokenLists'
+export * from '../lib/transactions'
+export * from '../lib/transport'
+export * from '../lib/utils'
+
+export * from '../services/activityService'
+export * from '../services/poolService'
+export * from '../services/positionService'
+export * from '../services/priceHistoryService'
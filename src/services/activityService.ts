@@ -0,0 +1,338 @@
+import { getAbiItem, type Address, type Hash, type PublicClient } from 'viem'
+import { NONFUNGIBLE_POSITION_MANAGER_ABI, POOL_ABI } from '../lib/contracts'
+import { LOG_BLOCK_RANGE, getFactoryDeployBlock, syncPoolRegistry } from '../lib/poolDiscovery'
+import { getClientNetwork } from '../lib/network'
+import { type NetworkConfig } from '../config/networks'
+import { batchReadContracts } from '../lib/multicall'
+import { ActivityItem, ActivityType } from '../types/activity'
+
+const STORAGE_PREFIX = 'activity:'
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+
+const SWAP_EVENT = getAbiItem({ abi: POOL_ABI, name: 'Swap' })
+const TRANSFER_EVENT = getAbiItem({ abi: NONFUNGIBLE_POSITION_MANAGER_ABI, name: 'Transfer' })
+const INCREASE_EVENT = getAbiItem({ abi: NONFUNGIBLE_POSITION_MANAGER_ABI, name: 'IncreaseLiquidity' })
+const DECREASE_EVENT = getAbiItem({ abi: NONFUNGIBLE_POSITION_MANAGER_ABI, name: 'DecreaseLiquidity' })
+const COLLECT_EVENT = getAbiItem({ abi: NONFUNGIBLE_POSITION_MANAGER_ABI, name: 'Collect' })
+
+/**
+ * Reconstructed activity for one wallet, persisted so later loads only scan new blocks
+ */
+interface ActivityHistory {
+  factory: string
+  lastScannedBlock: string // bigint serialized for localStorage
+  ownedTokenIds: string[] // Positions the wallet held at lastScannedBlock
+  positionTokens: Record<string, [string, string]> // tokenId -> [token0, token1]
+  items: ActivityItem[] // Newest first
+}
+
+interface EventLog {
+  transactionHash: Hash
+  blockNumber: bigint
+  logIndex: number
+}
+
+// Shared across callers so a remount doesn't start a second scan
+const syncInFlight = new Map<string, Promise<ActivityItem[]>>()
+
+function storageKey(network: NetworkConfig, owner: string): string {
+  return `${STORAGE_PREFIX}${network.chain.id}:${owner.toLowerCase()}`
+}
+
+function emptyHistory(network: NetworkConfig): ActivityHistory {
+  return {
+    factory: network.contracts.FACTORY.toLowerCase(),
+    lastScannedBlock: (getFactoryDeployBlock(network) - BigInt(1)).toString(),
+    ownedTokenIds: [],
+    positionTokens: {},
+    items: [],
+  }
+}
+
+/**
+ * Load persisted activity, discarding it if the factory address changed
+ */
+function loadHistory(network: NetworkConfig, owner: string): ActivityHistory {
+  if (typeof window === 'undefined') return emptyHistory(network)
+  try {
+    const raw = localStorage.getItem(storageKey(network, owner))
+    if (!raw) return emptyHistory(network)
+    const parsed = JSON.parse(raw) as ActivityHistory
+    if (parsed.factory !== network.contracts.FACTORY.toLowerCase()) return emptyHistory(network)
+    return parsed
+  } catch {
+    return emptyHistory(network)
+  }
+}
+
+function saveHistory(network: NetworkConfig, owner: string, history: ActivityHistory) {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(storageKey(network, owner), JSON.stringify(history))
+  } catch {
+    // Storage full or unavailable; the next load simply rescans
+  }
+}
+
+function byChainOrder(a: EventLog, b: EventLog): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1
+  return a.logIndex - b.logIndex
+}
+
+export class ActivityService {
+  constructor(private publicClient: PublicClient) {}
+
+  /**
+   * Activity already stored for a wallet, without touching the chain
+   */
+  getCachedActivity(owner: string): ActivityItem[] {
+    return loadHistory(getClientNetwork(this.publicClient), owner).items
+  }
+
+  /**
+   * Bring a wallet's activity up to date with swap, position manager and
+   * transfer events, on the network the client is connected to
+   * @param onProgress Called with the full list after each scanned block range
+   * @returns Every action found for the wallet, newest first
+   */
+  async getActivity(owner: string, onProgress?: (items: ActivityItem[]) => void): Promise<ActivityItem[]> {
+    const network = getClientNetwork(this.publicClient)
+    const key = storageKey(network, owner)
+    let inFlight = syncInFlight.get(key)
+    if (!inFlight) {
+      inFlight = this.scanActivity(network, owner as Address, onProgress).finally(() => syncInFlight.delete(key))
+      syncInFlight.set(key, inFlight)
+    }
+
+    try {
+      return await inFlight
+    } catch (error) {
+      console.error('Error loading wallet activity:', error)
+      throw new Error(`Failed to load activity: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  private async scanActivity(
+    network: NetworkConfig,
+    owner: Address,
+    onProgress?: (items: ActivityItem[]) => void
+  ): Promise<ActivityItem[]> {
+    const registry = await syncPoolRegistry(this.publicClient)
+    const poolTokens = new Map(
+      registry.pools.map(p => [p.address.toLowerCase(), [p.token0, p.token1] as [string, string]])
+    )
+    const poolAddresses = registry.pools.map(p => p.address)
+
+    const history = loadHistory(network, owner)
+    const latestBlock = await this.publicClient.getBlockNumber()
+    let fromBlock = BigInt(history.lastScannedBlock) + BigInt(1)
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = fromBlock + LOG_BLOCK_RANGE - BigInt(1) < latestBlock
+        ? fromBlock + LOG_BLOCK_RANGE - BigInt(1)
+        : latestBlock
+      const range = { fromBlock, toBlock }
+      const npm = network.contracts.NONFUNGIBLE_POSITION_MANAGER as Address
+
+      const [received, sent] = await Promise.all([
+        this.publicClient.getLogs({ address: npm, event: TRANSFER_EVENT, args: { to: owner }, ...range }),
+        this.publicClient.getLogs({ address: npm, event: TRANSFER_EVENT, args: { from: owner }, ...range }),
+      ])
+
+      // Liquidity events for every position held at some point in this range
+      const tokenIds = new Set(history.ownedTokenIds)
+      received.forEach(log => log.args.tokenId !== undefined && tokenIds.add(log.args.tokenId.toString()))
+      const tokenIdArgs = Array.from(tokenIds).map(id => BigInt(id))
+
+      const [increases, decreases, collects, swapsToOwner] = await Promise.all([
+        tokenIdArgs.length > 0
+          ? this.publicClient.getLogs({ address: npm, event: INCREASE_EVENT, args: { tokenId: tokenIdArgs }, ...range })
+          : [],
+        tokenIdArgs.length > 0
+          ? this.publicClient.getLogs({ address: npm, event: DECREASE_EVENT, args: { tokenId: tokenIdArgs }, ...range })
+          : [],
+        tokenIdArgs.length > 0
+          ? this.publicClient.getLogs({ address: npm, event: COLLECT_EVENT, args: { tokenId: tokenIdArgs }, ...range })
+          : [],
+        poolAddresses.length > 0
+          ? this.publicClient.getLogs({ address: poolAddresses, event: SWAP_EVENT, args: { recipient: owner }, ...range })
+          : [],
+      ])
+
+      // Earlier hops of a multi-hop route pay the router rather than the wallet
+      const swapTxs = new Set(swapsToOwner.map(log => log.transactionHash))
+      const routerHops = swapTxs.size > 0
+        ? (await this.publicClient.getLogs({
+            address: poolAddresses,
+            event: SWAP_EVENT,
+            args: { recipient: network.contracts.SWAP_ROUTER as Address },
+            ...range,
+          })).filter(log => swapTxs.has(log.transactionHash))
+        : []
+
+      const mintTransfers = received.filter(log => log.args.from?.toLowerCase() === ZERO_ADDRESS)
+      await this.resolvePositionTokens(network, history, tokenIds, mintTransfers, poolTokens)
+
+      const items: Omit<ActivityItem, 'timestamp'>[] = []
+      const tokensOf = (tokenId: string) => history.positionTokens[tokenId] ?? null
+      const mintKeys = new Set(mintTransfers.map(log => `${log.transactionHash}-${log.args.tokenId}`))
+
+      const pushPositionEvent = (
+        type: ActivityType,
+        log: EventLog & { args: { tokenId?: bigint; amount0?: bigint; amount1?: bigint } }
+      ) => {
+        if (log.args.tokenId === undefined) return
+        const tokenId = log.args.tokenId.toString()
+        items.push({
+          id: `${log.transactionHash}-${log.logIndex}`,
+          type,
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber.toString(),
+          logIndex: log.logIndex,
+          tokenId,
+          tokens: tokensOf(tokenId),
+          amounts: [(log.args.amount0 ?? BigInt(0)).toString(), (log.args.amount1 ?? BigInt(0)).toString()],
+        })
+      }
+
+      increases.forEach(log =>
+        pushPositionEvent(mintKeys.has(`${log.transactionHash}-${log.args.tokenId}`) ? 'mint' : 'increase', log)
+      )
+      decreases.forEach(log => pushPositionEvent('decrease', log))
+      collects.forEach(log => pushPositionEvent('collect', log))
+      sent
+        .filter(log => log.args.to?.toLowerCase() === ZERO_ADDRESS)
+        .forEach(log => pushPositionEvent('burn', { ...log, args: { tokenId: log.args.tokenId } }))
+
+      items.push(...this.buildSwapItems([...swapsToOwner, ...routerHops], poolTokens))
+
+      // Track which positions the wallet still holds going into the next range
+      for (const log of [...received, ...sent].sort(byChainOrder)) {
+        if (log.args.tokenId === undefined) continue
+        const tokenId = log.args.tokenId.toString()
+        if (log.args.to?.toLowerCase() === owner.toLowerCase()) tokenIds.add(tokenId)
+        else tokenIds.delete(tokenId)
+      }
+      history.ownedTokenIds = Array.from(tokenIds)
+
+      const timestamps = await this.getBlockTimestamps(items.map(item => BigInt(item.blockNumber)))
+      const dated = items.map(item => ({ ...item, timestamp: timestamps.get(item.blockNumber) ?? 0 }))
+
+      history.items = [...dated, ...history.items].sort((a, b) => {
+        const blockA = BigInt(a.blockNumber)
+        const blockB = BigInt(b.blockNumber)
+        if (blockA !== blockB) return blockA > blockB ? -1 : 1
+        return b.logIndex - a.logIndex
+      })
+      history.lastScannedBlock = toBlock.toString()
+
+      // Persist after every range so an interrupted scan resumes where it stopped
+      saveHistory(network, owner, history)
+      onProgress?.(history.items)
+
+      fromBlock = toBlock + BigInt(1)
+    }
+
+    return history.items
+  }
+
+  /**
+   * Collapse each transaction's Swap logs into one swap. Summing every hop from
+   * the pools' point of view cancels intermediate tokens, leaving the token paid
+   * in (positive) and the token paid out (negative).
+   */
+  private buildSwapItems(
+    logs: Array<EventLog & { address: Address; args: { amount0?: bigint; amount1?: bigint; recipient?: Address } }>,
+    poolTokens: Map<string, [string, string]>
+  ): Omit<ActivityItem, 'timestamp'>[] {
+    const byTx = new Map<string, typeof logs>()
+    for (const log of logs) {
+      byTx.set(log.transactionHash, [...(byTx.get(log.transactionHash) ?? []), log])
+    }
+
+    const items: Omit<ActivityItem, 'timestamp'>[] = []
+    for (const [txHash, txLogs] of byTx) {
+      const net = new Map<string, bigint>()
+      for (const log of txLogs) {
+        const tokens = poolTokens.get(log.address.toLowerCase())
+        if (!tokens || log.args.amount0 === undefined || log.args.amount1 === undefined) continue
+        net.set(tokens[0], (net.get(tokens[0]) ?? BigInt(0)) + log.args.amount0)
+        net.set(tokens[1], (net.get(tokens[1]) ?? BigInt(0)) + log.args.amount1)
+      }
+
+      let tokenIn: [string, bigint] | null = null
+      let tokenOut: [string, bigint] | null = null
+      for (const [token, amount] of net) {
+        if (amount > BigInt(0) && (!tokenIn || amount > tokenIn[1])) tokenIn = [token, amount]
+        if (amount < BigInt(0) && (!tokenOut || amount < tokenOut[1])) tokenOut = [token, amount]
+      }
+
+      const last = txLogs.sort(byChainOrder)[txLogs.length - 1]
+      items.push({
+        id: `${txHash}-${last.logIndex}`,
+        type: 'swap',
+        txHash,
+        blockNumber: last.blockNumber.toString(),
+        logIndex: last.logIndex,
+        tokens: tokenIn && tokenOut ? [tokenIn[0], tokenOut[0]] : null,
+        amounts: [(tokenIn?.[1] ?? BigInt(0)).toString(), (-(tokenOut?.[1] ?? BigInt(0))).toString()],
+      })
+    }
+    return items
+  }
+
+  /**
+   * Record token0/token1 for positions seen for the first time. Burned positions
+   * no longer answer positions(), so fall back to the pool that emitted a log in
+   * their mint transaction.
+   */
+  private async resolvePositionTokens(
+    network: NetworkConfig,
+    history: ActivityHistory,
+    tokenIds: Set<string>,
+    mintTransfers: Array<EventLog & { args: { tokenId?: bigint } }>,
+    poolTokens: Map<string, [string, string]>
+  ) {
+    const unresolved = Array.from(tokenIds).filter(id => !history.positionTokens[id])
+    if (unresolved.length === 0) return
+
+    const results = await batchReadContracts(
+      this.publicClient,
+      unresolved.map(id => ({
+        address: network.contracts.NONFUNGIBLE_POSITION_MANAGER as Address,
+        abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+        functionName: 'positions',
+        args: [BigInt(id)],
+      }))
+    )
+
+    await Promise.all(unresolved.map(async (id, i) => {
+      const result = results[i]
+      if (result.status === 'success') {
+        const position = result.result as readonly unknown[]
+        history.positionTokens[id] = [String(position[2]), String(position[3])]
+        return
+      }
+
+      const mint = mintTransfers.find(log => log.args.tokenId?.toString() === id)
+      if (!mint) return
+      try {
+        const receipt = await this.publicClient.getTransactionReceipt({ hash: mint.transactionHash })
+        const tokens = receipt.logs
+          .map(log => poolTokens.get(log.address.toLowerCase()))
+          .find(Boolean)
+        if (tokens) history.positionTokens[id] = tokens
+      } catch (error) {
+        console.warn(`Could not resolve tokens for position ${id}:`, error)
+      }
+    }))
+  }
+
+  private async getBlockTimestamps(blockNumbers: bigint[]): Promise<Map<string, number>> {
+    const unique = Array.from(new Set(blockNumbers.map(n => n.toString())))
+    const blocks = await Promise.all(
+      unique.map(n => this.publicClient.getBlock({ blockNumber: BigInt(n) }))
+    )
+    return new Map(blocks.map((block, i) => [unique[i], Number(block.timestamp)]))
+  }
+}
@@ -1,8 +1,13 @@
-import { type Address } from 'viem'
-import { CONTRACT_ADDRESSES, FACTORY_ABI } from '@/lib/contracts'
-import { Pool, PoolDetails, CreatePoolParams } from '@/types/pool'
-import { tokens } from '@/config/tokens'
-import { getTickSpacing, sqrtPriceX96ToTick, sqrtPriceX96ToPrice, getSqrtRatioAtTick, getSqrtPriceX96 } from '@/lib/tickMath'
+import { type Address, type PublicClient, type WalletClient } from 'viem'
+import { CONTRACT_ADDRESSES, FACTORY_ABI } from '../lib/contracts'
+import { Pool, PoolDetails, CreatePoolParams } from '../types/pool'
+import { tokens } from '../config/tokens'
+import { batchReadContracts } from '../lib/multicall'
+import { syncPoolRegistry, findKnownToken, loadPoolRegistry, resolveTokenMetadata, type PoolRegistry, type PoolSyncProgress } from '../lib/poolDiscovery'
+import { getPoolsStats } from '../lib/poolStats'
+import { getTickSpacing, sqrtPriceX96ToTick, sqrtPriceX96ToPrice, getSqrtRatioAtTick, priceToSqrtPriceX96 } from '../lib/tickMath'
+import { decodeDexError } from '../lib/errors'
+import { simulateAndWrite } from '../lib/simulation'
 
 // Pool ABI for reading pool data
 const POOL_ABI = [
@@ -65,14 +70,14 @@ const POOL_ABI = [
   },
 ] as const
 
-// Simple in-memory cache for pool details (cleared on page refresh)
+// Simple in-memory cache for pool details, keyed by chain and pool key (cleared on page refresh)
 const poolDetailsCache = new Map<string, PoolDetails | null>()
 const POOL_CACHE_TTL = 30000 // 30 seconds
 
 export class PoolService {
   constructor(
-    private publicClient: any,
-    private walletClient?: any
+    private publicClient: PublicClient,
+    private walletClient?: WalletClient
   ) {}
 
   /**
@@ -85,7 +90,7 @@ export class PoolService {
   ): Promise<string> {
     try {
       const poolAddress = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESSES.FACTORY,
+        address: CONTRACT_ADDRESSES.FACTORY as Address,
         abi: FACTORY_ABI,
         functionName: 'getPool',
         args: [token0 as Address, token1 as Address, fee],
@@ -115,7 +120,7 @@ export class PoolService {
     fee: number
   ): Promise<PoolDetails | null> {
     // Check cache first
-    const cacheKey = `${token0Address.toLowerCase()}-${token1Address.toLowerCase()}-${fee}`
+    const cacheKey = `${this.publicClient.chain?.id}:${token0Address.toLowerCase()}-${token1Address.toLowerCase()}-${fee}`
     const cached = poolDetailsCache.get(cacheKey)
     if (cached !== undefined) {
       return cached
@@ -165,43 +170,8 @@ export class PoolService {
         }),
       ])
 
-      const [sqrtPriceX96, tick] = slot0 as [bigint, number, number, number, number, number, boolean]
-
-      // Find token objects
-      const token0 = Object.values(tokens).find(
-        (t) => t.address.toLowerCase() === (poolToken0 as string).toLowerCase()
-      ) || {
-        address: poolToken0 as string,
-        symbol: 'UNKNOWN',
-        name: 'Unknown Token',
-        decimals: 18,
-      }
-
-      const token1 = Object.values(tokens).find(
-        (t) => t.address.toLowerCase() === (poolToken1 as string).toLowerCase()
-      ) || {
-        address: poolToken1 as string,
-        symbol: 'UNKNOWN',
-        name: 'Unknown Token',
-        decimals: 18,
-      }
-
-      // Raw price from Uniswap is token1/token0 in smallest units
-      // Adjust for decimals to get human-readable price: price * 10^(decimals0 - decimals1)
-      const rawPrice = sqrtPriceX96ToPrice(sqrtPriceX96)
-      const currentPrice = rawPrice * Math.pow(10, token0.decimals - token1.decimals)
-
-      const poolDetails: PoolDetails = {
-        address: poolAddress,
-        token0,
-        token1,
-        fee: Number(poolFee),
-        currentTick: Number(tick),
-        currentPrice,
-        liquidity: liquidity.toString(),
-        sqrtPriceX96,
-        tickSpacing: Number(tickSpacing),
-      }
+      const registry = await this.registryWithTokens([poolToken0, poolToken1])
+      const poolDetails = this.buildPoolDetails(poolAddress, slot0, liquidity, poolToken0, poolToken1, poolFee, tickSpacing, registry)
 
       // Cache the result
       poolDetailsCache.set(cacheKey, poolDetails)
@@ -219,86 +189,189 @@ export class PoolService {
   }
 
   /**
-   * Get all pools for known token pairs
-   * In production, you'd use subgraph or events to discover all pools
+   * Get the pools available without scanning logs: those already in the persisted
+   * registry plus every configured token pair found on the factory
+   */
+  async getKnownPools(): Promise<PoolDetails[]> {
+    const registered = loadPoolRegistry().pools.map(({ token0, token1, fee, address }) => ({ token0, token1, fee, address }))
+    const pairs = await this.findPoolsForKnownTokens()
+    const seen = new Set(registered.map(pool => pool.address.toLowerCase()))
+    return this.getPoolsState([...registered, ...pairs.filter(pool => !seen.has(pool.address.toLowerCase()))])
+  }
+
+  /**
+   * Get every pool the factory has created, discovered from PoolCreated logs.
+   * Falls back to enumerating known token pairs if the logs can't be read.
+   * Pool state reads are collapsed into Multicall3 batches.
+   * @param onProgress Called after each block range the log scan covers
+   */
+  async getAllPools(onProgress?: (progress: PoolSyncProgress) => void): Promise<PoolDetails[]> {
+    let existingPools: Array<{ token0: string; token1: string; fee: number; address: string }>
+    try {
+      const registry = await syncPoolRegistry(this.publicClient, onProgress)
+      existingPools = registry.pools.map(({ token0, token1, fee, address }) => ({ token0, token1, fee, address }))
+    } catch (error) {
+      console.error('Pool discovery from logs failed, enumerating known pairs:', error)
+      existingPools = await this.findPoolsForKnownTokens()
+    }
+
+    return this.getPoolsState(existingPools)
+  }
+
+  /**
+   * Attach TVL, 24h volume, 24h fees and APR to pools. Stats are best-effort:
+   * if they can't be computed the pools are returned unchanged.
+   * @param pools Pools to attach stats to
+   * @param pricingPools Pools used to derive USD prices (defaults to every discovered pool)
+   */
+  async withStats(pools: PoolDetails[], pricingPools?: PoolDetails[]): Promise<PoolDetails[]> {
+    try {
+      const stats = await getPoolsStats(this.publicClient, pools, pricingPools ?? await this.getAllPools())
+      return pools.map(pool => ({ ...pool, ...stats.get(pool.address.toLowerCase()) }))
+    } catch (error) {
+      console.error('Error attaching pool stats:', error)
+      return pools
+    }
+  }
+
+  /**
+   * Look up every known token pair/fee combination on the factory
    */
-  async getAllPools(): Promise<PoolDetails[]> {
+  private async findPoolsForKnownTokens(): Promise<Array<{ token0: string; token1: string; fee: number; address: string }>> {
     const tokenList = Object.values(tokens)
     const fees = [100, 500, 2500, 10000]
 
-    // Step 1: Batch fetch all pool addresses first (much faster)
-    const poolAddressPromises: Array<{ i: number; j: number; fee: number; promise: Promise<string> }> = []
+    // Look up every pair/fee combination in one batch
+    const pairs: Array<{ token0: string; token1: string; fee: number }> = []
     for (let i = 0; i < tokenList.length; i++) {
       for (let j = i + 1; j < tokenList.length; j++) {
         for (const fee of fees) {
-          poolAddressPromises.push({
-            i,
-            j,
-            fee,
-            promise: this.getPoolAddress(tokenList[i].address, tokenList[j].address, fee).catch(() => '0x0000000000000000000000000000000000000000')
-          })
+          pairs.push({ token0: tokenList[i].address, token1: tokenList[j].address, fee })
         }
       }
     }
 
-    // Execute all address checks in parallel with batching
-    const BATCH_SIZE = 50 // Can handle more address checks in parallel
-    const existingPools: Array<{ token0: string; token1: string; fee: number }> = []
-    
-    for (let i = 0; i < poolAddressPromises.length; i += BATCH_SIZE) {
-      const batch = poolAddressPromises.slice(i, i + BATCH_SIZE)
-      const addresses = await Promise.all(batch.map(p => p.promise))
-      
-      addresses.forEach((address, idx) => {
-        if (address !== '0x0000000000000000000000000000000000000000') {
-          const { i, j, fee } = batch[idx]
-          existingPools.push({
-            token0: tokenList[i].address,
-            token1: tokenList[j].address,
-            fee
-          })
-        }
-      })
-      
-      // Small delay between batches
-      if (i + BATCH_SIZE < poolAddressPromises.length) {
-        await new Promise(resolve => setTimeout(resolve, 30))
+    const addressResults = await batchReadContracts(
+      this.publicClient,
+      pairs.map(({ token0, token1, fee }) => ({
+        address: CONTRACT_ADDRESSES.FACTORY as Address,
+        abi: FACTORY_ABI,
+        functionName: 'getPool',
+        args: [token0 as Address, token1 as Address, fee],
+      }))
+    )
+
+    const existingPools: Array<{ token0: string; token1: string; fee: number; address: string }> = []
+    addressResults.forEach((result, idx) => {
+      if (result.status === 'success' && result.result !== '0x0000000000000000000000000000000000000000') {
+        existingPools.push({ ...pairs[idx], address: result.result as string })
       }
-    }
+    })
+
+    return existingPools
+  }
 
-    // Step 2: Only fetch details for pools that exist (much fewer requests)
-    // IMPORTANT: Create promises lazily (as functions) to avoid flooding RPC
-    const poolDetailFunctions = existingPools.map(({ token0, token1, fee }) => 
-      () => this.getPoolDetails(token0, token1, fee).catch(() => null)
+  /**
+   * Read state for every given pool in one batch
+   */
+  private async getPoolsState(
+    existingPools: Array<{ token0: string; token1: string; fee: number; address: string }>
+  ): Promise<PoolDetails[]> {
+    const POOL_FIELDS = ['slot0', 'liquidity', 'token0', 'token1', 'fee', 'tickSpacing'] as const
+    const stateResults = await batchReadContracts(
+      this.publicClient,
+      existingPools.flatMap(({ address }) =>
+        POOL_FIELDS.map(functionName => ({
+          address: address as Address,
+          abi: POOL_ABI,
+          functionName,
+        }))
+      )
     )
 
-    // Execute pool detail fetches in smaller batches - LAZY EXECUTION
-    const DETAIL_BATCH_SIZE = 5 // Reduced batch size to prevent flooding
+    const registry = loadPoolRegistry()
     const pools: PoolDetails[] = []
-    
-    for (let i = 0; i < poolDetailFunctions.length; i += DETAIL_BATCH_SIZE) {
-      const batch = poolDetailFunctions.slice(i, i + DETAIL_BATCH_SIZE)
-      // Only create promises when we're ready to execute this batch
-      const batchPromises = batch.map(fn => fn())
-      const results = await Promise.allSettled(batchPromises)
-      
-      results.forEach((result) => {
-        if (result.status === 'fulfilled' && result.value) {
-          pools.push(result.value)
-        }
-      })
-      
-      // Delay between batches to prevent RPC flooding
-      if (i + DETAIL_BATCH_SIZE < poolDetailFunctions.length) {
-        await new Promise(resolve => setTimeout(resolve, 100)) // Increased delay
-      }
-    }
+    existingPools.forEach(({ token0, token1, fee, address }, idx) => {
+      const fields = stateResults.slice(idx * POOL_FIELDS.length, (idx + 1) * POOL_FIELDS.length)
+      // Uninitialized pools revert on slot0; skip anything incomplete
+      if (fields.some(f => f.status !== 'success')) return
+
+      const [slot0, liquidity, poolToken0, poolToken1, poolFee, tickSpacing] = fields.map(
+        f => (f as { status: 'success'; result: unknown }).result
+      )
+      const poolDetails = this.buildPoolDetails(address, slot0, liquidity, poolToken0, poolToken1, poolFee, tickSpacing, registry)
+
+      // Share results with getPoolDetails callers
+      const cacheKey = `${this.publicClient.chain?.id}:${token0.toLowerCase()}-${token1.toLowerCase()}-${fee}`
+      poolDetailsCache.set(cacheKey, poolDetails)
+      setTimeout(() => poolDetailsCache.delete(cacheKey), POOL_CACHE_TTL)
+
+      pools.push(poolDetails)
+    })
 
     return pools
   }
 
   /**
-   * Create a new pool
+   * The pool registry plus on-chain metadata for tokens it doesn't know yet,
+   * so prices of pools found before discovery use the right decimals
+   */
+  private async registryWithTokens(addresses: Address[]): Promise<PoolRegistry> {
+    const registry = loadPoolRegistry()
+    const unknown = addresses.filter(address => !findKnownToken(address, registry))
+    if (unknown.length === 0) return registry
+    return { ...registry, tokens: [...registry.tokens, ...await resolveTokenMetadata(this.publicClient, unknown)] }
+  }
+
+  /**
+   * Assemble PoolDetails from raw pool reads
+   */
+  private buildPoolDetails(
+    poolAddress: string,
+    slot0: unknown,
+    liquidity: unknown,
+    poolToken0: unknown,
+    poolToken1: unknown,
+    poolFee: unknown,
+    tickSpacing: unknown,
+    registry: PoolRegistry = loadPoolRegistry()
+  ): PoolDetails {
+    const [sqrtPriceX96, tick] = slot0 as [bigint, number, number, number, number, number, boolean]
+
+    // Find token objects (configured tokens first, then tokens resolved during pool discovery)
+    const token0 = findKnownToken(poolToken0 as string, registry) || {
+      address: poolToken0 as string,
+      symbol: 'UNKNOWN',
+      name: 'Unknown Token',
+      decimals: 18,
+    }
+
+    const token1 = findKnownToken(poolToken1 as string, registry) || {
+      address: poolToken1 as string,
+      symbol: 'UNKNOWN',
+      name: 'Unknown Token',
+      decimals: 18,
+    }
+
+    // Human-readable token1/token0 price: raw price * 10^(decimals0 - decimals1)
+    const currentPrice = sqrtPriceX96ToPrice(sqrtPriceX96, token0.decimals, token1.decimals)
+
+    return {
+      address: poolAddress,
+      token0,
+      token1,
+      fee: Number(poolFee),
+      currentTick: Number(tick),
+      currentPrice,
+      liquidity: (liquidity as bigint).toString(),
+      sqrtPriceX96,
+      tickSpacing: Number(tickSpacing),
+    }
+  }
+
+  /**
+   * Create a new pool and initialize it at initialPrice
+   * (token1 per token0 in human units, token0 being the lower address)
    */
   async createPool(params: CreatePoolParams): Promise<string> {
     if (!this.walletClient) {
@@ -306,7 +379,7 @@ export class PoolService {
     }
 
     try {
-      const { token0, token1, fee, initialPrice } = params
+      const { token0, token1, fee, initialPrice, decimals0, decimals1 } = params
 
       // Check if pool already exists
       const exists = await this.poolExists(token0, token1, fee)
@@ -315,8 +388,8 @@ export class PoolService {
       }
 
       // Create pool
-      const createHash = await this.walletClient.writeContract({
-        address: CONTRACT_ADDRESSES.FACTORY,
+      const createHash = await simulateAndWrite(this.publicClient, this.walletClient, {
+        address: CONTRACT_ADDRESSES.FACTORY as Address,
         abi: FACTORY_ABI,
         functionName: 'createPool',
         args: [token0 as Address, token1 as Address, fee],
@@ -341,11 +414,10 @@ Please check:
 - Factory contract: ${CONTRACT_ADDRESSES.FACTORY}`)
       }
 
-      // Initialize pool with price
-      // initialPrice is expected as token1/token0 ratio already adjusted for decimals
-      const sqrtPriceX96 = getSqrtPriceX96(initialPrice)
+      // Initialize pool with price, scaled to base units exactly
+      const sqrtPriceX96 = priceToSqrtPriceX96(initialPrice, decimals0, decimals1)
 
-      const initHash = await this.walletClient.writeContract({
+      const initHash = await simulateAndWrite(this.publicClient, this.walletClient, {
         address: poolAddress as Address,
         abi: POOL_ABI,
         functionName: 'initialize',
@@ -357,7 +429,7 @@ Please check:
       return poolAddress
     } catch (error) {
       console.error('Error creating pool:', error)
-      throw error
+      throw decodeDexError(error, 'Failed to create pool')
     }
   }
   /**
@@ -399,43 +471,8 @@ Please check:
         }),
       ])
 
-      const [sqrtPriceX96, tick] = slot0 as [bigint, number, number, number, number, number, boolean]
-
-      // Find token objects
-      const token0 = Object.values(tokens).find(
-        (t) => t.address.toLowerCase() === (poolToken0 as string).toLowerCase()
-      ) || {
-        address: poolToken0 as string,
-        symbol: 'UNKNOWN',
-        name: 'Unknown Token',
-        decimals: 18,
-      }
-
-      const token1 = Object.values(tokens).find(
-        (t) => t.address.toLowerCase() === (poolToken1 as string).toLowerCase()
-      ) || {
-        address: poolToken1 as string,
-        symbol: 'UNKNOWN',
-        name: 'Unknown Token',
-        decimals: 18,
-      }
-
-      // Raw price from Uniswap is token1/token0 in smallest units
-      // Adjust for decimals to get human-readable price: price * 10^(decimals0 - decimals1)
-      const rawPrice = sqrtPriceX96ToPrice(sqrtPriceX96)
-      const currentPrice = rawPrice * Math.pow(10, token0.decimals - token1.decimals)
-
-      return {
-        address: poolAddress,
-        token0,
-        token1,
-        fee: Number(poolFee),
-        currentTick: Number(tick),
-        currentPrice,
-        liquidity: liquidity.toString(),
-        sqrtPriceX96,
-        tickSpacing: Number(tickSpacing),
-      }
+      const registry = await this.registryWithTokens([poolToken0, poolToken1])
+      return this.buildPoolDetails(poolAddress, slot0, liquidity, poolToken0, poolToken1, poolFee, tickSpacing, registry)
     } catch (error) {
       console.error('Error getting pool details by address:', error)
       return null
@@ -444,12 +481,15 @@ Please check:
 
   /**
    * Create pool if it doesn't exist
+   * @param initialPrice token1 per token0 in human units, token0 being the lower address
    */
   async createPoolIfNeeded(
     token0: string,
     token1: string,
     fee: number,
-    initialPrice: number
+    initialPrice: number | string,
+    decimals0: number,
+    decimals1: number
   ): Promise<string> {
     const poolAddress = await this.getPoolAddress(token0, token1, fee)
 
@@ -468,9 +508,9 @@ Please check:
           throw new Error('Wallet client required')
         }
 
-        const sqrtPriceX96 = getSqrtPriceX96(initialPrice)
+        const sqrtPriceX96 = priceToSqrtPriceX96(initialPrice, decimals0, decimals1)
 
-        const initHash = await this.walletClient.writeContract({
+        const initHash = await simulateAndWrite(this.publicClient, this.walletClient, {
           address: poolAddress as Address,
           abi: POOL_ABI,
           functionName: 'initialize',
@@ -483,6 +523,6 @@ Please check:
     }
 
     // Create new pool
-    return this.createPool({ token0, token1, fee, initialPrice })
+    return this.createPool({ token0, token1, fee, initialPrice, decimals0, decimals1 })
   }
 }
@@ -1,42 +1,31 @@
-import { parseUnits, formatUnits, type Address } from 'viem'
-import { CONTRACT_ADDRESSES, NONFUNGIBLE_POSITION_MANAGER_ABI, ERC20_ABI, FACTORY_ABI, POOL_ABI } from '@/lib/contracts'
-
-export interface Position {
-  tokenId: string
-  token0: string
-  token1: string
-  fee: number
-  tickLower: number
-  tickUpper: number
-  liquidity: string
-  tokensOwed0: string
-  tokensOwed1: string
-}
+import { parseUnits, formatUnits, type Address, type PublicClient, type WalletClient } from 'viem'
+import { CONTRACT_ADDRESSES, NONFUNGIBLE_POSITION_MANAGER_ABI, ERC20_ABI, FACTORY_ABI, POOL_ABI } from '../lib/contracts'
+import { getUncollectedFees, type FeePosition } from '../lib/positionFees'
+import { decodeDexError } from '../lib/errors'
+import { previewWrite, simulateAndWrite, type ContractWrite, type SimulationOutcome } from '../lib/simulation'
+import { permitOrApprove, withSelfPermits } from '../lib/permit'
+import { calculateLiquidityAmounts } from '../lib/positionAnalysis'
+import type { IncreaseLiquidityParams, Position } from '../types/position'
 
-export interface IncreaseLiquidityParams {
-  tokenId: string
-  amount0Desired: string
-  amount1Desired: string
-  amount0Min: string
-  amount1Min: string
-  deadline: number
-  recipient: Address
-  // Add position's original tick range
-  tickLower?: number
-  tickUpper?: number
-  currentTick?: number
-}
+const MAX_UINT128 = BigInt('340282366920938463463374607431768211455')
 
 export class PositionService {
   constructor(
-    private publicClient: any,
-    private walletClient: any
+    private publicClient: PublicClient,
+    private walletClient?: WalletClient
   ) {}
 
+  private get wallet(): WalletClient {
+    if (!this.walletClient) {
+      throw new Error('Wallet client required for position changes')
+    }
+    return this.walletClient
+  }
+
   async getPositions(userAddress: Address): Promise<Position[]> {
     try {
       const balance = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
+        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
         abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
         functionName: 'balanceOf',
         args: [userAddress],
@@ -48,7 +37,7 @@ export class PositionService {
       // Parallelize tokenId fetching
       const tokenIdPromises = Array.from({ length: balanceNum }, (_, i) =>
         this.publicClient.readContract({
-          address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
+          address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
           abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
           functionName: 'tokenOfOwnerByIndex',
           args: [userAddress, BigInt(i)],
@@ -62,7 +51,7 @@ export class PositionService {
       // Parallelize position fetching
       const positionPromises = tokenIds.map(tokenId =>
         this.publicClient.readContract({
-          address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
+          address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
           abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
           functionName: 'positions',
           args: [tokenId],
@@ -75,9 +64,9 @@ export class PositionService {
       const tokenAddresses = new Set<string>()
       positionsData.forEach((position) => {
         if (position) {
-          const [, , token0, token1] = position as any[]
-          tokenAddresses.add(token0 as string)
-          tokenAddresses.add(token1 as string)
+          const [, , token0, token1] = position
+          tokenAddresses.add(token0)
+          tokenAddresses.add(token1)
         }
       })
 
@@ -101,6 +90,32 @@ export class PositionService {
         decimalsMap.set(address, decimals)
       })
 
+      // Fees owed right now, including those accrued since the position was last touched
+      const feePositions: FeePosition[] = []
+      positionsData.forEach((position, i) => {
+        if (!position) return
+        const [, , token0, token1, fee, tickLower, tickUpper, liquidity, feeGrowthInside0LastX128, feeGrowthInside1LastX128, tokensOwed0, tokensOwed1] =
+          position as readonly [bigint, Address, Address, Address, number, number, number, bigint, bigint, bigint, bigint, bigint]
+        feePositions.push({
+          tokenId: tokenIds[i],
+          token0,
+          token1,
+          fee: Number(fee),
+          tickLower: Number(tickLower),
+          tickUpper: Number(tickUpper),
+          liquidity,
+          feeGrowthInside0LastX128,
+          feeGrowthInside1LastX128,
+          tokensOwed0,
+          tokensOwed1,
+        })
+      })
+      const uncollectedFees = await getUncollectedFees(this.publicClient, feePositions, userAddress).catch(error => {
+        console.error('Error computing uncollected fees:', error)
+        return feePositions.map(p => ({ amount0: p.tokensOwed0, amount1: p.tokensOwed1 }))
+      })
+      const feesByTokenId = new Map(feePositions.map((p, i) => [p.tokenId.toString(), uncollectedFees[i]]))
+
       // Process positions with cached decimals
       const positions: Position[] = []
       for (let i = 0; i < tokenIds.length; i++) {
@@ -120,10 +135,11 @@ export class PositionService {
           feeGrowthInside1LastX128,
           tokensOwed0,
           tokensOwed1,
-        ] = position as any[]
+        ] = position
 
         const token0Decimals = decimalsMap.get(token0 as string) || 18
         const token1Decimals = decimalsMap.get(token1 as string) || 18
+        const fees = feesByTokenId.get(tokenIds[i].toString()) || { amount0: tokensOwed0, amount1: tokensOwed1 }
 
         positions.push({
           tokenId: tokenIds[i].toString(),
@@ -135,6 +151,8 @@ export class PositionService {
           liquidity: liquidity.toString(),
           tokensOwed0: formatUnits(tokensOwed0, token0Decimals),
           tokensOwed1: formatUnits(tokensOwed1, token1Decimals),
+          uncollectedFees0: formatUnits(fees.amount0, token0Decimals),
+          uncollectedFees1: formatUnits(fees.amount1, token1Decimals),
         })
       }
 
@@ -152,13 +170,13 @@ export class PositionService {
 
       // First, get the position details to know which tokens to approve
       const position = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
+        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
         abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
         functionName: 'positions',
         args: [BigInt(tokenId)],
       })
 
-      const [, , token0, token1, fee, tickLowerFromContract, tickUpperFromContract, liquidity] = position as any[]
+      const [, , token0, token1, fee, tickLowerFromContract, tickUpperFromContract, liquidity] = position
       
       console.log('Position details from contract:', {
         token0,
@@ -198,9 +216,6 @@ export class PositionService {
       let finalAmount1Desired = amount1Desired
       
       if (currentTick !== undefined && finalTickLower !== undefined && finalTickUpper !== undefined) {
-        // Import the position analysis functions
-        const { calculateLiquidityAmounts } = await import('../lib/positionAnalysis')
-        
         // Calculate optimal amounts based on the position's tick range
         const { amount0, amount1 } = calculateLiquidityAmounts(
           amount0Desired,
@@ -300,40 +315,13 @@ export class PositionService {
         throw new Error(`Insufficient ${token1} balance. Required: ${fixedAmount1Desired}, Available: ${formatUnits(balance1, Number(token1Decimals))}`)
       }
 
-      // Approve tokens for the position manager
-      const token0Contract = { address: token0, abi: ERC20_ABI }
-      const token1Contract = { address: token1, abi: ERC20_ABI }
-
-      // Check current allowances and approve if needed
-      const allowance0 = await this.publicClient.readContract({
-        ...token0Contract,
-        functionName: 'allowance',
-        args: [recipient, CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER],
-      })
+      // Approve tokens for the position manager, by permit where the token supports it
+      const positionManager = CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address
+      const permits = [
+        await permitOrApprove(this.wallet, this.publicClient, token0, positionManager, amount0DesiredWei, BigInt(deadlineTimestamp)),
+        await permitOrApprove(this.wallet, this.publicClient, token1, positionManager, amount1DesiredWei, BigInt(deadlineTimestamp)),
+      ]
 
-      if (allowance0 < amount0DesiredWei) {
-        const approveHash0 = await this.walletClient.writeContract({
-          ...token0Contract,
-          functionName: 'approve',
-          args: [CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER, amount0DesiredWei],
-        })
-        await this.publicClient.waitForTransactionReceipt({ hash: approveHash0 })
-      }
-
-      const allowance1 = await this.publicClient.readContract({
-        ...token1Contract,
-        functionName: 'allowance',
-        args: [recipient, CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER],
-      })
-
-      if (allowance1 < amount1DesiredWei) {
-        const approveHash1 = await this.walletClient.writeContract({
-          ...token1Contract,
-          functionName: 'approve',
-          args: [CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER, amount1DesiredWei],
-        })
-        await this.publicClient.waitForTransactionReceipt({ hash: approveHash1 })
-      }
       console.log('Attempting to increase liquidity with params:', {
         tokenId,
         amount0Desired: finalAmount0Desired,
@@ -345,8 +333,8 @@ export class PositionService {
         currentTick
       })
 
-      const hash = await this.walletClient.writeContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
+      const hash = await simulateAndWrite(this.publicClient, this.wallet, withSelfPermits({
+        address: positionManager,
         abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
         functionName: 'increaseLiquidity',
         args: [{
@@ -357,7 +345,7 @@ export class PositionService {
           amount1Min: amount1MinWei,
           deadline: BigInt(deadlineTimestamp),
         }],
-      })
+      }, permits))
       
       console.log('Transaction submitted:', hash)
       
@@ -384,14 +372,9 @@ export class PositionService {
         console.log("Successfully increased liquidity")
       }
       return hash
-    } catch (error: any) {
-    console.error('Detailed error:', {
-      message: error.message,
-      code: error.code,
-      data: error.data,
-      reason: error.reason
-    })
-    throw error;
+    } catch (error) {
+    console.error('Detailed error:', error)
+    throw decodeDexError(error, 'Failed to increase liquidity');
   }
   }
 
@@ -417,32 +400,19 @@ export class PositionService {
       
       const deadlineTimestamp = Math.floor(Date.now() / 1000) + deadline * 60
 
-      const decreaseHash = await this.walletClient.writeContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
-        abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
-        functionName: 'decreaseLiquidity',
-        args: [{
-          tokenId: BigInt(tokenId),
-          liquidity: liquidityWei,
-          amount0Min: amount0MinWei,
-          amount1Min: amount1MinWei,
-          deadline: BigInt(deadlineTimestamp),
-        }],
-      })
+      const decreaseHash = await simulateAndWrite(
+        this.publicClient,
+        this.wallet,
+        this.decreaseLiquidityCall(tokenId, liquidityWei, amount0MinWei, amount1MinWei, BigInt(deadlineTimestamp))
+      )
 
       await this.publicClient.waitForTransactionReceipt({ hash: decreaseHash })
 
-      const collectHash = await this.walletClient.writeContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
-        abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
-        functionName: 'collect',
-        args: [{
-          tokenId: BigInt(tokenId),
-          recipient: recipient,
-          amount0Max: BigInt('340282366920938463463374607431768211455'),
-          amount1Max: BigInt('340282366920938463463374607431768211455'),
-        }],
-      })
+      const collectHash = await simulateAndWrite(
+        this.publicClient,
+        this.wallet,
+        this.collectCall(tokenId, recipient, MAX_UINT128, MAX_UINT128)
+      )
 
       await this.publicClient.waitForTransactionReceipt({ hash: collectHash })
 
@@ -464,7 +434,7 @@ export class PositionService {
         })
 
         if (wbcxBalance > BigInt(0)) {
-          const unwrapHash = await this.walletClient.writeContract({
+          const unwrapHash = await simulateAndWrite(this.publicClient, this.wallet, {
             address: CONTRACT_ADDRESSES.WBCX as Address,
             abi: [
               {
@@ -486,7 +456,7 @@ export class PositionService {
 
       return collectHash
     } catch (error) {
-      throw new Error(`Failed to remove liquidity: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw decodeDexError(error, 'Failed to remove liquidity')
     }
   }
 
@@ -499,36 +469,94 @@ export class PositionService {
     try {
       // If amount0Max/amount1Max is the max uint128 string, use it directly as BigInt
       // Otherwise, parse it as a decimal string with appropriate decimals
-      const MAX_UINT128 = '340282366920938463463374607431768211455'
-      const amount0MaxWei = amount0Max === MAX_UINT128 
-        ? BigInt(MAX_UINT128)
+      const amount0MaxWei = amount0Max === MAX_UINT128.toString()
+        ? MAX_UINT128
         : parseUnits(amount0Max, 18)
-      const amount1MaxWei = amount1Max === MAX_UINT128
-        ? BigInt(MAX_UINT128)
+      const amount1MaxWei = amount1Max === MAX_UINT128.toString()
+        ? MAX_UINT128
         : parseUnits(amount1Max, 18)
 
-      const hash = await this.walletClient.writeContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
-        abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
-        functionName: 'collect',
-        args: [{
-          tokenId: BigInt(tokenId),
-          recipient: recipient,
-          amount0Max: amount0MaxWei,
-          amount1Max: amount1MaxWei,
-        }],
-      })
+      const hash = await simulateAndWrite(
+        this.publicClient,
+        this.wallet,
+        this.collectCall(tokenId, recipient, amount0MaxWei, amount1MaxWei)
+      )
 
       return hash
     } catch (error) {
-      throw new Error(`Failed to collect fees: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw decodeDexError(error, 'Failed to collect fees')
+    }
+  }
+
+  /**
+   * Simulate removing `liquidity` from a position
+   * @returns Token amounts the decrease would credit to the position
+   */
+  async simulateDecreaseLiquidity(
+    tokenId: string,
+    liquidity: string,
+    owner: Address,
+    deadline: number = 20
+  ): Promise<SimulationOutcome<readonly [bigint, bigint]>> {
+    const deadlineTimestamp = BigInt(Math.floor(Date.now() / 1000) + deadline * 60)
+    return previewWrite<readonly [bigint, bigint]>(
+      this.publicClient,
+      owner,
+      this.decreaseLiquidityCall(tokenId, BigInt(liquidity), BigInt(0), BigInt(0), deadlineTimestamp)
+    )
+  }
+
+  /**
+   * Simulate collecting everything the position is owed. Unlike the fee
+   * growth math, this includes fees accrued since the last pool update.
+   */
+  async simulateCollect(tokenId: string, owner: Address): Promise<SimulationOutcome<readonly [bigint, bigint]>> {
+    return previewWrite<readonly [bigint, bigint]>(
+      this.publicClient,
+      owner,
+      this.collectCall(tokenId, owner, MAX_UINT128, MAX_UINT128)
+    )
+  }
+
+  private decreaseLiquidityCall(
+    tokenId: string,
+    liquidity: bigint,
+    amount0Min: bigint,
+    amount1Min: bigint,
+    deadline: bigint
+  ): ContractWrite {
+    return {
+      address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
+      abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+      functionName: 'decreaseLiquidity',
+      args: [{
+        tokenId: BigInt(tokenId),
+        liquidity,
+        amount0Min,
+        amount1Min,
+        deadline,
+      }],
+    }
+  }
+
+  private collectCall(tokenId: string, recipient: Address, amount0Max: bigint, amount1Max: bigint): ContractWrite {
+    return {
+      address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
+      abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
+      functionName: 'collect',
+      args: [{
+        tokenId: BigInt(tokenId),
+        recipient,
+        amount0Max,
+        amount1Max,
+      }],
     }
   }
 
   async burnPosition(tokenId: string): Promise<string> {
     try {
-      const hash = await this.walletClient.writeContract({
-        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER,
+      const hash = await simulateAndWrite(this.publicClient, this.wallet, {
+        address: CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address,
         abi: NONFUNGIBLE_POSITION_MANAGER_ABI,
         functionName: 'burn',
         args: [BigInt(tokenId)],
@@ -536,20 +564,20 @@ export class PositionService {
 
       return hash
     } catch (error) {
-      throw new Error(`Failed to burn position: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      throw decodeDexError(error, 'Failed to burn position')
     }
   }
 
   async getPoolAddress(token0: string, token1: string, fee: number): Promise<string> {
     try {
       const poolAddress = await this.publicClient.readContract({
-        address: CONTRACT_ADDRESSES.FACTORY,
+        address: CONTRACT_ADDRESSES.FACTORY as Address,
         abi: FACTORY_ABI,
         functionName: 'getPool',
-        args: [token0, token1, fee],
+        args: [token0 as Address, token1 as Address, fee],
       })
 
-      return poolAddress as string
+      return poolAddress
     } catch (error) {
       console.error('Error getting pool address:', error)
       return '0x0000000000000000000000000000000000000000'
@@ -564,7 +592,7 @@ export class PositionService {
         functionName: 'slot0',
       })
 
-      const [sqrtPriceX96, tick, , , ,] = poolData as any[]
+      const [sqrtPriceX96, tick] = poolData
       
       // Convert sqrtPriceX96 to price
       const price = Number(sqrtPriceX96) ** 2 / (2 ** 192)
@@ -0,0 +1,276 @@
+import { getAbiItem, type Address, type PublicClient } from 'viem'
+import { POOL_ABI } from '../lib/contracts'
+import { LOG_BLOCK_RANGE } from '../lib/poolDiscovery'
+import { getBlocksForDuration } from '../lib/blocks'
+import { getClientNetwork } from '../lib/network'
+import { sqrtPriceX96ToPrice, tickToPrice } from '../lib/tickMath'
+import { Pool, Candle, CandleInterval } from '../types/pool'
+
+/**
+ * Candle width and how far back each interval looks
+ */
+export const CANDLE_INTERVALS: Record<CandleInterval, { seconds: number; lookback: number }> = {
+  '5m': { seconds: 300, lookback: 86400 }, // 288 candles
+  '1h': { seconds: 3600, lookback: 7 * 86400 }, // 168 candles
+  '1d': { seconds: 86400, lookback: 30 * 86400 }, // 30 candles
+}
+
+export type PriceSource = 'swaps' | 'twap'
+
+// Oldest point kept in storage; matches the longest lookback
+const MAX_HISTORY_SECONDS = 30 * 86400
+const MAX_STORED_POINTS = 20000
+
+const STORAGE_PREFIX = 'priceHistory:'
+
+const SWAP_EVENT = getAbiItem({ abi: POOL_ABI, name: 'Swap' })
+
+/**
+ * Swap prices for one pool, persisted so later loads only scan new blocks
+ */
+interface PriceHistory {
+  firstScannedBlock: string // bigint serialized for localStorage
+  lastScannedBlock: string
+  points: Array<[number, number]> // [unix seconds, token1 per token0]
+}
+
+// Shared across callers so the pool page and the swap card don't scan twice
+const syncInFlight = new Map<string, Promise<PriceHistory>>()
+
+// The same pool address can exist on several networks
+function storageKey(chainId: number, poolAddress: string): string {
+  return `${STORAGE_PREFIX}${chainId}:${poolAddress.toLowerCase()}`
+}
+
+function loadHistory(key: string): PriceHistory | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as PriceHistory) : null
+  } catch {
+    return null
+  }
+}
+
+function saveHistory(key: string, history: PriceHistory) {
+  if (typeof window === 'undefined') return
+  try {
+    localStorage.setItem(key, JSON.stringify(history))
+  } catch {
+    // Storage full or unavailable; the next load simply rescans
+  }
+}
+
+/**
+ * Roll price points into fixed-width candles. Empty intervals carry the previous
+ * close forward so the series has no gaps.
+ * @param points Price points sorted by time
+ * @param from Start of the window (unix seconds)
+ * @param to End of the window (unix seconds)
+ */
+export function aggregateCandles(
+  points: Array<[number, number]>,
+  intervalSeconds: number,
+  from: number,
+  to: number
+): Candle[] {
+  const candles: Candle[] = []
+  const start = Math.floor(from / intervalSeconds) * intervalSeconds
+
+  // Price going into the window, from the last point before it
+  let idx = 0
+  let previousClose: number | undefined
+  while (idx < points.length && points[idx][0] < start) {
+    previousClose = points[idx][1]
+    idx++
+  }
+
+  for (let time = start; time <= to; time += intervalSeconds) {
+    const bucketEnd = time + intervalSeconds
+    const prices: number[] = []
+    while (idx < points.length && points[idx][0] < bucketEnd) {
+      prices.push(points[idx][1])
+      idx++
+    }
+
+    if (prices.length === 0) {
+      if (previousClose === undefined) continue
+      candles.push({ time, open: previousClose, high: previousClose, low: previousClose, close: previousClose })
+      continue
+    }
+
+    const open = previousClose ?? prices[0]
+    const close = prices[prices.length - 1]
+    candles.push({
+      time,
+      open,
+      high: Math.max(open, ...prices),
+      low: Math.min(open, ...prices),
+      close,
+    })
+    previousClose = close
+  }
+
+  return candles
+}
+
+export class PriceHistoryService {
+  constructor(private publicClient: PublicClient) {}
+
+  /**
+   * Get OHLC candles for a pool's token1/token0 price
+   * @param source 'swaps' rebuilds prices from Swap events; 'twap' reads the
+   * pool's observe() oracle, which needs enough observation cardinality
+   */
+  async getCandles(pool: Pool, interval: CandleInterval, source: PriceSource = 'swaps'): Promise<Candle[]> {
+    try {
+      if (source === 'twap') return await this.getTwapCandles(pool, interval)
+
+      const { seconds, lookback } = CANDLE_INTERVALS[interval]
+      const history = await this.syncHistory(pool, lookback)
+      const now = Math.floor(Date.now() / 1000)
+      return aggregateCandles(history.points, seconds, now - lookback, now)
+    } catch (error) {
+      console.error('Error loading price history:', error)
+      throw new Error(`Failed to load price history: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Bring stored swap prices up to date and backfill to cover the lookback
+   */
+  private syncHistory(pool: Pool, lookbackSeconds: number): Promise<PriceHistory> {
+    const storage = storageKey(getClientNetwork(this.publicClient).chain.id, pool.address)
+    const key = `${storage}-${lookbackSeconds}`
+    let inFlight = syncInFlight.get(key)
+    if (!inFlight) {
+      inFlight = this.scanHistory(pool, lookbackSeconds, storage).finally(() => syncInFlight.delete(key))
+      syncInFlight.set(key, inFlight)
+    }
+    return inFlight
+  }
+
+  private async scanHistory(pool: Pool, lookbackSeconds: number, storage: string): Promise<PriceHistory> {
+    const [latest, lookbackBlocks] = await Promise.all([
+      this.publicClient.getBlock(),
+      getBlocksForDuration(this.publicClient, lookbackSeconds),
+    ])
+    const latestBlock = latest.number
+    const targetStart = latestBlock > lookbackBlocks ? latestBlock - lookbackBlocks : BigInt(0)
+
+    const stored = loadHistory(storage)
+    const points = stored ? [...stored.points] : []
+    let firstScanned = stored ? BigInt(stored.firstScannedBlock) : latestBlock + BigInt(1)
+    let lastScanned = stored ? BigInt(stored.lastScannedBlock) : latestBlock
+
+    // Backfill older blocks the stored history doesn't reach yet
+    if (targetStart < firstScanned) {
+      points.push(...(await this.scanSwapPrices(pool, targetStart, firstScanned - BigInt(1))))
+      firstScanned = targetStart
+    }
+    // Then everything since the last scan
+    if (stored && lastScanned < latestBlock) {
+      points.push(...(await this.scanSwapPrices(pool, lastScanned + BigInt(1), latestBlock)))
+    }
+    lastScanned = latestBlock
+
+    const cutoff = Number(latest.timestamp) - MAX_HISTORY_SECONDS
+    const pruned = points
+      .sort((a, b) => a[0] - b[0])
+      .filter(([time]) => time >= cutoff)
+      .slice(-MAX_STORED_POINTS)
+
+    const history: PriceHistory = {
+      firstScannedBlock: firstScanned.toString(),
+      lastScannedBlock: lastScanned.toString(),
+      points: pruned,
+    }
+    saveHistory(storage, history)
+    return history
+  }
+
+  /**
+   * Read Swap events in a block range and convert each sqrtPriceX96 to a price.
+   * Timestamps are interpolated between the block times at each range boundary
+   * rather than fetching every block.
+   */
+  private async scanSwapPrices(pool: Pool, fromBlock: bigint, toBlock: bigint): Promise<Array<[number, number]>> {
+    const points: Array<[number, number]> = []
+    let anchorBlock: bigint = fromBlock
+    let anchorTime = Number((await this.publicClient.getBlock({ blockNumber: fromBlock })).timestamp)
+
+    for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+      const end = start + LOG_BLOCK_RANGE - BigInt(1) < toBlock ? start + LOG_BLOCK_RANGE - BigInt(1) : toBlock
+
+      const [logs, endBlock] = await Promise.all([
+        this.publicClient.getLogs({
+          address: pool.address as Address,
+          event: SWAP_EVENT,
+          fromBlock: start,
+          toBlock: end,
+        }),
+        this.publicClient.getBlock({ blockNumber: end }),
+      ])
+      const endTime = Number(endBlock.timestamp)
+      const span = Number(end - anchorBlock)
+
+      for (const log of logs as Array<{ blockNumber: bigint; args: { sqrtPriceX96?: bigint } }>) {
+        if (log.args.sqrtPriceX96 === undefined) continue
+        const time = span > 0
+          ? anchorTime + Math.round((Number(log.blockNumber - anchorBlock) / span) * (endTime - anchorTime))
+          : endTime
+        points.push([time, sqrtPriceX96ToPrice(log.args.sqrtPriceX96, pool.token0.decimals, pool.token1.decimals)])
+      }
+
+      anchorBlock = end
+      anchorTime = endTime
+    }
+
+    return points
+  }
+
+  /**
+   * Build candles from the pool's tick oracle. Each candle's close is the
+   * time-weighted average price over its interval.
+   */
+  private async getTwapCandles(pool: Pool, interval: CandleInterval): Promise<Candle[]> {
+    const { seconds, lookback } = CANDLE_INTERVALS[interval]
+    const count = Math.floor(lookback / seconds)
+    const secondsAgos = Array.from({ length: count + 1 }, (_, i) => (count - i) * seconds)
+
+    let tickCumulatives: readonly bigint[]
+    try {
+      const result = await this.publicClient.readContract({
+        address: pool.address as Address,
+        abi: POOL_ABI,
+        functionName: 'observe',
+        args: [secondsAgos],
+      })
+      tickCumulatives = (result as readonly [readonly bigint[], readonly bigint[]])[0]
+    } catch {
+      throw new Error('Pool oracle does not cover this range; increase its observation cardinality or use swap history')
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const candles: Candle[] = []
+    let previousClose: number | undefined
+    for (let i = 0; i < count; i++) {
+      const delta = tickCumulatives[i + 1] - tickCumulatives[i]
+      // Round towards negative infinity, as OracleLibrary.consult does
+      let averageTick = delta / BigInt(seconds)
+      if (delta < BigInt(0) && delta % BigInt(seconds) !== BigInt(0)) averageTick -= BigInt(1)
+
+      const close = tickToPrice(Number(averageTick), pool.token0.decimals, pool.token1.decimals)
+      const open = previousClose ?? close
+      candles.push({
+        time: now - secondsAgos[i],
+        open,
+        high: Math.max(open, close),
+        low: Math.min(open, close),
+        close,
+      })
+      previousClose = close
+    }
+    return candles
+  }
+}
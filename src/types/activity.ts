@@ -0,0 +1,26 @@
+export type ActivityType = 'swap' | 'mint' | 'increase' | 'decrease' | 'collect' | 'burn'
+
+/**
+ * One wallet action reconstructed from chain events
+ */
+export interface ActivityItem {
+  id: string // `${txHash}-${logIndex}`
+  type: ActivityType
+  txHash: string
+  blockNumber: string // bigint serialized for localStorage
+  logIndex: number
+  timestamp: number // unix seconds
+  tokenId?: string // Position NFT for liquidity actions
+  // Swaps: [tokenIn, tokenOut]; liquidity actions: [token0, token1]
+  tokens: [string, string] | null
+  amounts: [string, string] // Raw units, matching tokens
+}
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  swap: 'Swap',
+  mint: 'Add Liquidity',
+  increase: 'Increase Liquidity',
+  decrease: 'Remove Liquidity',
+  collect: 'Collect Fees',
+  burn: 'Burn Position',
+}
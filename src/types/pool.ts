@@ -1,4 +1,4 @@
-import { Token } from '@/config/tokens'
+import { Token } from '../config/tokens'
 
 /**
  * Pool interface representing a Uniswap V3 pool
@@ -18,21 +18,36 @@ export interface Pool {
 /**
  * Pool details with additional statistics
  */
-export interface PoolDetails extends Pool {
-  tvl?: string
-  volume24h?: string
-  fees24h?: string
+export interface PoolDetails extends Pool, PoolStats {
   userPositionsCount?: number
 }
 
 /**
- * Pool statistics
+ * Pool statistics (USD values as decimal strings, APR as a percentage)
  */
 export interface PoolStats {
   volume24h?: string
   tvl?: string
   fees24h?: string
   apr?: number
+  token0PriceUsd?: number
+  token1PriceUsd?: number
+}
+
+/**
+ * Candle interval for pool price history
+ */
+export type CandleInterval = '5m' | '1h' | '1d'
+
+/**
+ * OHLC price candle (token1 per token0, human units)
+ */
+export interface Candle {
+  time: number // Unix seconds at the start of the interval
+  open: number
+  high: number
+  low: number
+  close: number
 }
 
 /**
@@ -42,7 +57,9 @@ export interface CreatePoolParams {
   token0: string
   token1: string
   fee: number
-  initialPrice: number
+  initialPrice: number | string // token1 per token0, in human units
+  decimals0: number
+  decimals1: number
 }
 
 /**
@@ -55,7 +72,7 @@ export interface FeeTier {
   description: string
 }
 
-export const FEE_TIERS: FeeTier[] = [
+export const FEE_TIER_OPTIONS: FeeTier[] = [
   {
     fee: 100,
     tickSpacing: 1,
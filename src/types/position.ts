@@ -1,3 +1,5 @@
+import type { Address } from 'viem'
+
 /**
  * Basic position data from contract
  */
@@ -11,6 +13,8 @@ export interface Position {
   liquidity: string
   tokensOwed0: string
   tokensOwed1: string
+  uncollectedFees0: string // tokensOwed plus fees accrued since the last checkpoint
+  uncollectedFees1: string
 }
 
 /**
@@ -21,6 +25,7 @@ export interface PositionDetails extends Position {
   amount0: string
   amount1: string
   estimatedAPR: number
+  aprBreakdown?: PositionAPR
   shareOfPool: number
   priceRangeLower: number
   priceRangeUpper: number
@@ -28,6 +33,23 @@ export interface PositionDetails extends Position {
   poolAddress?: string
 }
 
+/**
+ * Adding liquidity to an existing position, with amounts in token units
+ */
+export interface IncreaseLiquidityParams {
+  tokenId: string
+  amount0Desired: string
+  amount1Desired: string
+  amount0Min: string
+  amount1Min: string
+  deadline: number
+  recipient: Address
+  // Add position's original tick range
+  tickLower?: number
+  tickUpper?: number
+  currentTick?: number
+}
+
 /**
  * Position token amounts
  */
@@ -46,3 +68,15 @@ export interface PriceRange {
   maxTick: number
 }
 
+/**
+ * Inputs and result of a position APR estimate, kept together so the UI can
+ * show how the number was derived
+ */
+export interface PositionAPR {
+  apr: number
+  inRange: boolean
+  liquidityShare: number // Position liquidity / pool active liquidity (0 when out of range)
+  poolFees24hUsd: number
+  positionFees24hUsd: number
+  positionValueUsd: number
+}
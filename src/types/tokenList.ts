@@ -0,0 +1,64 @@
+import { Token } from '../config/tokens'
+
+/**
+ * Semantic version of a token list. Patch bumps change token details, minor
+ * bumps only add tokens, and major bumps remove tokens or change addresses.
+ */
+export interface TokenListVersion {
+  major: number
+  minor: number
+  patch: number
+}
+
+/**
+ * Token entry of the Uniswap token list standard
+ */
+export interface TokenListToken {
+  chainId: number
+  address: string
+  name: string
+  symbol: string
+  decimals: number
+  logoURI?: string
+  tags?: string[]
+  extensions?: Record<string, unknown>
+}
+
+/**
+ * A token list in the Uniswap token list JSON format
+ */
+export interface TokenList {
+  name: string
+  timestamp: string // ISO 8601
+  version: TokenListVersion
+  tokens: TokenListToken[]
+  logoURI?: string
+  keywords?: string[]
+  tags?: Record<string, { name: string; description: string }>
+}
+
+export interface TokenListDiff {
+  added: TokenListToken[]
+  removed: TokenListToken[]
+  changed: { token: TokenListToken; fields: (keyof TokenListToken)[] }[] // token as it is in the newer list
+}
+
+/**
+ * A token list the user added, as persisted in localStorage
+ */
+export interface TokenListSource {
+  id: string // URL, or 'file:<name>' for lists loaded from a file
+  enabled: boolean
+  list: TokenList
+  fetchedAt: number // Unix ms
+  pending?: TokenList // Major update waiting for the user to accept it
+  lastUpdate?: { from: TokenListVersion; diff: TokenListDiff } // Most recent update applied
+  error?: string // Why the last refresh failed
+}
+
+/**
+ * A token from one or more enabled lists, with the names of those lists
+ */
+export interface ListedToken extends Token {
+  lists: string[]
+}
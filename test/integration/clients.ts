@@ -0,0 +1,19 @@
+import { createPublicClient, createTestClient, createWalletClient, http, type PublicClient } from 'viem'
+import { mnemonicToAccount } from 'viem/accounts'
+import { blockxDevnet } from '../../src/config/chains'
+
+// Default accounts of both Hardhat and Anvil
+const TEST_MNEMONIC = 'test test test test test test test test test test test junk'
+
+/**
+ * Clients for the local chain, acting as its first funded account
+ * @param mode Which node's cheat codes the test client speaks
+ */
+export function getTestClients(rpcUrl: string, mode: 'hardhat' | 'anvil' = 'hardhat') {
+  const transport = http(rpcUrl)
+  return {
+    publicClient: createPublicClient({ chain: blockxDevnet, transport }) as PublicClient,
+    walletClient: createWalletClient({ account: mnemonicToAccount(TEST_MNEMONIC), chain: blockxDevnet, transport }),
+    testClient: createTestClient({ mode, chain: blockxDevnet, transport }),
+  }
+}
@@ -0,0 +1,196 @@
+import { readFileSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { keccak256, zeroAddress, zeroHash, type Abi, type Address, type Hex, type PublicClient, type WalletClient } from 'viem'
+
+const require = createRequire(import.meta.url)
+
+interface Artifact {
+  abi: Abi
+  bytecode: Hex
+}
+
+export interface DexDeployment {
+  WBCX: Address
+  FACTORY: Address
+  SWAP_ROUTER: Address
+  QUOTER_V2: Address
+  NONFUNGIBLE_POSITION_MANAGER: Address
+  PERMIT2: Address
+  UNIVERSAL_ROUTER: Address
+  TOKEN_A: Address // 18 decimals, approved with approve, or through Permit2 for swaps
+  TOKEN_B: Address // 6 decimals, approved with an EIP-2612 permit
+}
+
+// Fee tiers the app offers beyond the three Uniswap's factory enables on deployment
+const EXTRA_FEE_TIERS: Array<[number, number]> = [
+  [100, 1],
+  [2500, 50],
+]
+
+/**
+ * Load a compiled contract from one of the published @uniswap packages
+ */
+function uniswapArtifact(path: string): Artifact {
+  const { abi, bytecode } = JSON.parse(readFileSync(require.resolve(path), 'utf8'))
+  return { abi, bytecode }
+}
+
+/**
+ * Permit2's creation code, which the Universal Router package only ships inside its typechain factory
+ */
+function permit2Bytecode(): Hex {
+  const factory = readFileSync(require.resolve('@uniswap/universal-router/typechain/factories/Permit2__factory.ts'), 'utf8')
+  const bytecode = factory.match(/const _bytecode =\s*"(0x[0-9a-fA-F]+)"/)?.[1]
+  if (!bytecode) throw new Error('Permit2 bytecode not found in @uniswap/universal-router')
+  return bytecode as Hex
+}
+
+/**
+ * Compile the test-only contracts with solc-js, so the harness needs no compiler download
+ */
+function compileTestContracts(): Record<string, Artifact> {
+  const solc = require('solc')
+  const dir = fileURLToPath(new URL('./contracts', import.meta.url))
+  const sources = Object.fromEntries(
+    ['TestERC20.sol', 'WBCX.sol'].map(file => [file, { content: readFileSync(join(dir, file), 'utf8') }])
+  )
+  const output = JSON.parse(solc.compile(JSON.stringify({
+    language: 'Solidity',
+    sources,
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  })))
+
+  const errors = (output.errors ?? []).filter((e: { severity: string }) => e.severity === 'error')
+  if (errors.length > 0) {
+    throw new Error(`Compiling test contracts failed:\n${errors.map((e: { formattedMessage: string }) => e.formattedMessage).join('\n')}`)
+  }
+
+  const artifacts: Record<string, Artifact> = {}
+  for (const file of Object.keys(output.contracts)) {
+    for (const [name, contract] of Object.entries(output.contracts[file] as Record<string, { abi: Abi; evm: { bytecode: { object: string } } }>)) {
+      artifacts[name] = { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` }
+    }
+  }
+  return artifacts
+}
+
+async function deploy(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  artifact: Artifact,
+  args: readonly unknown[] = []
+): Promise<Address> {
+  const hash = await walletClient.deployContract({
+    abi: artifact.abi,
+    bytecode: artifact.bytecode,
+    args,
+    account: walletClient.account!,
+    chain: walletClient.chain,
+  })
+  const receipt = await publicClient.waitForTransactionReceipt({ hash })
+  if (!receipt.contractAddress) throw new Error(`Deployment ${hash} created no contract`)
+  return receipt.contractAddress
+}
+
+async function send(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  address: Address,
+  abi: Abi,
+  functionName: string,
+  args: readonly unknown[]
+) {
+  const hash = await walletClient.writeContract({
+    address,
+    abi,
+    functionName,
+    args,
+    account: walletClient.account!,
+    chain: walletClient.chain,
+  })
+  await publicClient.waitForTransactionReceipt({ hash })
+}
+
+/**
+ * Deploy Uniswap V3 core and periphery, Permit2 and the Universal Router, WBCX
+ * and two test tokens, and fund the deployer
+ * @param mintAmount Whole tokens of each test token minted to the deployer
+ */
+export async function deployDex(
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  mintAmount = BigInt(1000000)
+): Promise<DexDeployment> {
+  const testContracts = compileTestContracts()
+  const owner = walletClient.account!.address
+
+  const WBCX = await deploy(publicClient, walletClient, testContracts.WBCX)
+
+  const factoryArtifact = uniswapArtifact('@uniswap/v3-core/artifacts/contracts/UniswapV3Factory.sol/UniswapV3Factory.json')
+  const FACTORY = await deploy(publicClient, walletClient, factoryArtifact)
+  for (const [fee, tickSpacing] of EXTRA_FEE_TIERS) {
+    await send(publicClient, walletClient, FACTORY, factoryArtifact.abi, 'enableFeeAmount', [fee, tickSpacing])
+  }
+
+  const SWAP_ROUTER = await deploy(
+    publicClient,
+    walletClient,
+    uniswapArtifact('@uniswap/v3-periphery/artifacts/contracts/SwapRouter.sol/SwapRouter.json'),
+    [FACTORY, WBCX]
+  )
+  const QUOTER_V2 = await deploy(
+    publicClient,
+    walletClient,
+    uniswapArtifact('@uniswap/v3-periphery/artifacts/contracts/lens/QuoterV2.sol/QuoterV2.json'),
+    [FACTORY, WBCX]
+  )
+  // tokenURI is never called in the tests, so the position manager gets no descriptor
+  const NONFUNGIBLE_POSITION_MANAGER = await deploy(
+    publicClient,
+    walletClient,
+    uniswapArtifact('@uniswap/v3-periphery/artifacts/contracts/NonfungiblePositionManager.sol/NonfungiblePositionManager.json'),
+    [FACTORY, WBCX, '0x0000000000000000000000000000000000000000']
+  )
+
+  const PERMIT2 = await deploy(publicClient, walletClient, { abi: [], bytecode: permit2Bytecode() })
+  // Only the V3 swaps are wired up; the V2 pairs and NFT markets the router also trades on don't exist here
+  const UNIVERSAL_ROUTER = await deploy(
+    publicClient,
+    walletClient,
+    uniswapArtifact('@uniswap/universal-router/artifacts/contracts/UniversalRouter.sol/UniversalRouter.json'),
+    [{
+      permit2: PERMIT2,
+      weth9: WBCX,
+      seaportV1_5: zeroAddress,
+      seaportV1_4: zeroAddress,
+      openseaConduit: zeroAddress,
+      nftxZap: zeroAddress,
+      x2y2: zeroAddress,
+      foundation: zeroAddress,
+      sudoswap: zeroAddress,
+      elementMarket: zeroAddress,
+      nft20Zap: zeroAddress,
+      cryptopunks: zeroAddress,
+      looksRareV2: zeroAddress,
+      routerRewardsDistributor: zeroAddress,
+      looksRareRewardsDistributor: zeroAddress,
+      looksRareToken: zeroAddress,
+      v2Factory: zeroAddress,
+      v3Factory: FACTORY,
+      pairInitCodeHash: zeroHash,
+      poolInitCodeHash: keccak256(uniswapArtifact('@uniswap/v3-core/artifacts/contracts/UniswapV3Pool.sol/UniswapV3Pool.json').bytecode),
+    }]
+  )
+
+  const TOKEN_A = await deploy(publicClient, walletClient, testContracts.TestERC20, ['Test Token A', 'TSTA', 18])
+  const TOKEN_B = await deploy(publicClient, walletClient, testContracts.TestERC20Permit, ['Test Token B', 'TSTB', 6])
+  await send(publicClient, walletClient, TOKEN_A, testContracts.TestERC20.abi, 'mint', [owner, mintAmount * BigInt(10) ** BigInt(18)])
+  await send(publicClient, walletClient, TOKEN_B, testContracts.TestERC20Permit.abi, 'mint', [owner, mintAmount * BigInt(10) ** BigInt(6)])
+
+  return { WBCX, FACTORY, SWAP_ROUTER, QUOTER_V2, NONFUNGIBLE_POSITION_MANAGER, PERMIT2, UNIVERSAL_ROUTER, TOKEN_A, TOKEN_B }
+}
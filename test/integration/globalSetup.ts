@@ -0,0 +1,93 @@
+import { spawn, type ChildProcess } from 'node:child_process'
+import { createRequire } from 'node:module'
+import { blockxDevnet } from '../../src/config/chains'
+import { getTestClients } from './clients'
+import { deployDex } from './deploy'
+
+const require = createRequire(import.meta.url)
+
+const NODE_PORT = Number(process.env.INTEGRATION_PORT || 18545)
+const NODE_START_TIMEOUT = 60 * 1000
+
+async function isNodeReady(rpcUrl: string): Promise<boolean> {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+    })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Start an in-memory Hardhat node (forking BLOCKX_FORK_URL when set, see hardhat.config.js)
+ */
+async function startHardhatNode(): Promise<{ rpcUrl: string; node: ChildProcess }> {
+  const rpcUrl = `http://127.0.0.1:${NODE_PORT}`
+  if (await isNodeReady(rpcUrl)) {
+    throw new Error(`Port ${NODE_PORT} is already in use; set INTEGRATION_PORT or INTEGRATION_RPC_URL`)
+  }
+
+  const cli = require.resolve('hardhat/internal/cli/cli.js')
+  const node = spawn(process.execPath, [cli, 'node', '--hostname', '127.0.0.1', '--port', String(NODE_PORT)], {
+    stdio: ['ignore', 'pipe', 'pipe'],
+  })
+  let output = ''
+  node.stdout?.on('data', chunk => { output += chunk })
+  node.stderr?.on('data', chunk => { output += chunk })
+
+  const startedAt = Date.now()
+  while (!await isNodeReady(rpcUrl)) {
+    if (node.exitCode !== null || Date.now() - startedAt > NODE_START_TIMEOUT) {
+      node.kill()
+      throw new Error(`Hardhat node did not start:\n${output}`)
+    }
+    await new Promise(resolve => setTimeout(resolve, 250))
+  }
+  return { rpcUrl, node }
+}
+
+/**
+ * Start a local chain, deploy the DEX to it and point the devnet network
+ * config at it through the same NEXT_PUBLIC_DEVNET_* variables the app reads.
+ * Test files are loaded after this runs, so the config picks them up.
+ */
+export default async function setup() {
+  let node: ChildProcess | undefined
+  let rpcUrl = process.env.INTEGRATION_RPC_URL
+  if (!rpcUrl) {
+    ({ rpcUrl, node } = await startHardhatNode())
+  }
+
+  try {
+    const { publicClient, walletClient } = getTestClients(rpcUrl)
+    const chainId = await publicClient.getChainId()
+    if (chainId !== blockxDevnet.id) {
+      throw new Error(`The integration node serves chain ${chainId}, but the devnet is chain ${blockxDevnet.id}`)
+    }
+
+    const deployment = await deployDex(publicClient, walletClient)
+    Object.assign(process.env, {
+      NEXT_PUBLIC_DEVNET_RPC_URL: rpcUrl,
+      NEXT_PUBLIC_DEVNET_FACTORY_ADDRESS: deployment.FACTORY,
+      NEXT_PUBLIC_DEVNET_ROUTER_ADDRESS: deployment.SWAP_ROUTER,
+      NEXT_PUBLIC_DEVNET_WBCX_ADDRESS: deployment.WBCX,
+      NEXT_PUBLIC_DEVNET_QUOTER_V2_ADDRESS: deployment.QUOTER_V2,
+      NEXT_PUBLIC_DEVNET_POSITION_MANAGER_ADDRESS: deployment.NONFUNGIBLE_POSITION_MANAGER,
+      NEXT_PUBLIC_DEVNET_PERMIT2_ADDRESS: deployment.PERMIT2,
+      NEXT_PUBLIC_DEVNET_UNIVERSAL_ROUTER_ADDRESS: deployment.UNIVERSAL_ROUTER,
+      INTEGRATION_TOKEN_A: deployment.TOKEN_A,
+      INTEGRATION_TOKEN_B: deployment.TOKEN_B,
+    })
+  } catch (error) {
+    node?.kill()
+    throw error
+  }
+
+  return () => {
+    node?.kill()
+  }
+}
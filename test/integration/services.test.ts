@@ -0,0 +1,258 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { parseUnits, type Address, type Hash } from 'viem'
+import {
+  CONTRACT_ADDRESSES,
+  ERC20_ABI,
+  PoolService,
+  PositionService,
+  approveToken,
+  blockxDevnet,
+  buildMintCall,
+  executeExactOutputSwap,
+  executeSwap,
+  getExactOutputQuote,
+  getFullRangeTicks,
+  getQuote,
+  getSwapApprovalSpender,
+  permitOrApprove,
+  setActiveNetwork,
+  simulateAndWrite,
+  simulateMint,
+  tickToPrice,
+  withSelfPermits,
+} from '@/sdk'
+import { getTestClients } from './clients'
+
+const FEE = 500
+const MAX_UINT128 = BigInt('340282366920938463463374607431768211455')
+
+const { publicClient, walletClient, testClient } = getTestClients(process.env.NEXT_PUBLIC_DEVNET_RPC_URL!)
+const owner = walletClient.account.address
+
+// TSTA has 18 decimals and only approve, so swaps can go through Permit2; TSTB has 6 decimals and EIP-2612 permit
+const TOKEN_A = { address: process.env.INTEGRATION_TOKEN_A as Address, decimals: 18 }
+const TOKEN_B = { address: process.env.INTEGRATION_TOKEN_B as Address, decimals: 6 }
+const [token0, token1] = TOKEN_A.address.toLowerCase() < TOKEN_B.address.toLowerCase()
+  ? [TOKEN_A, TOKEN_B]
+  : [TOKEN_B, TOKEN_A]
+// 1 TSTA = 2 TSTB, as token1 per token0 in human units
+const HUMAN_PRICE = token0 === TOKEN_A ? 2 : 0.5
+
+function balanceOf(token: Address): Promise<bigint> {
+  return publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [owner] })
+}
+
+async function waitFor(hash: string) {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: hash as Hash })
+  expect(receipt.status).toBe('success')
+}
+
+function deadline(): bigint {
+  return BigInt(Math.floor(Date.now() / 1000) + 20 * 60)
+}
+
+describe('DEX services on a local chain', () => {
+  const poolService = new PoolService(publicClient, walletClient)
+  const positionService = new PositionService(publicClient, walletClient)
+  let tokenId: string
+
+  beforeAll(() => {
+    expect(setActiveNetwork(blockxDevnet.id)).toBe(true)
+  })
+
+  it('creates and initializes a pool', async () => {
+    const poolAddress = await poolService.createPool({
+      token0: token0.address,
+      token1: token1.address,
+      fee: FEE,
+      initialPrice: HUMAN_PRICE,
+      decimals0: token0.decimals,
+      decimals1: token1.decimals,
+    })
+
+    // The tokens' decimals differ, so a raw price would be off by 10^12
+    const pool = await poolService.getPoolByAddress(poolAddress)
+    expect(pool?.fee).toBe(FEE)
+    expect(pool?.currentPrice).toBeCloseTo(HUMAN_PRICE, 6)
+    expect(tickToPrice(pool!.currentTick, token0.decimals, token1.decimals)).toBeCloseTo(HUMAN_PRICE, 3)
+  })
+
+  it('finds the pool in the factory logs', async () => {
+    const pools = await poolService.getAllPools()
+    expect(pools.map(pool => [pool.token0.address.toLowerCase(), pool.token1.address.toLowerCase(), pool.fee])).toContainEqual(
+      [token0.address.toLowerCase(), token1.address.toLowerCase(), FEE]
+    )
+  })
+
+  it('mints a full-range position, approving one token and permitting the other', async () => {
+    const { minTick, maxTick } = getFullRangeTicks(10)
+    const amount0 = parseUnits(token0 === TOKEN_A ? '1000' : '2000', token0.decimals)
+    const amount1 = parseUnits(token1 === TOKEN_A ? '1000' : '2000', token1.decimals)
+    const positionManager = CONTRACT_ADDRESSES.NONFUNGIBLE_POSITION_MANAGER as Address
+
+    const permits = [
+      await permitOrApprove(walletClient, publicClient, token0.address, positionManager, amount0, deadline()),
+      await permitOrApprove(walletClient, publicClient, token1.address, positionManager, amount1, deadline()),
+    ]
+    // Only the permit token is signed for
+    expect(permits.filter(Boolean).map(permit => permit!.token)).toEqual([TOKEN_B.address])
+
+    const call = withSelfPermits(buildMintCall({
+      token0: token0.address,
+      token1: token1.address,
+      fee: FEE,
+      tickLower: minTick,
+      tickUpper: maxTick,
+      amount0Desired: amount0,
+      amount1Desired: amount1,
+      recipient: owner,
+      deadline: deadline(),
+    }), permits)
+    const preview = await simulateMint(publicClient, owner, call)
+    expect(preview.status).toBe('success')
+
+    await waitFor(await simulateAndWrite(publicClient, walletClient, call))
+
+    const positions = await positionService.getPositions(owner)
+    expect(positions).toHaveLength(1)
+    tokenId = positions[0].tokenId
+    if (preview.status === 'success') {
+      expect(positions[0].tokenId).toBe(preview.result.tokenId.toString())
+      expect(positions[0].liquidity).toBe(preview.result.liquidity.toString())
+    }
+  })
+
+  it('swaps exact input for exactly the quoted amount', async () => {
+    const quote = await getQuote(publicClient, TOKEN_A.address, TOKEN_B.address, '10', 0.5)
+    expect(quote.route?.fees).toEqual([FEE])
+    await waitFor(await approveToken(walletClient, publicClient, TOKEN_A.address, '10', TOKEN_A.decimals))
+
+    const before = await balanceOf(TOKEN_B.address)
+    await waitFor(await executeSwap(walletClient, publicClient, {
+      tokenIn: TOKEN_A.address,
+      tokenOut: TOKEN_B.address,
+      amountIn: '10',
+      slippage: 0.5,
+      deadline: 20,
+      recipient: owner,
+    }, quote))
+
+    const received = await balanceOf(TOKEN_B.address) - before
+    expect(received).toBe(parseUnits(quote.amountOut, TOKEN_B.decimals))
+    expect(received).toBeGreaterThanOrEqual(parseUnits(quote.minimumReceived, TOKEN_B.decimals))
+  })
+
+  it('swaps a token without permit through Permit2 with one approval', async () => {
+    const permit2 = CONTRACT_ADDRESSES.PERMIT2 as Address
+    // The exact approval to SwapRouter was used up, so Permit2 is approved instead
+    expect(await getSwapApprovalSpender(publicClient, TOKEN_A.address, owner, parseUnits('5', TOKEN_A.decimals))).toBe(permit2)
+    await waitFor(await approveToken(walletClient, publicClient, TOKEN_A.address, '20', TOKEN_A.decimals, permit2))
+    expect(await getSwapApprovalSpender(publicClient, TOKEN_A.address, owner, parseUnits('5', TOKEN_A.decimals))).toBeNull()
+
+    const quote = await getQuote(publicClient, TOKEN_A.address, TOKEN_B.address, '5', 0.5)
+    const before = await balanceOf(TOKEN_B.address)
+    await waitFor(await executeSwap(walletClient, publicClient, {
+      tokenIn: TOKEN_A.address,
+      tokenOut: TOKEN_B.address,
+      amountIn: '5',
+      slippage: 0.5,
+      deadline: 20,
+      recipient: owner,
+    }, quote))
+    expect(await balanceOf(TOKEN_B.address) - before).toBe(parseUnits(quote.amountOut, TOKEN_B.decimals))
+
+    // The signed allowance was exact and is spent, so this swap signs again under the next nonce
+    const exactOut = await getExactOutputQuote(publicClient, TOKEN_A.address, TOKEN_B.address, '2', 0.5)
+    const [beforeIn, beforeOut] = await Promise.all([balanceOf(TOKEN_A.address), balanceOf(TOKEN_B.address)])
+    await waitFor(await executeExactOutputSwap(walletClient, publicClient, {
+      tokenIn: TOKEN_A.address,
+      tokenOut: TOKEN_B.address,
+      amountOut: '2',
+      slippage: 0.5,
+      deadline: 20,
+      recipient: owner,
+    }, exactOut))
+    expect(await balanceOf(TOKEN_B.address) - beforeOut).toBe(parseUnits('2', TOKEN_B.decimals))
+    expect(beforeIn - await balanceOf(TOKEN_A.address)).toBe(parseUnits(exactOut.amountIn, TOKEN_A.decimals))
+  })
+
+  it('swaps a permit token without an approve transaction', async () => {
+    const before = await balanceOf(TOKEN_A.address)
+    await waitFor(await executeSwap(walletClient, publicClient, {
+      tokenIn: TOKEN_B.address,
+      tokenOut: TOKEN_A.address,
+      amountIn: '20',
+      slippage: 0.5,
+      deadline: 20,
+      recipient: owner,
+    }))
+    expect(await balanceOf(TOKEN_A.address)).toBeGreaterThan(before)
+  })
+
+  it('refuses to send a swap whose deadline has passed', async () => {
+    await waitFor(await approveToken(walletClient, publicClient, TOKEN_A.address, '1', TOKEN_A.decimals))
+    // The swap's 1 minute deadline is taken from the wall clock; move the chain past it
+    await testClient.increaseTime({ seconds: 2 * 60 })
+    await testClient.mine({ blocks: 1 })
+
+    await expect(executeSwap(walletClient, publicClient, {
+      tokenIn: TOKEN_A.address,
+      tokenOut: TOKEN_B.address,
+      amountIn: '1',
+      slippage: 0.5,
+      deadline: 1,
+      recipient: owner,
+    })).rejects.toMatchObject({ name: 'SimulationError', code: 'DEADLINE', reason: 'Transaction too old' })
+  })
+
+  it('increases liquidity', async () => {
+    const [position] = await positionService.getPositions(owner)
+    await waitFor(await positionService.increaseLiquidity({
+      tokenId,
+      amount0Desired: token0 === TOKEN_A ? '100' : '200',
+      amount1Desired: token1 === TOKEN_A ? '100' : '200',
+      amount0Min: '0',
+      amount1Min: '0',
+      deadline: 20,
+      recipient: owner,
+    }))
+
+    const [increased] = await positionService.getPositions(owner)
+    expect(BigInt(increased.liquidity)).toBeGreaterThan(BigInt(position.liquidity))
+  })
+
+  it('collects the fees the swaps paid', async () => {
+    const preview = await positionService.simulateCollect(tokenId, owner)
+    expect(preview.status).toBe('success')
+    if (preview.status !== 'success') return
+    const [fees0, fees1] = preview.result
+    expect(fees0).toBeGreaterThan(BigInt(0))
+    expect(fees1).toBeGreaterThan(BigInt(0))
+
+    const [before0, before1] = await Promise.all([balanceOf(token0.address), balanceOf(token1.address)])
+    await waitFor(await positionService.collectFees(tokenId, owner, MAX_UINT128.toString(), MAX_UINT128.toString()))
+    expect(await balanceOf(token0.address) - before0).toBe(fees0)
+    expect(await balanceOf(token1.address) - before1).toBe(fees1)
+  })
+
+  it('decreases all liquidity and collects the tokens', async () => {
+    const [position] = await positionService.getPositions(owner)
+    const preview = await positionService.simulateDecreaseLiquidity(tokenId, position.liquidity, owner)
+    expect(preview.status).toBe('success')
+
+    const [before0, before1] = await Promise.all([balanceOf(token0.address), balanceOf(token1.address)])
+    await waitFor(await positionService.removeLiquidity(tokenId, position.liquidity, '0', '0', 20, owner))
+
+    const [emptied] = await positionService.getPositions(owner)
+    expect(emptied.liquidity).toBe('0')
+    if (preview.status === 'success') {
+      expect(await balanceOf(token0.address) - before0).toBeGreaterThanOrEqual(preview.result[0])
+      expect(await balanceOf(token1.address) - before1).toBeGreaterThanOrEqual(preview.result[1])
+    }
+  })
+
+  it('burns the emptied position', async () => {
+    await waitFor(await positionService.burnPosition(tokenId))
+    expect(await positionService.getPositions(owner)).toEqual([])
+  })
+})